@@ -0,0 +1,448 @@
+import { type TypedDataDomain } from "ethers";
+import { ConfigHelper } from "./ConfigHelper";
+import { OperatorHelper } from "./OperatorHelper";
+import { TaskTypeRegistry } from "./TaskTypeRegistry";
+import { Task } from "./model/Task";
+import {
+  TaskCertificate,
+  TaskCertificateSignature,
+  TaskCertificateSigners,
+  TaskCertificateTrust,
+} from "./model/TaskCertificate";
+import { TaskResponse } from "./model/TaskResponse";
+import { SlashingEvidence } from "./model/SlashingEvidence";
+
+/**
+ * A helper class to build and verify the attestation certificates of completed tasks, and to build the
+ * slashing evidence of the operators disagreeing with them
+ *
+ * Certificates are verified offline: the verification only relies on the content of the certificate, on the task
+ * types and on what the verifier trusts about the task, without any call to the chain or to the Task Aggregator
+ */
+export class CertificateHelper {
+  /**
+   * Fetches what the signatures of the responses to a task are checked against
+   *
+   * The owner of each operator is fetched from the chain indexer or the Operator Registry
+   *
+   * @param operatorIds The IDs of the operators who can answer the task
+   * @returns A promise that resolves to the EIP-712 domain of the DVN and the owner of each operator,
+   * or rejects with an error message if they could not be fetched
+   */
+  static async fetchSigners(
+    operatorIds: number[],
+  ): Promise<TaskCertificateSigners> {
+    try {
+      const domain = await OperatorHelper.getResponseDomain();
+      const owners = await Promise.all(
+        operatorIds.map((operatorId) =>
+          OperatorHelper.getOperatorOwner(operatorId),
+        ),
+      );
+
+      return {
+        domain,
+        owners: new Map(
+          operatorIds.map((operatorId, index) => [operatorId, owners[index]]),
+        ),
+      };
+    } catch (error) {
+      throw `Error fetching operator owners: ${error}`;
+    }
+  }
+
+  /**
+   * Builds the certificate of a task reaching consensus
+   *
+   * Responses whose signature does not match the owner of their operator are left out of the certificate
+   *
+   * @param task The task reaching consensus
+   * @param response The serialized canonical response the operators agreed on
+   * @param agreeingResponses The responses agreeing with the final response
+   * @param requiredSignaturesCount The number of agreeing responses required by the quorum policy of the task
+   * @param signers The EIP-712 domain of the DVN and the owners of the operators, see fetchSigners
+   * @returns The certificate of the task
+   */
+  static buildCertificate(
+    task: Task,
+    response: string,
+    agreeingResponses: TaskResponse[],
+    requiredSignaturesCount: number,
+    signers: TaskCertificateSigners,
+  ): TaskCertificate {
+    const signatures = agreeingResponses
+      .map((taskResponse) =>
+        CertificateHelper.buildSignature(taskResponse, signers),
+      )
+      .filter(
+        (signature): signature is TaskCertificateSignature =>
+          signature != null &&
+          CertificateHelper.isSignatureValid(
+            task.id,
+            task.type,
+            signers.domain,
+            signature,
+          ),
+      );
+
+    const certificate = new TaskCertificate();
+
+    certificate.version = TaskCertificate.VERSION;
+    certificate.scheme = TaskCertificate.SCHEME_ECDSA_MULTISIG;
+    certificate.chainId = Number(signers.domain.chainId);
+    certificate.dvnCoordinator = signers.domain.verifyingContract!;
+    certificate.taskId = task.id;
+    certificate.taskType = task.type;
+    certificate.input = task.input;
+    certificate.response = response;
+    certificate.scoreToleranceBps =
+      TaskTypeRegistry.get(task.type).scoreResponse != null
+        ? ConfigHelper.getResponseScoreToleranceBps()
+        : null;
+    certificate.requiredSignaturesCount = requiredSignaturesCount;
+    certificate.signatures = signatures;
+    certificate.createdAt = Date.now();
+
+    return certificate;
+  }
+
+  /**
+   * Builds the slashing evidence of the responses disagreeing with the final response of a task
+   *
+   * Only the responses signed by the current owner of their operator are kept, as the others cannot be attributed to it
+   *
+   * @param task The task reaching consensus
+   * @param response The serialized canonical response the operators agreed on
+   * @param disagreeingResponses The responses disagreeing with the final response
+   * @param signers The EIP-712 domain of the DVN and the owners of the operators, see fetchSigners
+   * @returns The slashing evidence of the signed disagreeing responses
+   */
+  static buildSlashingEvidence(
+    task: Task,
+    response: string,
+    disagreeingResponses: TaskResponse[],
+    signers: TaskCertificateSigners,
+  ): SlashingEvidence[] {
+    const evidence: SlashingEvidence[] = [];
+
+    for (const taskResponse of disagreeingResponses) {
+      const signature = CertificateHelper.buildSignature(taskResponse, signers);
+
+      if (
+        signature == null ||
+        !CertificateHelper.isSignatureValid(
+          task.id,
+          task.type,
+          signers.domain,
+          signature,
+        )
+      ) {
+        continue;
+      }
+
+      const item = new SlashingEvidence();
+
+      item.chainId = Number(signers.domain.chainId);
+      item.dvnCoordinator = signers.domain.verifyingContract!;
+      item.taskId = task.id;
+      item.taskType = task.type;
+      item.operatorId = signature.operatorId;
+      item.operatorOwner = signature.operatorOwner;
+      item.response = signature.response;
+      item.signature = signature.signature;
+      item.signatureVersion = signature.signatureVersion;
+      item.finalResponse = response;
+      item.createdAt = Date.now();
+
+      evidence.push(item);
+    }
+
+    return evidence;
+  }
+
+  /**
+   * Checks if a response is signed by the current owner of its operator, so that it can be attested by a certificate
+   * or kept as slashing evidence
+   *
+   * @param task The task the response refers to
+   * @param taskResponse The response of an operator
+   * @param signers The EIP-712 domain of the DVN and the owners of the operators, see fetchSigners
+   * @returns True if the signature of the response matches the owner of its operator
+   */
+  static isResponseSigned(
+    task: Task,
+    taskResponse: TaskResponse,
+    signers: TaskCertificateSigners,
+  ): boolean {
+    const signature = CertificateHelper.buildSignature(taskResponse, signers);
+
+    return (
+      signature != null &&
+      CertificateHelper.isSignatureValid(
+        task.id,
+        task.type,
+        signers.domain,
+        signature,
+      )
+    );
+  }
+
+  /**
+   * Builds the signature of a response, signed by the owner of its operator
+   *
+   * @param taskResponse The response of an operator
+   * @param signers The EIP-712 domain of the DVN and the owners of the operators
+   * @returns The signature, or undefined if the owner of the operator is unknown
+   */
+  private static buildSignature(
+    taskResponse: TaskResponse,
+    signers: TaskCertificateSigners,
+  ): TaskCertificateSignature | undefined {
+    const operatorOwner = signers.owners.get(taskResponse.operatorId);
+
+    if (operatorOwner == null) {
+      return undefined;
+    }
+
+    return {
+      operatorId: taskResponse.operatorId,
+      operatorOwner: operatorOwner,
+      response: taskResponse.response,
+      signature: taskResponse.signature,
+      signatureVersion: taskResponse.signatureVersion,
+    };
+  }
+
+  /**
+   * Verifies a certificate offline
+   *
+   * A certificate is valid when:
+   * - its version and scheme are supported, and it was issued for the trusted DVN
+   * - each operator signed at most one response, with the key of its trusted owner
+   * - each signed response is valid for the task input and agrees with the final response
+   * - the signatures reach the quorum computed from the trusted quorum policy and operators, the number of
+   *   signatures required by the certificate only being able to raise it
+   *
+   * @param certificate The certificate to verify
+   * @param trust The DVN, operator owners, quorum policy and stakes of the task, known independently of the certificate
+   * @throws Will throw an error describing the first failed check if the certificate is not valid
+   */
+  static verifyCertificate(
+    certificate: TaskCertificate,
+    trust: TaskCertificateTrust,
+  ) {
+    if (certificate.version !== TaskCertificate.VERSION) {
+      throw new Error(`Unsupported certificate version ${certificate.version}`);
+    }
+
+    if (certificate.scheme !== TaskCertificate.SCHEME_ECDSA_MULTISIG) {
+      throw new Error(`Unsupported certificate scheme "${certificate.scheme}"`);
+    }
+
+    if (
+      BigInt(certificate.chainId) !== BigInt(trust.domain.chainId!) ||
+      certificate.dvnCoordinator.toLowerCase() !==
+        trust.domain.verifyingContract!.toLowerCase()
+    ) {
+      throw new Error("Certificate was not issued for the trusted DVN");
+    }
+
+    if (
+      !Number.isInteger(certificate.requiredSignaturesCount) ||
+      certificate.requiredSignaturesCount < 1
+    ) {
+      throw new Error(
+        `Invalid required signatures count ${certificate.requiredSignaturesCount}`,
+      );
+    }
+
+    const taskType = TaskTypeRegistry.get(certificate.taskType);
+    const input = taskType.inputSchema.parse(JSON.parse(certificate.input));
+    const finalResponse = taskType.responseSchema.parse(
+      JSON.parse(certificate.response),
+    );
+
+    if (!taskType.verifyResponse(input, finalResponse)) {
+      throw new Error("Final response is not valid for the task input");
+    }
+
+    const operatorIds = new Set<number>();
+
+    certificate.signatures.forEach((signature) => {
+      if (operatorIds.has(signature.operatorId)) {
+        throw new Error(`Operator #${signature.operatorId} signed twice`);
+      }
+
+      operatorIds.add(signature.operatorId);
+
+      const operatorOwner = trust.owners.get(signature.operatorId);
+
+      if (
+        operatorOwner == null ||
+        operatorOwner.toLowerCase() !== signature.operatorOwner.toLowerCase()
+      ) {
+        throw new Error(
+          `Operator #${signature.operatorId} is not a trusted operator of the task`,
+        );
+      }
+
+      if (
+        !CertificateHelper.isSignatureValid(
+          certificate.taskId,
+          certificate.taskType,
+          trust.domain,
+          signature,
+        )
+      ) {
+        throw new Error(
+          `Invalid signature of Operator #${signature.operatorId}`,
+        );
+      }
+
+      const response = taskType.responseSchema.parse(
+        JSON.parse(signature.response),
+      );
+
+      if (
+        !taskType.verifyResponse(input, response) ||
+        !CertificateHelper.agreesWithFinalResponse(
+          certificate,
+          input,
+          response,
+          finalResponse,
+        )
+      ) {
+        throw new Error(
+          `Response of Operator #${signature.operatorId} does not agree with the final response`,
+        );
+      }
+    });
+
+    CertificateHelper.verifyQuorum(certificate, trust);
+  }
+
+  /**
+   * Checks if the signatures of a certificate reach the quorum of the task, computed from the trusted inputs
+   *
+   * With a stake-weighted policy, the stake of the signing operators must reach the required stake. Otherwise, the
+   * signatures must reach the number of agreeing responses required by the policy, assuming for a policy relative to
+   * the responders that no more responses than required were received
+   *
+   * @param certificate The certificate, whose signatures have been verified
+   * @param trust The DVN, operator owners, quorum policy and stakes of the task, known independently of the certificate
+   * @throws Will throw an error if the quorum is not reached
+   */
+  private static verifyQuorum(
+    certificate: TaskCertificate,
+    trust: TaskCertificateTrust,
+  ) {
+    const { quorumPolicy, operatorsCount, stakes } = trust;
+    const signaturesCount = certificate.signatures.length;
+
+    if (quorumPolicy.isStakeWeighted()) {
+      if (stakes == null) {
+        throw new Error("Missing trusted stakes for a stake-weighted quorum");
+      }
+
+      const sumStakes = (operatorIds: number[]) =>
+        operatorIds.reduce(
+          (sum, operatorId) => sum + (stakes.get(operatorId) ?? 0n),
+          0n,
+        );
+      const requiredStake = quorumPolicy.getRequiredAgreeingResponsesStake(
+        sumStakes([...stakes.keys()]),
+      );
+      const signingStake = sumStakes(
+        certificate.signatures.map(({ operatorId }) => operatorId),
+      );
+
+      if (signingStake < requiredStake) {
+        throw new Error(
+          `Signatures hold ${signingStake} stake out of ${requiredStake} required`,
+        );
+      }
+    }
+
+    const requiredSignaturesCount = quorumPolicy.isStakeWeighted()
+      ? certificate.requiredSignaturesCount
+      : Math.max(
+          certificate.requiredSignaturesCount,
+          quorumPolicy.getRequiredAgreeingResponsesCount(
+            operatorsCount,
+            Math.max(
+              quorumPolicy.getRequiredResponsesCount(operatorsCount),
+              signaturesCount,
+            ),
+          ),
+        );
+
+    if (signaturesCount < requiredSignaturesCount) {
+      throw new Error(
+        `${signaturesCount} signatures out of ${requiredSignaturesCount} required`,
+      );
+    }
+  }
+
+  /**
+   * Checks if a response agrees with the final response of a certificate, the same way the Task Aggregator does
+   *
+   * @param certificate The certificate
+   * @param input The parsed task input
+   * @param response The parsed response signed by an operator
+   * @param finalResponse The parsed final response
+   * @returns True if the response agrees with the final response
+   */
+  private static agreesWithFinalResponse(
+    certificate: TaskCertificate,
+    input: any,
+    response: any,
+    finalResponse: any,
+  ): boolean {
+    const taskType = TaskTypeRegistry.get(certificate.taskType);
+
+    if (taskType.scoreResponse == null) {
+      return (
+        JSON.stringify(taskType.canonicalizeResponse(input, response)) ===
+        JSON.stringify(taskType.canonicalizeResponse(input, finalResponse))
+      );
+    }
+
+    const finalScore = taskType.scoreResponse(input, finalResponse);
+    const maxAcceptedScore =
+      finalScore +
+      (Math.abs(finalScore) * (certificate.scoreToleranceBps ?? 0)) / 10000;
+
+    return taskType.scoreResponse(input, response) <= maxAcceptedScore;
+  }
+
+  /**
+   * Checks if a response of a certificate was signed by the owner of its operator
+   *
+   * @param taskId The ID of the task
+   * @param taskType The type of the task
+   * @param domain The EIP-712 domain of the DVN
+   * @param signature The signature of the response
+   * @returns True if the signature is valid
+   */
+  private static isSignatureValid(
+    taskId: number,
+    taskType: string,
+    domain: TypedDataDomain,
+    signature: TaskCertificateSignature,
+  ): boolean {
+    try {
+      const signer = OperatorHelper.recoverResponseSigner(
+        taskId,
+        taskType,
+        signature.response,
+        signature.signature,
+        signature.signatureVersion,
+        domain,
+      );
+
+      return signer.toLowerCase() === signature.operatorOwner.toLowerCase();
+    } catch (error) {
+      return false;
+    }
+  }
+}
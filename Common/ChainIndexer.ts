@@ -0,0 +1,531 @@
+import { Contract, Interface, type Log } from "ethers";
+import DVNCoordinatorAbi from "./abi/DVNCoordinator";
+import OperatorRegistryAbi from "./abi/OperatorRegistry";
+import { ConfigHelper } from "./ConfigHelper";
+import { DatabaseManager } from "./DatabaseManager";
+import { logger } from "./Logger";
+import { WalletHelper } from "./WalletHelper";
+import { ChainEvent } from "./model/ChainEvent";
+
+/**
+ * The ChainIndexer class follows the events of the demo DVN and of the Operator Registry, and serves
+ * the DVN membership and the operator owners from a local copy of the chain state
+ *
+ * The events are stored in the database along with the hashes of the last indexed blocks: when the hash of
+ * an indexed block no longer matches the chain, the events following the last matching block are removed and
+ * indexed again. Without configured start block, the indexer starts from a snapshot of the current state.
+ *
+ * The local state is only used once the indexer caught up with the chain, see `isSynced`
+ */
+export class ChainIndexer {
+  // Events of the DVNCoordinator contract followed by the indexer
+  private static readonly DVN_EVENTS = [
+    ChainEvent.OPERATOR_REGISTRATION_ACCEPTED,
+    ChainEvent.OPERATOR_REGISTRATION_REJECTED,
+    ChainEvent.DVN_METADATA_URI_UPDATED,
+  ];
+
+  // Events of the Operator Registry contract followed by the indexer
+  private static readonly OPERATOR_REGISTRY_EVENTS = [
+    ChainEvent.OPERATOR_REGISTERED,
+    ChainEvent.OPERATOR_OWNER_UPDATED,
+    ChainEvent.OPERATOR_REWARD_ADDRESS_UPDATED,
+  ];
+
+  private static readonly dvnCoordinatorInterface = new Interface(
+    DVNCoordinatorAbi,
+  );
+  private static readonly operatorRegistryInterface = new Interface(
+    OperatorRegistryAbi,
+  );
+
+  // Timer of the scheduled runs
+  private static interval: NodeJS.Timeout | undefined;
+
+  // Whether a run is in progress, to avoid overlapping runs
+  private static running = false;
+
+  // Whether the indexer caught up with the chain
+  private static synced = false;
+
+  // Addresses of the indexed contracts
+  private static dvnCoordinator: string;
+  private static operatorRegistry: Contract;
+
+  // Local state built from the indexed events
+  private static operators: Set<number> = new Set<number>();
+  private static owners: Map<number, string> = new Map<number, string>();
+  private static rewardAddresses: Map<number, string> = new Map<
+    number,
+    string
+  >();
+  private static dvnMetadataURI: string | null = null;
+
+  /**
+   * Starts indexing the chain events at the configured interval
+   *
+   * The index is cleared if it was built for another DVNCoordinator, eg. after registering a new DVN
+   *
+   * @returns A promise that resolves once the local state is loaded from the database
+   */
+  static async start(): Promise<void> {
+    if (ChainIndexer.interval != null) {
+      return;
+    }
+
+    ChainIndexer.dvnCoordinator =
+      WalletHelper.getDemoDVNCoordinatorContractAddress();
+    ChainIndexer.operatorRegistry =
+      await WalletHelper.getOperatorRegistryContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+    const indexedDVNCoordinator =
+      await DatabaseManager.getChainIndexDVNCoordinator();
+
+    if (
+      indexedDVNCoordinator?.toLowerCase() !==
+      ChainIndexer.dvnCoordinator.toLowerCase()
+    ) {
+      await DatabaseManager.resetChainIndex(ChainIndexer.dvnCoordinator);
+    }
+
+    await ChainIndexer.loadState();
+
+    const period = ConfigHelper.getChainIndexerInterval();
+    const run = async () => {
+      if (ChainIndexer.running) {
+        return;
+      }
+
+      ChainIndexer.running = true;
+
+      try {
+        await ChainIndexer.indexBlocks();
+      } catch (error) {
+        logger.error(`Error indexing chain events: ${error}`);
+      } finally {
+        ChainIndexer.running = false;
+      }
+    };
+
+    ChainIndexer.interval = setInterval(run, period);
+    run();
+
+    logger.info(`Chain indexer started, running every ${period / 1000}s`);
+  }
+
+  /**
+   * Stops indexing the chain events, lookups are then made over RPC
+   */
+  static stop() {
+    if (ChainIndexer.interval == null) {
+      return;
+    }
+
+    clearInterval(ChainIndexer.interval);
+    ChainIndexer.interval = undefined;
+    ChainIndexer.synced = false;
+  }
+
+  /**
+   * Checks if the local state can be used: the indexer is running and caught up with the chain
+   *
+   * @returns True if the local state is up to date
+   */
+  static isSynced(): boolean {
+    return ChainIndexer.interval != null && ChainIndexer.synced;
+  }
+
+  /**
+   * Retrieves the IDs of the operators registered to the demo DVN from the local state
+   *
+   * @returns The IDs of the operators
+   */
+  static getRegisteredOperators(): number[] {
+    return [...ChainIndexer.operators];
+  }
+
+  /**
+   * Checks if an operator is registered to the demo DVN from the local state
+   *
+   * @param operatorId The ID of the operator
+   * @returns True if the operator is registered
+   */
+  static isOperatorRegistered(operatorId: number): boolean {
+    return ChainIndexer.operators.has(operatorId);
+  }
+
+  /**
+   * Retrieves the owner of an operator from the local state
+   *
+   * The owner of an operator registered before the indexed blocks is read from the Operator Registry
+   * at the last indexed block, then stored as a snapshot event
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the address of the owner
+   */
+  static async getOperatorOwner(operatorId: number): Promise<string> {
+    const owner = ChainIndexer.owners.get(operatorId);
+
+    if (owner != null) {
+      return owner;
+    }
+
+    const [block] = await DatabaseManager.fetchIndexedBlocks();
+
+    if (block == null) {
+      return WalletHelper.getOperatorOwner(operatorId);
+    }
+    const snapshot = ChainIndexer.buildSnapshotEvent(
+      block,
+      ChainEvent.OPERATOR_OWNER_UPDATED,
+      operatorId,
+      await ChainIndexer.operatorRegistry.getOperatorOwner(operatorId, {
+        blockTag: block.number,
+      }),
+    );
+
+    await DatabaseManager.saveIndexedBlocks([snapshot], [], 0);
+
+    // an event may have been indexed in the meantime
+    if (!ChainIndexer.owners.has(operatorId)) {
+      ChainIndexer.applyEvent(snapshot);
+    }
+
+    return ChainIndexer.owners.get(operatorId)!;
+  }
+
+  /**
+   * Retrieves the reward address of an operator from the local state
+   *
+   * @param operatorId The ID of the operator
+   * @returns The reward address, or undefined if it was not indexed
+   */
+  static getOperatorRewardAddress(operatorId: number): string | undefined {
+    return ChainIndexer.rewardAddresses.get(operatorId);
+  }
+
+  /**
+   * Retrieves the metadata URI of the demo DVN from the local state
+   *
+   * @returns The metadata URI, or null if it was not indexed
+   */
+  static getDVNMetadataURI(): string | null {
+    return ChainIndexer.dvnMetadataURI;
+  }
+
+  /**
+   * Indexes the blocks mined since the last run, after handling any chain reorganization
+   *
+   * @returns A promise that resolves once the indexer caught up with the chain
+   */
+  static async indexBlocks(): Promise<void> {
+    const provider = WalletHelper.getRPCProvider();
+    const head = await provider.getBlockNumber();
+    const batchSize = ConfigHelper.getChainIndexerBatchSize();
+
+    let cursor = await ChainIndexer.findLastCanonicalBlock();
+
+    if (cursor == null) {
+      cursor = await ChainIndexer.initializeIndex(head);
+    }
+
+    while (cursor < head) {
+      const fromBlock = cursor + 1;
+      const toBlock = Math.min(head, cursor + batchSize);
+
+      const [logs, lastBlock] = await Promise.all([
+        provider.getLogs({
+          address: [
+            ChainIndexer.dvnCoordinator,
+            await ChainIndexer.operatorRegistry.getAddress(),
+          ],
+          fromBlock,
+          toBlock,
+          topics: [ChainIndexer.getTopics()],
+        }),
+        provider.getBlock(toBlock),
+      ]);
+
+      const events = logs
+        .map((log) => ChainIndexer.buildEvent(log))
+        .filter((event): event is ChainEvent => event != null);
+
+      await DatabaseManager.saveIndexedBlocks(
+        events,
+        [
+          ...events.map(({ blockNumber, blockHash }) => ({
+            number: blockNumber,
+            hash: blockHash,
+          })),
+          { number: toBlock, hash: lastBlock!.hash! },
+        ],
+        toBlock - ConfigHelper.getChainIndexerReorgDepth(),
+      );
+
+      events.forEach((event) => ChainIndexer.applyEvent(event));
+
+      cursor = toBlock;
+    }
+
+    if (!ChainIndexer.synced) {
+      logger.info(`Chain indexer synced at block ${head}`);
+    }
+
+    ChainIndexer.synced = true;
+  }
+
+  /**
+   * Finds the last indexed block still part of the chain, and removes the events indexed after it
+   *
+   * @returns A promise that resolves to the number of the block, or undefined if no indexed block is part of the chain
+   */
+  private static async findLastCanonicalBlock(): Promise<number | undefined> {
+    const provider = WalletHelper.getRPCProvider();
+    const blocks = await DatabaseManager.fetchIndexedBlocks();
+
+    for (const [index, block] of blocks.entries()) {
+      if ((await provider.getBlock(block.number))?.hash !== block.hash) {
+        continue;
+      }
+
+      if (index > 0) {
+        ChainIndexer.synced = false;
+
+        logger.warn(
+          `Chain reorganization detected, reindexing from block ${block.number + 1}`,
+        );
+
+        await DatabaseManager.revertChainIndexAfter(block.number);
+        await ChainIndexer.loadState();
+      }
+
+      return block.number;
+    }
+
+    if (blocks.length > 0) {
+      ChainIndexer.synced = false;
+
+      logger.warn(
+        `Chain reorganization deeper than ${blocks.length} indexed blocks, rebuilding the index`,
+      );
+
+      await DatabaseManager.resetChainIndex(ChainIndexer.dvnCoordinator);
+      await ChainIndexer.loadState();
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Initializes an empty index, from the configured start block or from a snapshot of the state at the current block
+   *
+   * @param head The number of the current block
+   * @returns A promise that resolves to the number of the last indexed block
+   */
+  private static async initializeIndex(head: number): Promise<number> {
+    const provider = WalletHelper.getRPCProvider();
+    const startBlock = ConfigHelper.getChainIndexerStartBlock();
+
+    if (startBlock != null) {
+      const block = await provider.getBlock(Math.max(startBlock - 1, 0));
+
+      await DatabaseManager.saveIndexedBlocks(
+        [],
+        [{ number: block!.number, hash: block!.hash! }],
+        0,
+      );
+
+      return block!.number;
+    }
+
+    const block = await provider.getBlock(head);
+    const indexedBlock = { number: block!.number, hash: block!.hash! };
+    const overrides = { blockTag: indexedBlock.number };
+    const dvnCoordinator = WalletHelper.getDemoDVNCoordinatorContract(
+      WalletHelper.getDVNOwnerWallet(),
+    );
+
+    const events: ChainEvent[] = [
+      ChainIndexer.buildSnapshotEvent(
+        indexedBlock,
+        ChainEvent.DVN_METADATA_URI_UPDATED,
+        null,
+        await dvnCoordinator.metadataURI(overrides),
+      ),
+    ];
+
+    for (const operatorId of await dvnCoordinator.getOperators(overrides)) {
+      const id = Number(operatorId);
+
+      events.push(
+        ChainIndexer.buildSnapshotEvent(
+          indexedBlock,
+          ChainEvent.OPERATOR_REGISTRATION_ACCEPTED,
+          id,
+          null,
+        ),
+        ChainIndexer.buildSnapshotEvent(
+          indexedBlock,
+          ChainEvent.OPERATOR_OWNER_UPDATED,
+          id,
+          await ChainIndexer.operatorRegistry.getOperatorOwner(id, overrides),
+        ),
+        ChainIndexer.buildSnapshotEvent(
+          indexedBlock,
+          ChainEvent.OPERATOR_REWARD_ADDRESS_UPDATED,
+          id,
+          await ChainIndexer.operatorRegistry.getOperatorRewardAddress(
+            id,
+            overrides,
+          ),
+        ),
+      );
+    }
+
+    await DatabaseManager.saveIndexedBlocks(events, [indexedBlock], 0);
+
+    events.forEach((event) => ChainIndexer.applyEvent(event));
+
+    logger.info(`Chain index initialized from block ${indexedBlock.number}`);
+
+    return indexedBlock.number;
+  }
+
+  /**
+   * Rebuilds the local state from the events stored in the database
+   *
+   * @returns A promise that resolves once the local state is rebuilt
+   */
+  private static async loadState(): Promise<void> {
+    const events = await DatabaseManager.fetchChainEvents();
+
+    ChainIndexer.operators = new Set<number>();
+    ChainIndexer.owners = new Map<number, string>();
+    ChainIndexer.rewardAddresses = new Map<number, string>();
+    ChainIndexer.dvnMetadataURI = null;
+
+    events.forEach((event) => ChainIndexer.applyEvent(event));
+  }
+
+  /**
+   * Updates the local state with an event
+   *
+   * @param event The indexed event
+   */
+  private static applyEvent(event: ChainEvent) {
+    switch (event.name) {
+      case ChainEvent.OPERATOR_REGISTRATION_ACCEPTED:
+        ChainIndexer.operators.add(event.operatorId!);
+        break;
+      case ChainEvent.DVN_METADATA_URI_UPDATED:
+        ChainIndexer.dvnMetadataURI = event.value;
+        break;
+      case ChainEvent.OPERATOR_REGISTERED:
+      case ChainEvent.OPERATOR_OWNER_UPDATED:
+        ChainIndexer.owners.set(event.operatorId!, event.value!);
+        break;
+      case ChainEvent.OPERATOR_REWARD_ADDRESS_UPDATED:
+        ChainIndexer.rewardAddresses.set(event.operatorId!, event.value!);
+        break;
+    }
+  }
+
+  /**
+   * Builds an event from a log of one of the indexed contracts
+   *
+   * @param log The log
+   * @returns The event, or undefined if the log is not an indexed event
+   */
+  private static buildEvent(log: Log): ChainEvent | undefined {
+    const isDVNCoordinator =
+      log.address.toLowerCase() === ChainIndexer.dvnCoordinator.toLowerCase();
+    const parsed = (
+      isDVNCoordinator
+        ? ChainIndexer.dvnCoordinatorInterface
+        : ChainIndexer.operatorRegistryInterface
+    ).parseLog(log);
+
+    if (
+      parsed == null ||
+      !(
+        isDVNCoordinator
+          ? ChainIndexer.DVN_EVENTS
+          : ChainIndexer.OPERATOR_REGISTRY_EVENTS
+      ).includes(parsed.name)
+    ) {
+      return undefined;
+    }
+
+    const event = new ChainEvent();
+
+    event.blockNumber = log.blockNumber;
+    event.blockHash = log.blockHash;
+    event.logIndex = log.index;
+    event.txHash = log.transactionHash;
+    event.contract = log.address;
+    event.name = parsed.name;
+
+    if (parsed.name === ChainEvent.DVN_METADATA_URI_UPDATED) {
+      event.operatorId = null;
+      event.value = parsed.args[0];
+    } else {
+      // the operator events set an address, except the registration request events
+      event.operatorId = Number(parsed.args[0]);
+      event.value = parsed.args.length > 1 ? parsed.args[1] : null;
+    }
+
+    return event;
+  }
+
+  /**
+   * Builds a snapshot event, recording the state read from a contract at an indexed block
+   *
+   * @param block The indexed block the state was read at
+   * @param name The name of the event setting the same state
+   * @param operatorId The ID of the operator, or null for the DVN state
+   * @param value The value read from the contract
+   * @returns The snapshot event
+   */
+  private static buildSnapshotEvent(
+    block: { number: number; hash: string },
+    name: string,
+    operatorId: number | null,
+    value: string | null,
+  ): ChainEvent {
+    const event = new ChainEvent();
+
+    event.blockNumber = block.number;
+    event.blockHash = block.hash;
+    event.logIndex = ChainEvent.SNAPSHOT_LOG_INDEX;
+    event.txHash = null;
+    event.contract =
+      operatorId == null || name === ChainEvent.OPERATOR_REGISTRATION_ACCEPTED
+        ? ChainIndexer.dvnCoordinator
+        : ChainIndexer.operatorRegistry.target.toString();
+    event.name = name;
+    event.operatorId = operatorId;
+    event.value = value;
+
+    return event;
+  }
+
+  /**
+   * Retrieves the topics of the indexed events, matched by the first topic of the logs
+   *
+   * @returns The topic hashes of the indexed events
+   */
+  private static getTopics(): string[] {
+    return [
+      ...ChainIndexer.DVN_EVENTS.map(
+        (name) =>
+          ChainIndexer.dvnCoordinatorInterface.getEvent(name)!.topicHash,
+      ),
+      ...ChainIndexer.OPERATOR_REGISTRY_EVENTS.map(
+        (name) =>
+          ChainIndexer.operatorRegistryInterface.getEvent(name)!.topicHash,
+      ),
+    ];
+  }
+}
@@ -1,78 +1,293 @@
-import * as fs from "fs";
-import sqlite3 from "sqlite3";
 import { CacheManager } from "./CacheManager";
 import { Logger } from "pino";
-import { Task } from "./model/Task";
+import { Task, type TaskOperatorSnapshot } from "./model/Task";
 import { TaskResponse } from "./model/TaskResponse";
+import { TaskEvaluator, TaskFinalization } from "./model/TaskFinalization";
+import { TaskCertificate } from "./model/TaskCertificate";
+import { TaskPublication } from "./model/TaskPublication";
+import { TaskStatusTransition } from "./model/TaskStatusTransition";
+import { ChainEvent } from "./model/ChainEvent";
+import { EjectionProposal } from "./model/EjectionProposal";
+import { OperatorLiveness } from "./model/OperatorLiveness";
+import { OperatorStats } from "./model/OperatorStats";
+import { RewardEpoch } from "./model/RewardEpoch";
+import { RewardPayout } from "./model/RewardPayout";
+import { SlashingEvidence } from "./model/SlashingEvidence";
+import { TaskTypeRegistry } from "./TaskTypeRegistry";
+import { QuorumPolicy } from "./model/QuorumPolicy";
+import { ConfigHelper } from "./ConfigHelper";
+import { type TaskStore } from "./store/TaskStore";
+import { SqliteTaskStore } from "./store/SqliteTaskStore";
+import { PostgresTaskStore } from "./store/PostgresTaskStore";
 
 /**
- * The `DatabaseManager` class provides methods to manage and interact with the SQLite3 database
+ * The `DatabaseManager` class provides methods to manage and interact with the database of the Task Aggregator
  *
  * This class includes methods to reset the database, add tasks, fetch tasks, register responses, and handle consensus scenarios
- * It uses SQLite3 for database operations and includes methods for creating tables, inserting data, and querying data
+ * The operations are delegated to the store of the storage backend selected by the 'DATABASE_BACKEND' configuration:
+ * a SQLite database file in the cache directory, or a PostgreSQL database shared between Task Aggregator replicas
  *
- * The class also includes utility methods for generating random salesman points and checking if an operator has sent a response to a task
+ * The class also includes a utility method for checking if an operator has sent a response to a task
  */
 export class DatabaseManager {
+  // Store of the configured storage backend, created on first use
+  private static store: TaskStore | undefined;
+
   /**
    * Adds a dummy task to the database
    *
-   * This method generates a set of random salesman points and adds them as a task
+   * This method generates a random input for the given task type and adds it as a task
    *
+   * @param type The type of the task to generate
+   * @param snapshot The operators registered to the DVN, who can answer the task
    * @returns A promise that resolves to the added Task
    */
-  static addDummyTask(): Promise<Task> {
-    const input = DatabaseManager.generateRandomSalesmanPoints(10);
+  static addDummyTask(
+    type: string,
+    snapshot: TaskOperatorSnapshot,
+  ): Promise<Task> {
+    const input = TaskTypeRegistry.get(type).generateInput();
+
+    return DatabaseManager.addTask(JSON.stringify(input), type, snapshot);
+  }
 
-    return DatabaseManager.addTask(JSON.stringify(input));
+  /**
+   * Stores a proposal to remove an inactive operator from the DVN
+   *
+   * @param liveness The liveness of the inactive operator
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves to the stored proposal
+   */
+  static addEjectionProposal(
+    liveness: OperatorLiveness,
+    now: number,
+  ): Promise<EjectionProposal> {
+    return DatabaseManager.getStore().addEjectionProposal(liveness, now);
   }
 
   /**
-   * Adds a new task to the database
+   * Adds a new task to the database, along with the snapshot of the operators who can answer it
    *
    * @param input The input string for the task
-   * @returns A promise that resolves to the created Task
+   * @param type The type of the task
+   * @param snapshot The operators registered to the DVN when the task is created: only these operators
+   * can answer the task, and its quorum is computed against their number, or their stake
+   * @param options Optional settings of the task:
+   * - quorumPolicy: the quorum policy applied to the responses, defaults to the configured policy
+   * - expiresAt: the deadline of the task in milliseconds, defaults to the configured time to live from now
+   * - idempotencyKey: a key identifying the creation request, which cannot be used by two tasks
+   * @returns A promise that resolves to the created Task, or rejects with an error message if the task cannot be inserted
    * @throws Will throw an error if the input is null or undefined
-   * @throws Will throw an error if there is an issue inserting the task into the database
+   * @throws Will throw an error if the task type is unknown
+   * @throws Will throw an error if the quorum policy is stake-weighted and the snapshot has no stakes
    */
-  static addTask(input: string): Promise<Task> {
-    return new Promise<Task>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
+  static addTask(
+    input: string,
+    type: string,
+    snapshot: TaskOperatorSnapshot,
+    options: {
+      quorumPolicy?: QuorumPolicy;
+      expiresAt?: number;
+      idempotencyKey?: string;
+    } = {},
+  ): Promise<Task> {
+    return DatabaseManager.getStore().addTask(input, type, snapshot, options);
+  }
 
-      if (input === null || input === undefined) {
-        throw new Error("Input cannot be null or undefined");
-      }
+  /**
+   * Cancels a task accepting responses
+   *
+   * The responses already received are kept, and no outcome is recorded for the operators
+   *
+   * @param task The task to cancel
+   * @returns A promise that resolves to true if the task was cancelled, false if it does not accept responses anymore
+   */
+  static cancelTask(task: Task): Promise<boolean> {
+    return DatabaseManager.getStore().cancelTask(task);
+  }
 
-      const createdAt = Math.floor(Date.now());
+  /**
+   * Counts the tasks an operator could answer, created within a period, that it did not answer
+   *
+   * @param operatorId The ID of the operator
+   * @param from The start of the period in milliseconds, excluded
+   * @param to The end of the period in milliseconds, included
+   * @returns A promise that resolves to the number of unanswered tasks
+   */
+  static countUnansweredOperatorTasks(
+    operatorId: number,
+    from: number,
+    to: number,
+  ): Promise<number> {
+    return DatabaseManager.getStore().countUnansweredOperatorTasks(
+      operatorId,
+      from,
+      to,
+    );
+  }
 
-      const task = new Task();
-      task.createdAt = createdAt;
-      task.input = input;
+  /**
+   * Fetches the indexed chain events, in the order they were emitted
+   *
+   * @returns A promise that resolves to the indexed chain events
+   */
+  static fetchChainEvents(): Promise<ChainEvent[]> {
+    return DatabaseManager.getStore().fetchChainEvents();
+  }
 
-      db.serialize(() => {
-        const stmt = db.prepare(
-          "INSERT INTO task (status, createdAt, input) VALUES (?, ?, ?)",
-        );
+  /**
+   * Fetches the proposals to remove inactive operators from the DVN
+   *
+   * @param status The status of the proposals to return, or undefined for all the proposals
+   * @returns A promise that resolves to the proposals, from the most recent
+   */
+  static fetchEjectionProposals(status?: string): Promise<EjectionProposal[]> {
+    return DatabaseManager.getStore().fetchEjectionProposals(status);
+  }
+
+  /**
+   * Fetches the tasks still waiting for responses whose deadline has passed
+   *
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves to the expired tasks, oldest deadline first
+   */
+  static fetchExpiredTasks(now: number = Date.now()): Promise<Task[]> {
+    return DatabaseManager.getStore().fetchExpiredTasks(now);
+  }
+
+  /**
+   * Fetches the hashes of the last indexed blocks, used to detect chain reorganizations
+   *
+   * @returns A promise that resolves to the indexed blocks, from the most recent one
+   */
+  static fetchIndexedBlocks(): Promise<{ number: number; hash: string }[]> {
+    return DatabaseManager.getStore().fetchIndexedBlocks();
+  }
+
+  /**
+   * Fetches the liveness of the tracked operators
+   *
+   * @returns A promise that resolves to the liveness of the operators, ordered by operator ID
+   */
+  static fetchOperatorLiveness(): Promise<OperatorLiveness[]> {
+    return DatabaseManager.getStore().fetchOperatorLiveness();
+  }
+
+  /**
+   * Fetches the stats of the operators with the highest share of agreeing responses
+   *
+   * @param limit The maximum number of operators to return
+   * @returns A promise that resolves to the stats of the operators, ordered by agreement then by number of assigned tasks
+   */
+  static fetchOperatorLeaderboard(limit: number): Promise<OperatorStats[]> {
+    return DatabaseManager.getStore().fetchOperatorLeaderboard(limit);
+  }
+
+  /**
+   * Fetches the completed tasks whose result must be submitted on-chain
+   *
+   * These are the completed tasks never submitted, and the ones whose last submission attempt failed
+   * and can be submitted again
+   *
+   * @param now The current datetime in milliseconds
+   * @param limit The maximum number of tasks to return
+   * @returns A promise that resolves to the tasks, in creation order
+   */
+  static fetchPublishableTasks(now: number, limit: number): Promise<Task[]> {
+    return DatabaseManager.getStore().fetchPublishableTasks(now, limit);
+  }
+
+  /**
+   * Fetches the ended reward epochs with credited rewards which were not closed yet
+   *
+   * @param currentEpoch The number of the current epoch
+   * @returns A promise that resolves to the numbers of the epochs, from the oldest
+   */
+  static fetchRewardEpochsToClose(currentEpoch: number): Promise<number[]> {
+    return DatabaseManager.getStore().fetchRewardEpochsToClose(currentEpoch);
+  }
+
+  /**
+   * Fetches the closed reward epochs
+   *
+   * @param limit The maximum number of epochs to return
+   * @returns A promise that resolves to the payout reports of the epochs, from the most recent
+   */
+  static fetchRewardEpochs(limit: number): Promise<RewardEpoch[]> {
+    return DatabaseManager.getStore().fetchRewardEpochs(limit);
+  }
 
-        stmt.run(Task.STATUS_READY, task.createdAt, task.input, function (err) {
-          if (err) {
-            throw new Error(`Error inserting task: ${err}`);
-          }
+  /**
+   * Fetches the payouts of a closed reward epoch
+   *
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the payouts of the epoch, ordered by operator ID
+   */
+  static fetchRewardPayouts(epoch: number): Promise<RewardPayout[]> {
+    return DatabaseManager.getStore().fetchRewardPayouts(epoch);
+  }
+
+  /**
+   * Fetches the slashing evidence of an operator
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the slashing evidence of the operator, from the most recent
+   */
+  static fetchSlashingEvidence(
+    operatorId: number,
+  ): Promise<SlashingEvidence[]> {
+    return DatabaseManager.getStore().fetchSlashingEvidence(operatorId);
+  }
 
-          task.id = this.lastID;
-        });
+  /**
+   * Fetches the publications of task results submitted on-chain and waiting for confirmations
+   *
+   * @returns A promise that resolves to the submitted publications
+   */
+  static fetchSubmittedTaskPublications(): Promise<TaskPublication[]> {
+    return DatabaseManager.getStore().fetchSubmittedTaskPublications();
+  }
 
-        stmt.finalize(() => {
-          resolve(task);
-        });
-      });
+  /**
+   * Fetches a page of tasks matching the given filters, ordered by creation datetime
+   *
+   * Pagination is based on a cursor: the creation datetime and ID of the last task of the previous page
+   *
+   * @param filters The filters to apply:
+   * - status: only return tasks with this status
+   * - createdFrom: only return tasks created at or after this datetime in milliseconds
+   * - createdTo: only return tasks created before this datetime in milliseconds
+   * - operatorId: only return tasks the operator sent a response to
+   * - after: only return tasks following this cursor
+   * - limit: the maximum number of tasks to return
+   * @returns A promise that resolves to the matching tasks
+   */
+  static fetchTasks(filters: {
+    status?: string;
+    createdFrom?: number;
+    createdTo?: number;
+    operatorId?: number;
+    after?: { createdAt: number; id: number };
+    limit: number;
+  }): Promise<Task[]> {
+    return DatabaseManager.getStore().fetchTasks(filters);
+  }
 
-      db.close();
-    });
+  /**
+   * Fetches the tasks waiting for responses created after a given task
+   *
+   * @param taskId The ID of the last known task
+   * @param limit The maximum number of tasks to return
+   * @returns A promise that resolves to the tasks, ordered by ID
+   */
+  static fetchReadyTasksAfter(taskId: number, limit: number): Promise<Task[]> {
+    return DatabaseManager.getStore().fetchReadyTasksAfter(taskId, limit);
   }
 
   /**
-   * Fetches the next unresolved task for a given operator
+   * Fetches the next unresolved task for a given operator, among the tasks the operator can answer
+   *
+   * Tasks whose deadline has passed are not returned, even if they have not been finalized yet
    *
    * @param operatorId The ID of the operator
    * @returns A promise that resolves to the next unresolved task or undefined if no task is found
@@ -80,80 +295,100 @@ export class DatabaseManager {
   static fetchNextUnresolvedTask(
     operatorId: number,
   ): Promise<Task | undefined> {
-    return new Promise<Task | undefined>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
-
-      db.serialize(() => {
-        db.get(
-          `
-          SELECT t.* 
-          FROM task t
-          LEFT JOIN task_response tr ON t.id = tr.task_id AND tr.operator_id = ?
-          WHERE t.status == ? AND tr.id IS NULL
-          ORDER BY t.createdAt ASC 
-          LIMIT 1
-        `,
-          operatorId,
-          Task.STATUS_READY,
-          (err, row) => {
-            if (err) {
-              throw new Error(`Error fetching task: ${err}`);
-            }
-
-            if (row == null) {
-              resolve(undefined);
-              return;
-            }
-
-            const task = new Task();
-            task.id = row.id;
-            task.createdAt = row.createdAt;
-            task.input = row.input;
-
-            resolve(task);
-          },
-        );
-      });
+    return DatabaseManager.getStore().fetchNextUnresolvedTask(operatorId);
+  }
 
-      db.close();
-    });
+  /**
+   * Retrieves the address of the DVNCoordinator whose events are indexed
+   *
+   * @returns A promise that resolves to the address, or undefined if nothing was indexed yet
+   */
+  static getChainIndexDVNCoordinator(): Promise<string | undefined> {
+    return DatabaseManager.getStore().getChainIndexDVNCoordinator();
   }
 
   /**
-   * Generates an array of random points representing salesmen locations
-   * Each point is represented as a tuple [x, y] where x and y are random integers between 0 and 99
+   * Retrieves the IDs of the operators marked as inactive by the liveness monitor
    *
-   * @param length The number of points to generate
-   * @returns An array of points, where each point is a tuple [x, y]
+   * @returns A promise that resolves to the IDs of the inactive operators
    */
-  private static generateRandomSalesmanPoints(length: number): number[][] {
-    const points: number[][] = [];
+  static getInactiveOperators(): Promise<number[]> {
+    return DatabaseManager.getStore().getInactiveOperators();
+  }
 
-    for (let i = 0; i < length; i++) {
-      const x = Math.floor(Math.random() * 100);
-      const y = Math.floor(Math.random() * 100);
-      points.push([x, y]);
-    }
+  /**
+   * Retrieves the ID of the last created task
+   *
+   * @returns A promise that resolves to the ID of the last task, or 0 if there are no tasks
+   */
+  static getLastTaskId(): Promise<number> {
+    return DatabaseManager.getStore().getLastTaskId();
+  }
 
-    return points;
+  /**
+   * Retrieves the stats of an operator, aggregated from the outcomes of the finalized tasks it could answer
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the stats of the operator
+   */
+  static getOperatorStats(operatorId: number): Promise<OperatorStats> {
+    return DatabaseManager.getStore().getOperatorStats(operatorId);
   }
 
   /**
-   * Retrieves a new instance of the SQLite3 database
+   * Retrieves the rewards credited during a reward epoch, summed by operator
    *
-   * @returns A new instance of the SQLite3 database
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the rewards of each operator, indexed by operator ID
    */
-  private static getDatabase(): sqlite3.Database {
-    return new sqlite3.Database(DatabaseManager.getDatabasePath());
+  static getRewardCredits(epoch: number): Promise<Map<number, bigint>> {
+    return DatabaseManager.getStore().getRewardCredits(epoch);
   }
 
   /**
-   * Retrieves the path to the database file
+   * Retrieves a closed reward epoch
    *
-   * @returns The full path to the database file as a string
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the payout report of the epoch, or undefined if the epoch is not closed
    */
-  private static getDatabasePath(): string {
-    return CacheManager.getCacheDir() + "/db.sqlite";
+  static getRewardEpoch(epoch: number): Promise<RewardEpoch | undefined> {
+    return DatabaseManager.getStore().getRewardEpoch(epoch);
+  }
+
+  /**
+   * Retrieves the store of the configured storage backend, created on first use
+   *
+   * @returns The store
+   * @throws Will throw an error if the storage backend is unknown, or if the postgres backend has no connection string
+   */
+  private static getStore(): TaskStore {
+    if (DatabaseManager.store != null) {
+      return DatabaseManager.store;
+    }
+
+    const backend = ConfigHelper.getDatabaseBackend();
+
+    switch (backend) {
+      case "sqlite":
+        DatabaseManager.store = new SqliteTaskStore(
+          CacheManager.getCacheDir() + "/db.sqlite",
+        );
+        break;
+      case "postgres": {
+        const connectionString = ConfigHelper.getPostgresUrl();
+
+        if (connectionString == null) {
+          throw new Error("POSTGRES_URL is required by the postgres backend");
+        }
+
+        DatabaseManager.store = PostgresTaskStore.fromUrl(connectionString);
+        break;
+      }
+      default:
+        throw new Error(`Unknown database backend "${backend}"`);
+    }
+
+    return DatabaseManager.store;
   }
 
   /**
@@ -163,136 +398,146 @@ export class DatabaseManager {
    * @returns A promise that resolves to the task if found, or rejects with an error message if not found or if there is an error fetching the task
    */
   static getTask(taskId: number): Promise<Task> {
-    return new Promise<Task>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
+    return DatabaseManager.getStore().getTask(taskId);
+  }
 
-      db.serialize(() => {
-        db.get("SELECT * FROM task WHERE id = ?", taskId, (err, row) => {
-          if (err) {
-            throw new Error(`Error fetching task: ${err}`);
-          }
+  /**
+   * Retrieves the certificate of a completed task
+   *
+   * @param task The task for which to fetch the certificate
+   * @returns A promise that resolves to the certificate of the task, or undefined if the task is not completed
+   */
+  static getTaskCertificate(task: Task): Promise<TaskCertificate | undefined> {
+    return DatabaseManager.getStore().getTaskCertificate(task);
+  }
 
-          if (row == null) {
-            return reject(`Task with ID ${taskId} not found`);
-          }
+  /**
+   * Retrieves the IDs of the operators who can answer a task
+   *
+   * @param task The task
+   * @returns A promise that resolves to the IDs of the operators registered to the DVN when the task was created
+   */
+  static getTaskOperators(task: Task): Promise<number[]> {
+    return DatabaseManager.getStore().getTaskOperators(task);
+  }
 
-          const task = new Task();
-          task.id = row.id;
-          task.createdAt = row.createdAt;
-          task.input = row.input;
+  /**
+   * Retrieves the stakes of the active operators who can answer a task, as read at its snapshot block
+   *
+   * @param task The task
+   * @returns A promise that resolves to the stake of each operator, indexed by operator ID, inactive operators and operators without stake being omitted
+   */
+  static getTaskOperatorStakes(task: Task): Promise<Map<number, bigint>> {
+    return DatabaseManager.getStore().getTaskOperatorStakes(task);
+  }
 
-          resolve(task);
-        });
-      });
+  /**
+   * Retrieves the on-chain publication of the result of a task
+   *
+   * @param task The task for which to fetch the publication
+   * @returns A promise that resolves to the publication, or undefined if the result was never submitted
+   */
+  static getTaskPublication(task: Task): Promise<TaskPublication | undefined> {
+    return DatabaseManager.getStore().getTaskPublication(task);
+  }
 
-      db.close();
-    });
+  /**
+   * Retrieves a task from the database by the idempotency key used to create it
+   *
+   * @param idempotencyKey The idempotency key of the task
+   * @returns A promise that resolves to the task if found, or undefined otherwise
+   */
+  static getTaskByIdempotencyKey(
+    idempotencyKey: string,
+  ): Promise<Task | undefined> {
+    return DatabaseManager.getStore().getTaskByIdempotencyKey(idempotencyKey);
   }
 
   /**
    * Retrieves the responses for a given task from the database
    *
    * @param task The task for which to fetch responses
-   * @returns A promise that resolves to an array of TaskResponse objects
-   * @throws An error if there is an issue fetching the task responses from the database
+   * @returns A promise that resolves to an array of TaskResponse objects, or rejects if there is an issue fetching them
    */
   static getTaskResponses(task: Task): Promise<TaskResponse[]> {
-    return new Promise<TaskResponse[]>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
-
-      db.serialize(() => {
-        db.all(
-          "SELECT * FROM task_response WHERE task_id = ?",
-          task.id,
-          (err, rows) => {
-            if (err) {
-              throw new Error(`Error fetching task responses: ${err}`);
-            }
-
-            if (rows == null) {
-              reject();
-              return;
-            }
-
-            const taskResponses: TaskResponse[] = [];
-
-            rows.forEach((row) => {
-              taskResponses.push(TaskResponse.buildFromDatabase(row));
-            });
-
-            resolve(taskResponses);
-          },
-        );
-      });
-
-      db.close();
-    });
+    return DatabaseManager.getStore().getTaskResponses(task);
   }
 
   /**
    * Retrieves the count of responses for a given task from the database
    *
    * @param task The task for which to count responses
-   * @returns A promise that resolves to the number of responses for the specified task
-   * @throws An error if there is an issue fetching the task responses count
+   * @returns A promise that resolves to the number of responses for the specified task, or rejects if there is an issue counting them
    */
   static getTaskResponsesCount(task: Task): Promise<number> {
-    return new Promise<number>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
-
-      db.serialize(() => {
-        db.get(
-          "SELECT COUNT(*) as count FROM task_response WHERE task_id = ?",
-          task.id,
-          (err, row) => {
-            if (err) {
-              throw new Error(`Error fetching task responses count: ${err}`);
-            }
-
-            if (row == null) {
-              reject();
-              return;
-            }
-
-            resolve(row.count);
-          },
-        );
-      });
+    return DatabaseManager.getStore().getTaskResponsesCount(task);
+  }
 
-      db.close();
-    });
+  /**
+   * Retrieves the status history of a task
+   *
+   * @param task The task
+   * @returns A promise that resolves to the transitions of the task, oldest first
+   */
+  static getTaskStatusHistory(task: Task): Promise<TaskStatusTransition[]> {
+    return DatabaseManager.getStore().getTaskStatusHistory(task);
   }
 
   /**
    * Handles the scenario where consensus is not reached for a given task
    *
-   * This method updates the status of the task in the database to indicate that consensus was not reached
+   * This method updates the status of the task in the database to indicate that consensus was not reached,
+   * and records the outcome of the task for each operator who could answer it
    *
    * @param task The task for which consensus was not reached
-   * @returns A promise that resolves to the updated task
-   * @throws An error if there is an issue updating the task status in the database
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore or could not be updated
    */
   static handleConsensusNotReached(task: Task): Promise<Task> {
-    return new Promise<Task>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
-
-      db.serialize(() => {
-        db.run(
-          "UPDATE task SET status = ? WHERE id = ?",
-          Task.STATUS_CONSENSUS_NOT_REACHED,
-          task.id,
-          (err) => {
-            if (err) {
-              throw new Error(`Error updating task status: ${err}`);
-            }
-
-            resolve(task);
-          },
-        );
-      });
+    return DatabaseManager.getStore().handleConsensusNotReached(task);
+  }
 
-      db.close();
-    });
+  /**
+   * Handles the scenario where a task reached its deadline without reaching the quorum
+   *
+   * This method updates the status of the task in the database to indicate that the task expired,
+   * and records the outcome of the task for each operator who could answer it
+   *
+   * @param task The expired task
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore
+   */
+  static handleTaskExpired(task: Task): Promise<Task> {
+    return DatabaseManager.getStore().handleTaskExpired(task);
+  }
+
+  /**
+   * Finalizes a task past its deadline, evaluating the responses received so far
+   *
+   * The task is locked while its responses are evaluated, and marked as expired if the evaluation
+   * does not finalize it, so that a response registered meanwhile cannot finalize it twice
+   *
+   * @param task The expired task
+   * @param evaluate The evaluation of the responses of the task against its quorum policy
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task was already finalized
+   */
+  static finalizeExpiredTask(
+    task: Task,
+    evaluate: TaskEvaluator,
+  ): Promise<TaskFinalization | undefined> {
+    return DatabaseManager.getStore().finalizeExpiredTask(task, evaluate);
+  }
+
+  /**
+   * Checks if an operator is part of the operators who can answer a task
+   *
+   * @param task The task
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to true if the operator was registered to the DVN when the task was created
+   */
+  static operatorCanAnswerTask(
+    task: Task,
+    operatorId: number,
+  ): Promise<boolean> {
+    return DatabaseManager.getStore().operatorCanAnswerTask(task, operatorId);
   }
 
   /**
@@ -306,186 +551,233 @@ export class DatabaseManager {
     task: Task,
     operatorId: number,
   ): Promise<boolean> {
-    return new Promise<boolean>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
-
-      db.serialize(() => {
-        db.get(
-          "SELECT * FROM task_response WHERE task_id = ? AND operator_id = ?",
-          task.id,
-          operatorId,
-          (err, row) => {
-            if (err) {
-              throw new Error(`Error fetching task response: ${err}`);
-            }
-
-            if (row == null) {
-              resolve(false);
-              return;
-            }
-
-            resolve(true);
-          },
-        );
-      });
+    return DatabaseManager.getStore().operatorSentTaskResponse(
+      task,
+      operatorId,
+    );
+  }
 
-      db.close();
-    });
+  /**
+   * Records that an operator polled for tasks
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the poll is recorded
+   */
+  static recordOperatorPoll(operatorId: number): Promise<void> {
+    return DatabaseManager.getStore().recordOperatorPoll(operatorId);
   }
 
   /**
-   * Registers the final response for a given task in the database
+   * Records that an operator answered a task
    *
-   * @param task The task object for which the response is being registered
-   * @param response The response value to be registered
-   * @returns A promise that resolves to the updated task object
-   * @throws Will throw an error if there is an issue updating the task response in the database
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the response is recorded
+   */
+  static recordOperatorResponse(operatorId: number): Promise<void> {
+    return DatabaseManager.getStore().recordOperatorResponse(operatorId);
+  }
+
+  /**
+   * Registers the final response of a task, along with its certificate, and marks the task as completed
+   *
+   * The outcome of the task is recorded for each operator who could answer it, the agreeing operators are
+   * credited with the reward of the task type in the current reward epoch, and the slashing evidence of
+   * the disagreeing operators is stored
+   *
+   * @param task The task reaching consensus
+   * @param response The final response of the task
+   * @param certificate The certificate attesting the final response
+   * @param evidence The slashing evidence of the signed responses disagreeing with the final response
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore, or if the task or its certificate could not be stored
    */
   static registerFinalTaskResponse(
     task: Task,
-    response: number,
+    response: string,
+    certificate: TaskCertificate,
+    evidence: SlashingEvidence[] = [],
   ): Promise<Task> {
-    return new Promise<Task>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
-
-      db.serialize(() => {
-        db.run(
-          "UPDATE task SET response = ?, status = ? WHERE id = ?",
-          response,
-          Task.STATUS_COMPLETED,
-          task.id,
-          (err) => {
-            if (err) {
-              throw new Error(`Error updating task response: ${err}`);
-            }
-
-            task.response = response;
-            resolve(task);
-          },
-        );
-      });
+    return DatabaseManager.getStore().registerFinalTaskResponse(
+      task,
+      response,
+      certificate,
+      evidence,
+    );
+  }
 
-      db.close();
-    });
+  /**
+   * Records that an operator sent its response once a task stopped accepting responses
+   *
+   * A late response replaces the missed outcome of a finalized task, or is recorded ahead of the finalization
+   * of a task past its deadline
+   *
+   * @param task The task the response was sent to
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the late response is recorded
+   */
+  static registerLateTaskResponse(
+    task: Task,
+    operatorId: number,
+  ): Promise<void> {
+    return DatabaseManager.getStore().registerLateTaskResponse(
+      task,
+      operatorId,
+    );
   }
 
   /**
    * Registers a response from an operator for a given task
    *
+   * The response is inserted, the responses of the task evaluated and the task finalized in a single transaction,
+   * while the task is locked: the responses sent together are evaluated one after the other, so that the task is
+   * finalized once, and no response is accepted once the task is finalized or past its deadline
+   *
    * @param task The task for which the response is being registered
    * @param operatorId The ID of the operator sending the response
    * @param response The response content from the operator
    * @param signature The signature of the operator for the response
-   * @returns A promise that resolves when the response is successfully registered or rejects with an error message
+   * @param signatureVersion The signing scheme of the signature
+   * @param evaluate The evaluation of the responses of the task against its quorum policy, once the response is inserted
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task keeps accepting responses,
+   * or rejects with TaskResponse.ERROR_* if the response is not accepted, or with an error message
    */
   static registerOperatorTaskResponse(
     task: Task,
     operatorId: number,
     response: string,
     signature: string,
+    signatureVersion: number,
+    evaluate?: TaskEvaluator,
+  ): Promise<TaskFinalization | undefined> {
+    return DatabaseManager.getStore().registerOperatorTaskResponse(
+      task,
+      operatorId,
+      response,
+      signature,
+      signatureVersion,
+      evaluate,
+    );
+  }
+
+  /**
+   * Closes a proposal to remove an operator from the DVN, if it is still proposed
+   *
+   * @param id The ID of the proposal
+   * @param status The closing status, see EjectionProposal.STATUS_*
+   * @param resolution How the proposal was closed
+   * @returns A promise that resolves to true if the proposal was closed, false if it was not found or already closed
+   */
+  static resolveEjectionProposal(
+    id: number,
+    status: string,
+    resolution: string,
+  ): Promise<boolean> {
+    return DatabaseManager.getStore().resolveEjectionProposal(
+      id,
+      status,
+      resolution,
+    );
+  }
+
+  /**
+   * Stores the chain events of a range of indexed blocks, along with the hashes of these blocks
+   *
+   * @param events The events emitted in the range of blocks
+   * @param blocks The number and hash of the blocks to remember, at least the last block of the range
+   * @param pruneBefore The number of the oldest block whose hash is kept
+   * @returns A promise that resolves when the events and blocks are stored, or rejects if nothing was stored
+   */
+  static saveIndexedBlocks(
+    events: ChainEvent[],
+    blocks: { number: number; hash: string }[],
+    pruneBefore: number,
   ): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const db = DatabaseManager.getDatabase();
+    return DatabaseManager.getStore().saveIndexedBlocks(
+      events,
+      blocks,
+      pruneBefore,
+    );
+  }
 
-      DatabaseManager.operatorSentTaskResponse(task, operatorId).then(
-        (operatorSentResponse: boolean) => {
-          if (operatorSentResponse) {
-            return reject("Operator already sent response");
-          }
+  /**
+   * Stores the liveness status of operators, tracking the operators not tracked yet
+   *
+   * The last poll and response of the tracked operators are left untouched, as they are recorded concurrently
+   *
+   * @param livenesses The liveness of the operators
+   * @returns A promise that resolves when all the statuses are stored
+   */
+  static saveOperatorLivenessStatus(
+    livenesses: OperatorLiveness[],
+  ): Promise<void> {
+    return DatabaseManager.getStore().saveOperatorLivenessStatus(livenesses);
+  }
 
-          db.serialize(() => {
-            const stmt = db.prepare(
-              "INSERT INTO task_response (task_id, operator_id, response, createdAt, signature) VALUES (?, ?, ?, ?, ?)",
-            );
+  /**
+   * Stores the payout report of a closed reward epoch, along with its payouts
+   *
+   * @param epoch The payout report of the epoch
+   * @param payouts The payouts of the epoch
+   * @returns A promise that resolves when the epoch is stored, or rejects if nothing was stored
+   */
+  static saveRewardEpoch(
+    epoch: RewardEpoch,
+    payouts: RewardPayout[],
+  ): Promise<void> {
+    return DatabaseManager.getStore().saveRewardEpoch(epoch, payouts);
+  }
 
-            stmt.run(
-              task.id,
-              operatorId,
-              response,
-              Math.floor(Date.now()),
-              signature,
-              (err) => {
-                if (err) {
-                  throw new Error(`Error inserting task response: ${err}`);
-                }
+  /**
+   * Stores the on-chain publications of task results, creating or updating them
+   *
+   * @param publications The publications to store
+   * @returns A promise that resolves when all the publications are stored
+   */
+  static saveTaskPublications(publications: TaskPublication[]): Promise<void> {
+    return DatabaseManager.getStore().saveTaskPublications(publications);
+  }
 
-                resolve();
-              },
-            );
+  /**
+   * Clears the indexed chain events and blocks, and starts indexing the events of the given DVNCoordinator
+   *
+   * @param dvnCoordinator The address of the DVNCoordinator to index
+   * @returns A promise that resolves when the index is cleared
+   */
+  static resetChainIndex(dvnCoordinator: string): Promise<void> {
+    return DatabaseManager.getStore().resetChainIndex(dvnCoordinator);
+  }
 
-            stmt.finalize();
-          });
+  /**
+   * Removes the indexed chain events and blocks following a block, after a chain reorganization
+   *
+   * @param blockNumber The number of the last block still part of the chain
+   * @returns A promise that resolves when the events and blocks are removed
+   */
+  static revertChainIndexAfter(blockNumber: number): Promise<void> {
+    return DatabaseManager.getStore().revertChainIndexAfter(blockNumber);
+  }
 
-          db.close();
-        },
-      );
-    });
+  /**
+   * Applies the pending migrations of the database schema, connecting to the database if not connected yet
+   *
+   * @returns A promise that resolves when the schema is up to date
+   */
+  static migrate(): Promise<void> {
+    return DatabaseManager.getStore().migrate();
   }
 
   /**
-   * Resets the database by deleting the existing database file and creating a new one with the necessary tables
+   * Resets the database by deleting all its data and tables, and creating the tables again
    *
    * @param logger The logger instance used to log information during the reset process
    * @returns A promise that resolves when the database has been successfully reset or rejects if an error occurs
    */
-  static resetDatabase(logger: Logger): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      logger.info("Start Resetting Database");
+  static async resetDatabase(logger: Logger): Promise<void> {
+    logger.info("Start Resetting Database");
 
-      const dbPath = DatabaseManager.getDatabasePath();
+    // Delete the database, eg. the cached database file
+    logger.info("Deleting database...");
+    await DatabaseManager.getStore().reset();
 
-      // Delete the database file if it exists
-      if (fs.existsSync(dbPath)) {
-        logger.info("Deleting cached database...");
-        fs.unlinkSync(dbPath);
-      }
-
-      // Create the database file
-      const db = DatabaseManager.getDatabase();
-
-      // Create Tables
-      logger.info("Creating tables...");
-
-      db.serialize(() => {
-        db.exec(
-          `
-          BEGIN TRANSACTION;
-          
-          PRAGMA foreign_keys = ON;
-
-          CREATE TABLE IF NOT EXISTS task (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            status TEXT NOT NULL DEFAULT '${Task.STATUS_READY}',
-            createdAt INTEGER NOT NULL,
-            input TEXT NOT NULL,
-            response INTEGER NULL
-          );
-
-          
-          CREATE TABLE task_response (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            task_id INTEGER NOT NULL,
-            operator_id INTEGER NOT NULL,
-            response INTEGER NOT NULL,
-            signature TEXT NOT NULL DEFAULT '',
-            createdAt INTEGER NOT NULL,
-            FOREIGN KEY (task_id) REFERENCES task(id),
-            UNIQUE (task_id, operator_id)
-          );
-
-        COMMIT;
-        `,
-          (err) => {
-            if (err) {
-              db.exec("ROLLBACK"); // Rollback if there’s an error
-              return reject(err);
-            }
-
-            db.close();
-            resolve();
-          },
-        );
-      });
-    });
+    logger.info("Database reset");
   }
 }
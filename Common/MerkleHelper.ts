@@ -0,0 +1,127 @@
+import { AbiCoder, ethers } from "ethers";
+import { RewardPayout } from "./model/RewardPayout";
+
+/**
+ * A helper class to build the Merkle tree of the payouts of a reward epoch, and the proofs of its leaves
+ *
+ * The tree follows the conventions of the OpenZeppelin MerkleProof library, so the proofs can be verified on-chain:
+ * - a leaf is the double keccak256 hash of the ABI encoded (uint256 epoch, uint256 operatorId, address rewardAddress, uint256 amount)
+ * - the leaves are sorted, and each pair of nodes is hashed in ascending order
+ * - the last node of a level without sibling is promoted to the next level
+ */
+export class MerkleHelper {
+  /**
+   * Computes the leaf of a payout
+   *
+   * @param payout The payout
+   * @returns The hash of the leaf
+   */
+  static hashPayout(payout: RewardPayout): string {
+    return ethers.keccak256(
+      ethers.keccak256(
+        AbiCoder.defaultAbiCoder().encode(
+          ["uint256", "uint256", "address", "uint256"],
+          [
+            payout.epoch,
+            payout.operatorId,
+            payout.rewardAddress,
+            payout.amount,
+          ],
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Computes the Merkle root of a list of leaves
+   *
+   * @param leaves The hashes of the leaves, in any order
+   * @returns The Merkle root, or the zero hash if there are no leaves
+   */
+  static getRoot(leaves: string[]): string {
+    const layers = MerkleHelper.buildLayers(leaves);
+
+    return layers[layers.length - 1][0] ?? ethers.ZeroHash;
+  }
+
+  /**
+   * Computes the Merkle proof of a leaf
+   *
+   * @param leaves The hashes of all the leaves, in any order
+   * @param leaf The hash of the leaf to prove
+   * @returns The hashes of the siblings from the leaf to the root
+   * @throws Will throw an error if the leaf is not part of the leaves
+   */
+  static getProof(leaves: string[], leaf: string): string[] {
+    const layers = MerkleHelper.buildLayers(leaves);
+    let index = layers[0].indexOf(leaf);
+
+    if (index === -1) {
+      throw new Error(`Leaf ${leaf} is not part of the tree`);
+    }
+
+    const proof: string[] = [];
+
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  /**
+   * Verifies a Merkle proof the same way the OpenZeppelin MerkleProof library does
+   *
+   * @param leaf The hash of the leaf
+   * @param proof The hashes of the siblings from the leaf to the root
+   * @param root The Merkle root
+   * @returns True if the proof links the leaf to the root
+   */
+  static verifyProof(leaf: string, proof: string[], root: string): boolean {
+    return proof.reduce(MerkleHelper.hashPair, leaf) === root;
+  }
+
+  /**
+   * Builds the levels of the tree, from the sorted leaves to the root
+   *
+   * @param leaves The hashes of the leaves
+   * @returns The levels of the tree
+   */
+  private static buildLayers(leaves: string[]): string[][] {
+    const layers = [[...leaves].sort()];
+
+    while (layers[layers.length - 1].length > 1) {
+      const layer = layers[layers.length - 1];
+      const nextLayer: string[] = [];
+
+      for (let index = 0; index < layer.length; index += 2) {
+        nextLayer.push(
+          index + 1 < layer.length
+            ? MerkleHelper.hashPair(layer[index], layer[index + 1])
+            : layer[index],
+        );
+      }
+
+      layers.push(nextLayer);
+    }
+
+    return layers;
+  }
+
+  /**
+   * Hashes a pair of nodes in ascending order
+   *
+   * @param a The first node
+   * @param b The second node
+   * @returns The hash of the pair
+   */
+  private static hashPair(a: string, b: string): string {
+    return ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+  }
+}
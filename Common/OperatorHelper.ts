@@ -1,5 +1,14 @@
-import { ethers, verifyMessage } from "ethers";
-import { Task } from "./model/Task";
+import {
+  ethers,
+  type TypedDataDomain,
+  type TypedDataField,
+  verifyMessage,
+  verifyTypedData,
+} from "ethers";
+import { ChainIndexer } from "./ChainIndexer";
+import { ConfigHelper } from "./ConfigHelper";
+import { DatabaseManager } from "./DatabaseManager";
+import { Task, type TaskOperatorSnapshot } from "./model/Task";
 import { WalletHelper } from "./WalletHelper";
 import { Wallet } from "ethers";
 
@@ -7,31 +16,149 @@ import { Wallet } from "ethers";
  * A helper class for performing various operations related to operators in the demo DVN
  *
  * This class provides methods to verify operator registration, verify task response signatures,
- * retrieve registered operators, count registered operators, and sign response messages
+ * retrieve registered operators, count registered operators, sign response messages, and sign and verify requests
  */
 export class OperatorHelper {
   /**
-   * Retrieves the list of registered operators from the DVNCoordinator contract
+   * Legacy signing scheme: EIP-191 signature of the hash of the JSON serialized task ID and response
+   */
+  static readonly SIGNATURE_VERSION_PERSONAL = 1;
+
+  /**
+   * EIP-712 signature of a TaskResponse struct, bound to the chain and to the DVNCoordinator of the DVN
+   */
+  static readonly SIGNATURE_VERSION_TYPED_DATA = 2;
+
+  // EIP-712 domain of the task responses
+  static readonly TYPED_DATA_DOMAIN_NAME = "HelloWorldDVN";
+  static readonly TYPED_DATA_DOMAIN_VERSION = "1";
+
+  // EIP-712 types of the task responses
+  static readonly TASK_RESPONSE_TYPES: Record<string, TypedDataField[]> = {
+    TaskResponse: [
+      { name: "taskId", type: "uint256" },
+      { name: "taskType", type: "string" },
+      { name: "response", type: "string" },
+    ],
+  };
+
+  // ID of the chain the demo DVN is registered on, fetched once
+  private static chainId: bigint | undefined;
+
+  // Headers authenticating a request sent by an operator
+  static readonly HEADER_TIMESTAMP = "X-Operator-Timestamp";
+  static readonly HEADER_NONCE = "X-Operator-Nonce";
+  static readonly HEADER_SIGNATURE = "X-Operator-Signature";
+
+  /**
+   * Retrieves the list of registered operators, from the chain indexer if synced or from the DVNCoordinator contract
    *
    * @returns {Promise<number[]>} A promise that resolves to an array of operator IDs
    * @throws Will call WalletHelper.handleTransactionException if an error occurs during the contract call
    */
   static getRegisteredOperators(): Promise<number[]> {
     return new Promise<number[]>(async (resolve, reject) => {
+      if (ChainIndexer.isSynced()) {
+        return resolve(ChainIndexer.getRegisteredOperators());
+      }
+
       const contract = WalletHelper.getDemoDVNCoordinatorContract(
         WalletHelper.getDVNOwnerWallet(),
       );
 
       try {
-        const operators = await contract.getOperators();
+        const operators: bigint[] = await contract.getOperators();
 
-        resolve(operators);
+        resolve(operators.map((operatorId) => Number(operatorId)));
       } catch (error) {
         WalletHelper.handleTransactionException(error, reject);
       }
     });
   }
 
+  /**
+   * Retrieves the owner of an operator, from the chain indexer if synced or from the Operator Registry
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the address of the owner
+   */
+  static getOperatorOwner(operatorId: number): Promise<string> {
+    return ChainIndexer.isSynced()
+      ? ChainIndexer.getOperatorOwner(operatorId)
+      : WalletHelper.getOperatorOwner(operatorId);
+  }
+
+  /**
+   * Snapshots the operators registered to the DVN, who can answer a task created now
+   *
+   * The operators marked as inactive by the liveness monitor are flagged so that they do not count in the quorum,
+   * unless no registered operator is active
+   *
+   * @param withStakes Whether to read the stake delegated to each operator at the snapshot block
+   * @returns A promise that resolves to the snapshot of the registered operators
+   */
+  static async snapshotRegisteredOperators(
+    withStakes: boolean,
+  ): Promise<TaskOperatorSnapshot> {
+    const blockNumber = await WalletHelper.getRPCProvider().getBlockNumber();
+    const operatorIds = await OperatorHelper.getRegisteredOperators();
+    const inactiveOperatorIds = (
+      await DatabaseManager.getInactiveOperators()
+    ).filter((operatorId) => operatorIds.includes(operatorId));
+
+    return {
+      blockNumber,
+      operatorIds,
+      stakes: withStakes
+        ? await OperatorHelper.getOperatorStakes(operatorIds, blockNumber)
+        : undefined,
+      inactiveOperatorIds:
+        inactiveOperatorIds.length < operatorIds.length
+          ? inactiveOperatorIds
+          : [],
+    };
+  }
+
+  /**
+   * Retrieves the stake delegated to each operator at a given block, used as its weight in the stake-weighted quorum
+   *
+   * @param operatorIds The IDs of the operators
+   * @param blockNumber The number of the block at which the stakes are read
+   * @returns A promise that resolves to the stake of each operator, indexed by operator ID
+   */
+  static async getOperatorStakes(
+    operatorIds: number[],
+    blockNumber: number,
+  ): Promise<Map<number, bigint>> {
+    const stakes = await Promise.all(
+      operatorIds.map((operatorId) =>
+        WalletHelper.getOperatorStake(operatorId, blockNumber),
+      ),
+    );
+
+    return new Map(
+      operatorIds.map((operatorId, index) => [operatorId, stakes[index]]),
+    );
+  }
+
+  /**
+   * Retrieves the address the rewards of an operator are paid to, from the chain indexer if synced or from the Operator Registry
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the reward address, or to the address of the owner if no reward address is set
+   */
+  static async getOperatorRewardAddress(operatorId: number): Promise<string> {
+    const rewardAddress =
+      (ChainIndexer.isSynced()
+        ? ChainIndexer.getOperatorRewardAddress(operatorId)
+        : undefined) ??
+      (await WalletHelper.getOperatorRewardAddress(operatorId));
+
+    return rewardAddress === ethers.ZeroAddress
+      ? OperatorHelper.getOperatorOwner(operatorId)
+      : rewardAddress;
+  }
+
   /**
    * Retrieves the count of registered operators
    *
@@ -52,42 +179,182 @@ export class OperatorHelper {
   /**
    * Signs a response message for a given task using the provided signer wallet
    *
-   * @param task The task object containing the task ID
+   * @param task The task object containing the task ID and type
    * @param response The response string to be signed
    * @param signer The wallet instance used to sign the message
+   * @param signatureVersion The signing scheme, EIP-712 typed data by default
    * @returns A promise that resolves to the signature string
    */
   static signResponse(
     task: Task,
     response: string,
     signer: Wallet,
+    signatureVersion: number = OperatorHelper.SIGNATURE_VERSION_TYPED_DATA,
   ): Promise<string> {
-    return new Promise<string>((resolve, reject) => {
-      const messageToSign = JSON.stringify({
-        task: task.id,
-        response: response,
-      });
-
-      const messageHash = ethers.solidityPackedKeccak256(
-        ["string"],
-        [messageToSign],
-      );
-      const messageBytes = ethers.getBytes(messageHash);
-      signer.signMessage(messageBytes).then((signature: string) => {
-        resolve(signature);
-      });
+    return new Promise<string>(async (resolve, reject) => {
+      try {
+        if (signatureVersion === OperatorHelper.SIGNATURE_VERSION_PERSONAL) {
+          const messageBytes = OperatorHelper.buildResponseMessage(
+            task.id,
+            response,
+          );
+
+          return resolve(await signer.signMessage(messageBytes));
+        }
+
+        const domain = await OperatorHelper.getResponseDomain();
+
+        resolve(
+          await signer.signTypedData(
+            domain,
+            OperatorHelper.TASK_RESPONSE_TYPES,
+            OperatorHelper.buildResponseTypedData(task.id, task.type, response),
+          ),
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Signs a request to the Task Aggregator using the provided signer wallet
+   *
+   * The EIP-191 signature covers the method, the path, the timestamp and a random nonce,
+   * which are sent along with it in the authentication headers
+   *
+   * @param method The HTTP method of the request
+   * @param path The path of the request, without the query string
+   * @param signer The wallet instance of the operator owner
+   * @returns A promise that resolves to the authentication headers of the request
+   */
+  static signRequest(
+    method: string,
+    path: string,
+    signer: Wallet,
+  ): Promise<Record<string, string>> {
+    return new Promise<Record<string, string>>((resolve, reject) => {
+      const timestamp = Date.now().toString();
+      const nonce = ethers.hexlify(ethers.randomBytes(16));
+
+      signer
+        .signMessage(
+          OperatorHelper.buildRequestMessage(method, path, timestamp, nonce),
+        )
+        .then((signature: string) => {
+          resolve({
+            [OperatorHelper.HEADER_TIMESTAMP]: timestamp,
+            [OperatorHelper.HEADER_NONCE]: nonce,
+            [OperatorHelper.HEADER_SIGNATURE]: signature,
+          });
+        })
+        .catch((error) => {
+          reject(error);
+        });
+    });
+  }
+
+  /**
+   * Verifies the signature of a request sent by an operator
+   *
+   * @param operatorId The ID of the operator who sent the request
+   * @param method The HTTP method of the request
+   * @param path The path of the request, without the query string
+   * @param timestamp The timestamp sent in the authentication headers
+   * @param nonce The nonce sent in the authentication headers
+   * @param signature The signature sent in the authentication headers
+   * @returns A promise that resolves if the request was signed by the operator owner, otherwise it rejects with an error message
+   */
+  static verifyRequestSignature(
+    operatorId: number,
+    method: string,
+    path: string,
+    timestamp: string,
+    nonce: string,
+    signature: string,
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      OperatorHelper.getOperatorOwner(operatorId)
+        .then((operatorOwner: string) => {
+          let signer: string;
+
+          try {
+            signer = verifyMessage(
+              OperatorHelper.buildRequestMessage(
+                method,
+                path,
+                timestamp,
+                nonce,
+              ),
+              signature,
+            );
+          } catch (error) {
+            return reject(`Invalid signature`);
+          }
+
+          if (signer === operatorOwner) {
+            resolve();
+          } else {
+            reject(`Signature verification failed`);
+          }
+        })
+        .catch((error) => {
+          reject(error);
+        });
+    });
+  }
+
+  /**
+   * Builds the message signed by an operator for a task response
+   *
+   * @param taskId The ID of the task
+   * @param response The response string
+   * @returns The bytes of the message to sign
+   */
+  static buildResponseMessage(taskId: number, response: string): Uint8Array {
+    const messageToSign = JSON.stringify({
+      task: taskId,
+      response: response,
     });
+
+    const messageHash = ethers.solidityPackedKeccak256(
+      ["string"],
+      [messageToSign],
+    );
+
+    return ethers.getBytes(messageHash);
   }
 
   /**
-   * Verifies if the operator with the given ID is registered to the demo DVN
+   * Builds the message signed to authenticate a request
+   *
+   * @param method The HTTP method of the request
+   * @param path The path of the request, without the query string
+   * @param timestamp The timestamp of the request in milliseconds
+   * @param nonce The nonce of the request
+   * @returns The message to sign
+   */
+  private static buildRequestMessage(
+    method: string,
+    path: string,
+    timestamp: string,
+    nonce: string,
+  ): string {
+    return [method.toUpperCase(), path, timestamp, nonce].join("\n");
+  }
+
+  /**
+   * Verifies if the operator with the given ID is registered to the demo DVN, from the chain indexer if synced
    *
    * @param operatorId The ID of the operator to verify
    * @returns A promise that resolves if the operator is registered, or rejects with an error message if not
    */
   static verifyOperator(operatorId: number): Promise<void> {
     return new Promise<void>((resolve, reject) => {
-      WalletHelper.isOperatorRegisteredToDVN(operatorId)
+      (ChainIndexer.isSynced()
+        ? Promise.resolve(ChainIndexer.isOperatorRegistered(operatorId))
+        : WalletHelper.isOperatorRegisteredToDVN(operatorId)
+      )
         .then((isRegistered: boolean) => {
           if (isRegistered) {
             resolve();
@@ -108,6 +375,7 @@ export class OperatorHelper {
    * @param operatorId The ID of the operator whose signature needs to be verified
    * @param response The response string that was signed by the operator
    * @param signature The signature string to be verified
+   * @param signatureVersion The signing scheme used by the operator
    * @returns A promise that resolves if the signature is valid, otherwise it rejects with an error message
    */
   static verifySignature(
@@ -115,32 +383,135 @@ export class OperatorHelper {
     operatorId: number,
     response: string,
     signature: string,
+    signatureVersion: number = OperatorHelper.SIGNATURE_VERSION_PERSONAL,
   ): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      WalletHelper.getOperatorOwner(operatorId)
-        .then((getOperatorOwner: string) => {
-          const messageToSign = JSON.stringify({
-            task: task.id,
-            response: response,
-          });
+    return new Promise<void>(async (resolve, reject) => {
+      if (
+        !ConfigHelper.getAcceptedSignatureVersions().includes(signatureVersion)
+      ) {
+        return reject(`Signature version ${signatureVersion} is not accepted`);
+      }
 
-          const messageHash = ethers.solidityPackedKeccak256(
-            ["string"],
-            [messageToSign],
-          );
-          const messageBytes = ethers.getBytes(messageHash);
+      try {
+        const operatorOwner = await OperatorHelper.getOperatorOwner(operatorId);
+        const domain = await OperatorHelper.getResponseDomain();
 
-          const signer = verifyMessage(messageBytes, signature);
+        const signer = OperatorHelper.recoverResponseSigner(
+          task.id,
+          task.type,
+          response,
+          signature,
+          signatureVersion,
+          domain,
+        );
 
-          if (signer === getOperatorOwner) {
-            resolve();
-          } else {
-            reject(`Signature verification failed`);
-          }
-        })
-        .catch((error) => {
-          reject(error);
-        });
+        if (signer === operatorOwner) {
+          resolve();
+        } else {
+          reject(`Signature verification failed`);
+        }
+      } catch (error) {
+        reject(error);
+      }
     });
   }
+
+  /**
+   * Recovers the address of the signer of a task response
+   *
+   * This method does not need any network access, so it can be used to verify signatures offline
+   *
+   * @param taskId The ID of the task
+   * @param taskType The type of the task
+   * @param response The response string that was signed
+   * @param signature The signature string
+   * @param signatureVersion The signing scheme of the signature
+   * @param domain The EIP-712 domain, only used by typed data signatures
+   * @returns The address of the signer
+   * @throws Will throw an error if the signing scheme is unknown or the signature is malformed
+   */
+  static recoverResponseSigner(
+    taskId: number,
+    taskType: string,
+    response: string,
+    signature: string,
+    signatureVersion: number,
+    domain: TypedDataDomain,
+  ): string {
+    switch (signatureVersion) {
+      case OperatorHelper.SIGNATURE_VERSION_PERSONAL:
+        return verifyMessage(
+          OperatorHelper.buildResponseMessage(taskId, response),
+          signature,
+        );
+      case OperatorHelper.SIGNATURE_VERSION_TYPED_DATA:
+        return verifyTypedData(
+          domain,
+          OperatorHelper.TASK_RESPONSE_TYPES,
+          OperatorHelper.buildResponseTypedData(taskId, taskType, response),
+          signature,
+        );
+      default:
+        throw new Error(`Unknown signature version ${signatureVersion}`);
+    }
+  }
+
+  /**
+   * Builds the EIP-712 domain of the task responses of a DVN
+   *
+   * @param chainId The ID of the chain the DVN is registered on
+   * @param verifyingContract The address of the DVNCoordinator contract of the DVN
+   * @returns The EIP-712 domain
+   */
+  static buildResponseDomain(
+    chainId: bigint | number,
+    verifyingContract: string,
+  ): TypedDataDomain {
+    return {
+      name: OperatorHelper.TYPED_DATA_DOMAIN_NAME,
+      version: OperatorHelper.TYPED_DATA_DOMAIN_VERSION,
+      chainId: chainId,
+      verifyingContract: verifyingContract,
+    };
+  }
+
+  /**
+   * Retrieves the EIP-712 domain of the task responses of the demo DVN
+   *
+   * The chain ID is fetched from the RPC provider once, then cached
+   *
+   * @returns A promise that resolves to the EIP-712 domain
+   */
+  static async getResponseDomain(): Promise<TypedDataDomain> {
+    if (OperatorHelper.chainId == null) {
+      const network = await WalletHelper.getRPCProvider().getNetwork();
+
+      OperatorHelper.chainId = network.chainId;
+    }
+
+    return OperatorHelper.buildResponseDomain(
+      OperatorHelper.chainId,
+      WalletHelper.getDemoDVNCoordinatorContractAddress(),
+    );
+  }
+
+  /**
+   * Builds the EIP-712 TaskResponse struct signed by an operator
+   *
+   * @param taskId The ID of the task
+   * @param taskType The type of the task
+   * @param response The response string
+   * @returns The TaskResponse struct
+   */
+  private static buildResponseTypedData(
+    taskId: number,
+    taskType: string,
+    response: string,
+  ): Record<string, any> {
+    return {
+      taskId: taskId,
+      taskType: taskType,
+      response: response,
+    };
+  }
 }
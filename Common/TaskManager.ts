@@ -2,11 +2,11 @@ import { DatabaseManager } from "./DatabaseManager";
 import { logger } from "./Logger";
 import { Task } from "./model/Task";
 import { TaskResponse } from "./model/TaskResponse";
-import { OperatorHelper } from "./OperatorHelper";
-
-// deafult values for quorums
-const responsesCountQuorum = 9000; // 90% of responses on the total number of Operators
-const responsesContentQuorum = 9000; // 90% of responses must have the same content
+import { TaskTypeRegistry } from "./TaskTypeRegistry";
+import { ConfigHelper } from "./ConfigHelper";
+import { CertificateHelper } from "./CertificateHelper";
+import { TaskFinalization } from "./model/TaskFinalization";
+import { TaskCertificateSigners } from "./model/TaskCertificate";
 
 /**
  * The TaskManager class provides methods to validate task responses and ensure consensus is reached among operators
@@ -15,154 +15,538 @@ const responsesContentQuorum = 9000; // 90% of responses must have the same cont
  */
 export class TaskManager {
   /**
-   * Checks if the number of responses for a given task has reached the quorum
+   * Checks if the number of responses for a given task has reached the quorum defined by its quorum policy
+   *
+   * With a stake-weighted policy, the stake of the responders is compared to the stake of the operators
+   * who can answer the task, as read at its snapshot block
    *
    * @param task The task for which to check the responses
-   * @returns A promise that resolves to an object containing:
+   * @param taskResponses The responses of the task
+   * @param stakes The stake of each operator who can answer the task, for a stake-weighted quorum
+   * @returns An object containing:
    * - result: A boolean indicating if the quorum has been reached
    * - responsesCount: The number of responses received for the task
-   * - operatorsCount: The total number of registered operators
-   * - quorum: The calculated quorum based on the number of operators
+   * - operatorsCount: The number of operators who can answer the task
+   * - quorum: The quorum required by the quorum policy, formatted for the logs
    */
-  private static async checkResponsesAmountReachedQuorum(task: Task): Promise<{
+  private static checkResponsesAmountReachedQuorum(
+    task: Task,
+    taskResponses: TaskResponse[],
+    stakes?: Map<number, bigint>,
+  ): {
     result: boolean;
     responsesCount: number;
     operatorsCount: number;
-    quorum: number;
-  }> {
-    return new Promise<{
-      result: boolean;
-      responsesCount: number;
-      operatorsCount: number;
-      quorum: number;
-    }>(async (resolve, reject) => {
-      const responsesCount = await DatabaseManager.getTaskResponsesCount(task);
-      const operatorsCount = await OperatorHelper.getRegisteredOperatorsCount();
-
-      const percentageInBps = (responsesCount / operatorsCount) * 10000;
-
-      let quorum = Math.floor((responsesCountQuorum / 10000) * operatorsCount);
-
-      if (operatorsCount == 1) {
-        quorum = 1;
-      }
+    quorum: string;
+  } {
+    // the quorum is computed against the operators registered when the task was created
+    const operatorsCount = task.operatorsCount;
+    const responsesCount = taskResponses.length;
 
-      resolve({
-        result: percentageInBps >= responsesCountQuorum,
+    if (stakes != null) {
+      const totalStake = TaskManager.sumStakes(stakes, [...stakes.keys()]);
+      const respondersStake = TaskManager.sumStakes(
+        stakes,
+        taskResponses.map(({ operatorId }) => operatorId),
+      );
+      const requiredStake =
+        task.quorumPolicy.getRequiredResponsesStake(totalStake);
+
+      return {
+        result: respondersStake >= requiredStake,
         responsesCount,
         operatorsCount,
-        quorum,
-      });
-    });
+        quorum: `${requiredStake}/${totalStake} of the stake, ${respondersStake} responded`,
+      };
+    }
+
+    const quorum = task.quorumPolicy.getRequiredResponsesCount(operatorsCount);
+
+    return {
+      result: responsesCount >= quorum,
+      responsesCount,
+      operatorsCount,
+      quorum: `${quorum}/${operatorsCount}`,
+    };
   }
 
   /**
-   * Determines the most frequent response for a given task and checks if it has reached the quorum
+   * Sums the stakes of the given operators
    *
-   * @param {Task} task The task for which responses are being evaluated
-   * @returns {Promise<any>} A promise that resolves with the most frequent response if it reaches the quorum, otherwise it rejects
+   * @param stakes The stake of each operator who can answer the task, indexed by operator ID
+   * @param operatorIds The IDs of the operators
+   * @returns The total stake of the operators, operators without stake counting as zero
    */
-  private static async getResponsesContentReachedQuorum(
-    task: Task,
-  ): Promise<any> {
-    return new Promise<any>(async (resolve, reject) => {
-      const taskResponses: TaskResponse[] =
-        await DatabaseManager.getTaskResponses(task);
-
-      const responseFrequency: { [key: string]: number } = {};
+  private static sumStakes(
+    stakes: Map<number, bigint>,
+    operatorIds: number[],
+  ): bigint {
+    return operatorIds.reduce(
+      (sum, operatorId) => sum + (stakes.get(operatorId) ?? 0n),
+      0n,
+    );
+  }
 
-      taskResponses.forEach((taskResponse) => {
-        responseFrequency[taskResponse.response] =
-          (responseFrequency[taskResponse.response] || 0) + 1;
-      });
+  /**
+   * Computes the minimum number of agreeing responses whose stake reaches the required stake
+   *
+   * @param stakes The stake of each operator who can answer the task, indexed by operator ID
+   * @param agreeingResponses The task responses agreeing on the same content
+   * @param requiredStake The agreeing stake required by the quorum policy
+   * @returns The number of responses of the largest stakes needed to reach the required stake, or undefined if the agreeing responses do not reach it
+   */
+  private static countResponsesReachingStake(
+    stakes: Map<number, bigint>,
+    agreeingResponses: TaskResponse[],
+    requiredStake: bigint,
+  ): number | undefined {
+    const sortedStakes = agreeingResponses
+      .map(({ operatorId }) => stakes.get(operatorId) ?? 0n)
+      .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
 
-      const mostFrequentResponse = Object.keys(responseFrequency).reduce(
-        (a, b) => (responseFrequency[a] > responseFrequency[b] ? a : b),
-      );
+    let stake = 0n;
 
-      const mostFrequentResponseCount = responseFrequency[mostFrequentResponse];
+    for (const [index, operatorStake] of sortedStakes.entries()) {
+      stake += operatorStake;
 
-      if (
-        mostFrequentResponseCount * 10000 >=
-        responsesContentQuorum * taskResponses.length
-      ) {
-        resolve(mostFrequentResponse);
-      } else {
-        reject();
+      if (stake >= requiredStake) {
+        return index + 1;
       }
-    });
+    }
+
+    return undefined;
   }
+
   /**
-   * Validates the responses for a given task
+   * Parses, verifies and canonicalizes the responses of a task, using the task type of the task
    *
-   * @param task The task to validate
-   * @returns A promise that resolves if the task responses are validated successfully, or rejects with an error message if validation fails
+   * Responses that cannot be parsed or that are not valid for the task input are discarded
    *
-   * @throws Will reject with an error message if the task has already been validated
-   * @throws Will reject with an error message if a sufficient number of responses have not been received
-   * @throws Will reject with an error message if there is an error storing the final task response
-   * @throws Will reject with an error message if the responses are too different to reach a consensus
-   * @throws Will reject with an error message if there is an error handling the consensus not being reached
+   * @param task The task the responses refer to
+   * @param taskResponses The responses sent by the Operators
+   * @returns An array containing, for each valid response, the task response and its canonical form
    */
-  static async validateTaskResponses(task: Task): Promise<void> {
-    return new Promise<void>(async (resolve, reject) => {
-      if (task.response != null) {
-        logger.info(
-          `[Task ${task.id}] Task Aggregator already reached consensus`,
+  private static canonicalizeResponses(
+    task: Task,
+    taskResponses: TaskResponse[],
+  ): { taskResponse: TaskResponse; response: any }[] {
+    const taskType = TaskTypeRegistry.get(task.type);
+    const input = TaskTypeRegistry.parseInput(task);
+
+    const canonicalResponses: { taskResponse: TaskResponse; response: any }[] =
+      [];
+
+    taskResponses.forEach((taskResponse) => {
+      try {
+        const response = TaskTypeRegistry.parseResponse(
+          task,
+          taskResponse.response,
         );
 
-        return reject("Task already validated");
+        if (!taskType.verifyResponse(input, response)) {
+          return;
+        }
+
+        canonicalResponses.push({
+          taskResponse,
+          response: taskType.canonicalizeResponse(input, response),
+        });
+      } catch (error) {
+        // invalid responses are not counted in favour of any content
       }
+    });
 
-      // check if a sufficient number of responses have been received
-      const {
-        result: responsesAmountReachedQuorum,
-        responsesCount,
-        operatorsCount,
-        quorum,
-      } = await TaskManager.checkResponsesAmountReachedQuorum(task);
+    return canonicalResponses;
+  }
+
+  /**
+   * Finds the most frequent canonical response, or the one with the largest stake when the operators are weighted
+   *
+   * @param canonicalResponses The valid responses, in canonical form
+   * @param stakes The stake of each operator who can answer the task, for a stake-weighted quorum
+   * @returns The most frequent response and the task responses agreeing with it, or undefined if there are no valid responses
+   */
+  private static findMostFrequentResponse(
+    canonicalResponses: { taskResponse: TaskResponse; response: any }[],
+    stakes?: Map<number, bigint>,
+  ): { response: string; agreeingResponses: TaskResponse[] } | undefined {
+    const responsesByContent: { [key: string]: TaskResponse[] } = {};
+
+    canonicalResponses.forEach(({ taskResponse, response }) => {
+      const key = JSON.stringify(response);
+
+      responsesByContent[key] = [
+        ...(responsesByContent[key] || []),
+        taskResponse,
+      ];
+    });
+
+    if (Object.keys(responsesByContent).length === 0) {
+      return undefined;
+    }
+
+    const weigh = (key: string): bigint =>
+      stakes != null
+        ? TaskManager.sumStakes(
+            stakes,
+            responsesByContent[key].map(({ operatorId }) => operatorId),
+          )
+        : BigInt(responsesByContent[key].length);
+
+    const mostFrequentResponse = Object.keys(responsesByContent).reduce(
+      (a, b) => (weigh(a) >= weigh(b) ? a : b),
+    );
+
+    return {
+      response: mostFrequentResponse,
+      agreeingResponses: responsesByContent[mostFrequentResponse],
+    };
+  }
+
+  /**
+   * Finds the best scored canonical response, and the responses whose score is within the tolerance of the best one
+   *
+   * @param task The task the responses refer to
+   * @param canonicalResponses The valid responses, in canonical form
+   * @returns The best response and the task responses agreeing with it, or undefined if there are no valid responses
+   */
+  private static findBestScoredResponse(
+    task: Task,
+    canonicalResponses: { taskResponse: TaskResponse; response: any }[],
+  ): { response: string; agreeingResponses: TaskResponse[] } | undefined {
+    const taskType = TaskTypeRegistry.get(task.type);
+    const input = TaskTypeRegistry.parseInput(task);
 
-      if (!responsesAmountReachedQuorum) {
-        const message = `[Task ${task.id}] Waiting for more responses. ${responsesCount} out of ${operatorsCount} received so far and quorum is ${quorum}/${operatorsCount}`;
+    if (canonicalResponses.length === 0) {
+      return undefined;
+    }
 
-        logger.info(message);
-        return reject(message);
+    const scoredResponses = canonicalResponses.map((canonicalResponse) => ({
+      ...canonicalResponse,
+      score: taskType.scoreResponse!(input, canonicalResponse.response),
+    }));
+
+    const best = scoredResponses.reduce((a, b) => (a.score <= b.score ? a : b));
+
+    // scores are costs: the lower the better
+    const maxAcceptedScore =
+      best.score +
+      (Math.abs(best.score) * ConfigHelper.getResponseScoreToleranceBps()) /
+        10000;
+
+    return {
+      response: JSON.stringify(best.response),
+      agreeingResponses: scoredResponses
+        .filter(({ score }) => score <= maxAcceptedScore)
+        .map(({ taskResponse }) => taskResponse),
+    };
+  }
+
+  /**
+   * Determines the response reaching consensus for a given task and checks if it has reached the quorum
+   *
+   * Responses are canonicalized through the task type before being compared, and invalid responses
+   * are not counted in favour of any content. Depending on the task type, the candidate response is:
+   * - the most frequent canonical response, when the task type compares responses by content
+   * - the best valid response, when the task type scores responses: responses whose score is within
+   *   the configured tolerance of the best one are considered in agreement with it
+   *
+   * The number of agreeing responses required is defined by the quorum policy of the task. With a stake-weighted
+   * policy, the agreeing responses must reach the required stake, and the number of agreeing responses required
+   * is the minimum number of them reaching it
+   *
+   * @param {Task} task The task for which responses are being evaluated
+   * @param {TaskResponse[]} taskResponses The responses of the task
+   * @param stakes The stake of each operator who can answer the task, for a stake-weighted quorum
+   * @returns The consensus if the response reaches the quorum, otherwise undefined, with:
+   * - response: The serialized response reaching the quorum
+   * - agreeingResponses: The task responses agreeing with it
+   * - disagreeingResponses: The other task responses, including the invalid ones
+   * - requiredAgreeingResponsesCount: The number of agreeing responses required by the quorum policy
+   */
+  private static getResponsesContentReachedQuorum(
+    task: Task,
+    taskResponses: TaskResponse[],
+    stakes?: Map<number, bigint>,
+  ):
+    | {
+        response: string;
+        agreeingResponses: TaskResponse[];
+        disagreeingResponses: TaskResponse[];
+        requiredAgreeingResponsesCount: number;
       }
+    | undefined {
+    const canonicalResponses = TaskManager.canonicalizeResponses(
+      task,
+      taskResponses,
+    );
 
+    const consensus =
+      TaskTypeRegistry.get(task.type).scoreResponse != null
+        ? TaskManager.findBestScoredResponse(task, canonicalResponses)
+        : TaskManager.findMostFrequentResponse(canonicalResponses, stakes);
+
+    if (consensus == null) {
+      return undefined;
+    }
+
+    const disagreeingResponses = taskResponses.filter(
+      (taskResponse) => !consensus.agreeingResponses.includes(taskResponse),
+    );
+
+    if (stakes != null) {
+      const requiredAgreeingResponsesCount =
+        TaskManager.countResponsesReachingStake(
+          stakes,
+          consensus.agreeingResponses,
+          task.quorumPolicy.getRequiredAgreeingResponsesStake(
+            TaskManager.sumStakes(stakes, [...stakes.keys()]),
+          ),
+        );
+
+      return requiredAgreeingResponsesCount != null
+        ? {
+            ...consensus,
+            disagreeingResponses,
+            requiredAgreeingResponsesCount,
+          }
+        : undefined;
+    }
+
+    const requiredAgreeingResponsesCount =
+      task.quorumPolicy.getRequiredAgreeingResponsesCount(
+        task.operatorsCount,
+        taskResponses.length,
+      );
+
+    return consensus.agreeingResponses.length >= requiredAgreeingResponsesCount
+      ? {
+          ...consensus,
+          disagreeingResponses,
+          requiredAgreeingResponsesCount,
+        }
+      : undefined;
+  }
+
+  /**
+   * Evaluates the responses of a task against its quorum policy
+   *
+   * Once the quorum of responses is reached, the task is either completed with the response reaching consensus,
+   * attested by a certificate, or marked as not having reached consensus
+   *
+   * Only the responses still signed by the owner of their operator are counted, so that every agreeing response
+   * counted in the quorum is attested by the certificate
+   *
+   * @param task The task to evaluate
+   * @param taskResponses The responses of the task
+   * @param signers The EIP-712 domain of the DVN and the owners of the operators who can answer the task
+   * @param stakes The stake of each operator who can answer the task, for a stake-weighted quorum
+   * @returns The finalization of the task, or undefined if the quorum of responses is not reached
+   */
+  private static evaluateTaskResponses(
+    task: Task,
+    taskResponses: TaskResponse[],
+    signers: TaskCertificateSigners,
+    stakes?: Map<number, bigint>,
+  ): TaskFinalization | undefined {
+    const signedResponses = taskResponses.filter((taskResponse) =>
+      CertificateHelper.isResponseSigned(task, taskResponse, signers),
+    );
+
+    if (signedResponses.length < taskResponses.length) {
+      logger.warn(
+        `[Task ${task.id}] ${taskResponses.length - signedResponses.length} response(s) no longer signed by the owner of their operator are not counted`,
+      );
+    }
+
+    // check if a sufficient number of responses have been received
+    const { result, responsesCount, operatorsCount, quorum } =
+      TaskManager.checkResponsesAmountReachedQuorum(
+        task,
+        signedResponses,
+        stakes,
+      );
+
+    if (!result) {
       logger.info(
-        `[Task ${task.id}] Reached quorum of ${quorum}/${operatorsCount}: verifying responses`,
+        task.isExpired()
+          ? `[Task ${task.id}] ${responsesCount} out of ${operatorsCount} responses received: quorum of ${quorum} not reached`
+          : `[Task ${task.id}] Waiting for more responses. ${responsesCount} out of ${operatorsCount} received so far and quorum is ${quorum}`,
       );
 
-      // check if most of the responses are the same
-      TaskManager.getResponsesContentReachedQuorum(task)
-        .then((responseReachingQuorum: number) => {
-          // store accepted response to Task
-          DatabaseManager.registerFinalTaskResponse(
-            task,
-            responseReachingQuorum,
-          )
-            .then((task: Task) => {
-              logger.info(`[Task ${task.id}] Consensus on responses reached`);
-
-              resolve();
-            })
-            .catch(() => {
-              return reject("Error storing response on Task");
-            });
-        })
-        .catch(() => {
-          // Task couldn't reach a consensus on the responses
-          DatabaseManager.handleConsensusNotReached(task)
-            .then((task: Task) => {
-              const message = `[Task ${task.id}] Responses were too different: unable to reach consensus`;
-              logger.info(message);
-
-              return reject(message);
-            })
-            .catch(() => {
-              return reject("Error storing response on Task");
-            });
-        });
+      return undefined;
+    }
+
+    logger.info(
+      `[Task ${task.id}] Reached quorum of ${quorum}: verifying responses`,
+    );
+
+    // check if most of the responses are the same
+    const consensus = TaskManager.getResponsesContentReachedQuorum(
+      task,
+      signedResponses,
+      stakes,
+    );
+
+    if (consensus == null) {
+      return { status: Task.STATUS_CONSENSUS_NOT_REACHED };
+    }
+
+    // attest the accepted response with the signatures of the agreeing operators
+    const certificate = CertificateHelper.buildCertificate(
+      task,
+      consensus.response,
+      consensus.agreeingResponses,
+      consensus.requiredAgreeingResponsesCount,
+      signers,
+    );
+
+    // keep the signed disagreeing responses as slashing evidence
+    const evidence = CertificateHelper.buildSlashingEvidence(
+      task,
+      consensus.response,
+      consensus.disagreeingResponses,
+      signers,
+    );
+
+    return {
+      status: Task.STATUS_COMPLETED,
+      response: consensus.response,
+      agreeingOperatorIds: consensus.agreeingResponses.map(
+        ({ operatorId }) => operatorId,
+      ),
+      certificate,
+      evidence,
+    };
+  }
+
+  /**
+   * Logs the finalization of a task, once stored
+   *
+   * @param task The finalized task
+   * @param finalization The finalization of the task
+   */
+  private static logFinalization(task: Task, finalization: TaskFinalization) {
+    switch (finalization.status) {
+      case Task.STATUS_COMPLETED:
+        logger.info(
+          `[Task ${task.id}] Consensus on responses reached: output is ${finalization.response}`,
+        );
+        break;
+      case Task.STATUS_CONSENSUS_NOT_REACHED:
+        logger.info(
+          `[Task ${task.id}] Responses were too different: unable to reach consensus`,
+        );
+        break;
+      default:
+        logger.info(`[Task ${task.id}] Expired without reaching the quorum`);
+    }
+  }
+
+  /**
+   * Fetches what the signatures of the responses to a task are checked against, before its responses are evaluated
+   *
+   * @param task The task
+   * @returns A promise that resolves to the EIP-712 domain of the DVN and the owners of the operators who can answer
+   * the task, or rejects with an error message if they could not be fetched
+   */
+  private static async fetchTaskSigners(
+    task: Task,
+  ): Promise<TaskCertificateSigners> {
+    return CertificateHelper.fetchSigners(
+      await DatabaseManager.getTaskOperators(task),
+    );
+  }
+
+  /**
+   * Registers the response of an operator to a task, then finalizes the task if its responses reach the quorum
+   *
+   * The response is registered, the responses evaluated and the task finalized in a single transaction, so that
+   * the responses sent together cannot finalize the task twice. The owners of the operators are fetched beforehand,
+   * so that the transaction does not wait on the chain
+   *
+   * @param task The task the response is sent to
+   * @param operatorId The ID of the operator sending the response
+   * @param response The response content from the operator
+   * @param signature The signature of the operator for the response
+   * @param signatureVersion The signing scheme of the signature
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task keeps accepting responses,
+   * or rejects with TaskResponse.ERROR_* if the response is not accepted, or with an error message
+   */
+  static async registerTaskResponse(
+    task: Task,
+    operatorId: number,
+    response: string,
+    signature: string,
+    signatureVersion: number,
+  ): Promise<TaskFinalization | undefined> {
+    // without the owners, the response is kept: the task is finalized by a later response, or once expired
+    const signers = await TaskManager.fetchTaskSigners(task).catch((error) => {
+      logger.error(error);
+
+      return undefined;
     });
+
+    const finalization = await DatabaseManager.registerOperatorTaskResponse(
+      task,
+      operatorId,
+      response,
+      signature,
+      signatureVersion,
+      signers != null
+        ? (taskResponses, stakes) => {
+            try {
+              return TaskManager.evaluateTaskResponses(
+                task,
+                taskResponses,
+                signers,
+                stakes,
+              );
+            } catch (error) {
+              // the response is kept: the task is finalized by a later response, or once expired
+              logger.error(error);
+
+              return undefined;
+            }
+          }
+        : undefined,
+    );
+
+    if (finalization != null) {
+      TaskManager.logFinalization(task, finalization);
+    }
+
+    return finalization;
+  }
+
+  /**
+   * Finalizes a task whose deadline has passed, evaluating the responses received so far against its quorum policy
+   *
+   * If the count quorum is reached, the responses are validated as usual and the task is either completed
+   * or marked as not having reached consensus; otherwise the task is marked as expired
+   *
+   * @param task The expired task to finalize
+   * @returns A promise that resolves when the task has been finalized, or rejects with an error message if the task could not be updated
+   */
+  static async finalizeExpiredTask(task: Task): Promise<void> {
+    try {
+      const signers = await TaskManager.fetchTaskSigners(task);
+      const finalization = await DatabaseManager.finalizeExpiredTask(
+        task,
+        (taskResponses, stakes) =>
+          TaskManager.evaluateTaskResponses(
+            task,
+            taskResponses,
+            signers,
+            stakes,
+          ),
+      );
+
+      if (finalization != null) {
+        TaskManager.logFinalization(task, finalization);
+      }
+    } catch (error) {
+      throw `Error finalizing expired Task: ${error}`;
+    }
   }
 }
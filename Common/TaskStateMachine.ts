@@ -0,0 +1,99 @@
+import { Task } from "./model/Task";
+
+/**
+ * The TaskStateMachine class defines the lifecycle of a task: its statuses, and the transitions allowed between them
+ *
+ * 1. a task is created PENDING, and becomes READY once its operator snapshot is stored
+ * 2. it is IN_PROGRESS once it received a response, and keeps accepting responses while READY or IN_PROGRESS
+ * 3. once the quorum of responses is reached, it is AGGREGATING, then COMPLETED or CONSENSUS_NOT_REACHED
+ * 4. past its deadline without reaching the quorum, it is EXPIRED
+ * 5. an admin can cancel it while it accepts responses
+ * 6. once completed, it is PUBLISHED when its result is confirmed on-chain
+ *
+ * Every status change of the stores is checked against these transitions, and recorded in the history of the task
+ */
+export class TaskStateMachine {
+  // Statuses each status can transition to, the final statuses transitioning to none
+  private static readonly TRANSITIONS: Map<string, string[]> = new Map([
+    [Task.STATUS_PENDING, [Task.STATUS_READY, Task.STATUS_CANCELLED]],
+    [
+      Task.STATUS_READY,
+      [
+        Task.STATUS_IN_PROGRESS,
+        Task.STATUS_AGGREGATING,
+        Task.STATUS_EXPIRED,
+        Task.STATUS_CANCELLED,
+      ],
+    ],
+    [
+      Task.STATUS_IN_PROGRESS,
+      [Task.STATUS_AGGREGATING, Task.STATUS_EXPIRED, Task.STATUS_CANCELLED],
+    ],
+    [
+      Task.STATUS_AGGREGATING,
+      [Task.STATUS_COMPLETED, Task.STATUS_CONSENSUS_NOT_REACHED],
+    ],
+    [Task.STATUS_COMPLETED, [Task.STATUS_PUBLISHED]],
+    [Task.STATUS_CONSENSUS_NOT_REACHED, []],
+    [Task.STATUS_EXPIRED, []],
+    [Task.STATUS_CANCELLED, []],
+    [Task.STATUS_PUBLISHED, []],
+  ]);
+
+  /**
+   * All the statuses of a task
+   */
+  static readonly STATUSES = [...TaskStateMachine.TRANSITIONS.keys()];
+
+  /**
+   * Statuses of the tasks accepting responses
+   */
+  static readonly ACCEPTING_RESPONSES_STATUSES = [
+    Task.STATUS_READY,
+    Task.STATUS_IN_PROGRESS,
+  ];
+
+  /**
+   * Statuses the evaluation of the responses of a task can finalize it with
+   */
+  static readonly FINALIZATION_STATUSES = [
+    Task.STATUS_COMPLETED,
+    Task.STATUS_CONSENSUS_NOT_REACHED,
+    Task.STATUS_EXPIRED,
+  ];
+
+  /**
+   * Checks if a task can transition from a status to another
+   *
+   * @param from The current status of the task
+   * @param to The new status of the task
+   * @returns True if the transition is allowed, false otherwise
+   */
+  static canTransition(from: string, to: string): boolean {
+    return TaskStateMachine.TRANSITIONS.get(from)?.includes(to) ?? false;
+  }
+
+  /**
+   * Checks that a task can transition from a status to another
+   *
+   * @param taskId The ID of the task
+   * @param from The current status of the task
+   * @param to The new status of the task
+   * @throws Will throw an error message if the transition is not allowed
+   */
+  static assertTransition(taskId: number, from: string, to: string) {
+    if (!TaskStateMachine.canTransition(from, to)) {
+      throw `Task ${taskId} cannot transition from ${from} to ${to}`;
+    }
+  }
+
+  /**
+   * Checks if a task in the given status accepts responses
+   *
+   * @param status The status of the task
+   * @returns True if the task accepts responses, false otherwise
+   */
+  static isAcceptingResponses(status: string): boolean {
+    return TaskStateMachine.ACCEPTING_RESPONSES_STATUSES.includes(status);
+  }
+}
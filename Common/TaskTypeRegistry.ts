@@ -0,0 +1,95 @@
+import { Task } from "./model/Task";
+import { TaskType } from "./taskType/TaskType";
+import { TSPTaskType } from "./taskType/TSPTaskType";
+import { PrimeTaskType } from "./taskType/PrimeTaskType";
+import { HashTaskType } from "./taskType/HashTaskType";
+
+/**
+ * The TaskTypeRegistry class keeps track of the task types served by the DVN
+ *
+ * The Task Aggregator, the task generator and the Operator LRE resolve task types by name
+ * through this registry, so that a single DVN can serve several kinds of problems side by side
+ */
+export class TaskTypeRegistry {
+  // Task type used when none is specified
+  static readonly DEFAULT_TASK_TYPE = TSPTaskType.ID;
+
+  // Registered task types, indexed by their ID
+  private static taskTypes: Map<string, TaskType> = new Map<string, TaskType>(
+    [new TSPTaskType(), new PrimeTaskType(), new HashTaskType()].map(
+      (taskType: TaskType) => [taskType.id, taskType],
+    ),
+  );
+
+  /**
+   * Retrieves a task type by its ID
+   *
+   * @param id The ID of the task type
+   * @returns The task type
+   * @throws Will throw an error if no task type is registered with the given ID
+   */
+  static get(id: string): TaskType {
+    const taskType = TaskTypeRegistry.taskTypes.get(id);
+
+    if (taskType == null) {
+      throw new Error(`Unknown task type "${id}"`);
+    }
+
+    return taskType;
+  }
+
+  /**
+   * Retrieves the IDs of all the registered task types
+   *
+   * @returns An array of task type IDs
+   */
+  static getIds(): string[] {
+    return Array.from(TaskTypeRegistry.taskTypes.keys());
+  }
+
+  /**
+   * Checks if a task type is registered with the given ID
+   *
+   * @param id The ID of the task type
+   * @returns True if the task type is registered, false otherwise
+   */
+  static has(id: string): boolean {
+    return TaskTypeRegistry.taskTypes.has(id);
+  }
+
+  /**
+   * Parses and validates the input of a task against the schema of its task type
+   *
+   * @param task The task whose input must be parsed
+   * @returns The parsed input
+   * @throws Will throw an error if the task type is unknown or the input is not valid
+   */
+  static parseInput(task: Task): any {
+    return TaskTypeRegistry.get(task.type).inputSchema.parse(
+      JSON.parse(task.input),
+    );
+  }
+
+  /**
+   * Parses and validates a response to a task against the schema of its task type
+   *
+   * @param task The task the response refers to
+   * @param response The serialized response
+   * @returns The parsed response
+   * @throws Will throw an error if the task type is unknown or the response is not valid
+   */
+  static parseResponse(task: Task, response: string): any {
+    return TaskTypeRegistry.get(task.type).responseSchema.parse(
+      JSON.parse(response),
+    );
+  }
+
+  /**
+   * Registers a task type, replacing any task type registered with the same ID
+   *
+   * @param taskType The task type to register
+   */
+  static register(taskType: TaskType) {
+    TaskTypeRegistry.taskTypes.set(taskType.id, taskType);
+  }
+}
@@ -5,42 +5,128 @@ import { JsonRpcProvider } from "ethers";
 import { Contract } from "ethers";
 import DVNRegistryAbi from "../Common/abi/DVNRegistry";
 import DVNCoordinatorAbi from "../Common/abi/DVNCoordinator";
+import DelegationManagerAbi from "../Common/abi/DelegationManager";
 import KernelConfigAbi from "../Common/abi/KernelConfig";
 import OperatorRegistryAbi from "../Common/abi/OperatorRegistry";
+import ResultVerifierAbi from "../Common/abi/ResultVerifier";
 import { CacheManager } from "./CacheManager";
-import { ContractTransactionResponse } from "ethers";
+import { ContractTransactionResponse, EventLog } from "ethers";
+import fs from "fs";
+import { TaskResult } from "./model/TaskResult";
 
 export class WalletHelper {
   /**
    * Accepts an operator registration request by the DemoDVNCoordinator contract
    *
    * @param operatorId The ID of the operator to be registered
-   * @returns A promise that resolves when the transaction is complete
+   * @returns A promise that resolves to the hash and the receipt status of the transaction once mined
    *
    * @throws Will throw an error if the transaction fails
    */
   static async acceptOperatorRegistrationByDemoDVN(
     operatorId: number,
-  ): Promise<void> {
-    return new Promise<void>(async (resolve, reject) => {
-      const signer: Wallet = WalletHelper.getDVNOwnerWallet();
-      const contract = WalletHelper.getDemoDVNCoordinatorContract(signer);
+  ): Promise<{ txHash: string; status: number }> {
+    return WalletHelper.sendDemoDVNTransaction(
+      "acceptOperatorRegistrationRequest",
+      operatorId.toString(),
+    );
+  }
 
-      await CacheManager.acquireTransactionLock(signer);
+  /**
+   * Rejects an operator registration request by the DemoDVNCoordinator contract
+   *
+   * @param operatorId The ID of the operator whose request is rejected
+   * @returns A promise that resolves to the hash and the receipt status of the transaction once mined
+   *
+   * @throws Will throw an error if the transaction fails
+   */
+  static async rejectOperatorRegistrationByDemoDVN(
+    operatorId: number,
+  ): Promise<{ txHash: string; status: number }> {
+    return WalletHelper.sendDemoDVNTransaction(
+      "rejectOperatorRegistrationRequest",
+      operatorId.toString(),
+    );
+  }
 
-      try {
-        const tx = await contract.acceptOperatorRegistrationRequest(
-          operatorId.toString(),
-        );
-        CacheManager.releaseTransactionLock(signer);
-        await tx.wait();
+  /**
+   * Updates the metadata URI of the demo DVN
+   *
+   * @param metadataURI The new metadata URI
+   * @returns A promise that resolves to the hash and the receipt status of the transaction once mined
+   *
+   * @throws Will throw an error if the transaction fails
+   */
+  static async updateDemoDVNMetadataURI(
+    metadataURI: string,
+  ): Promise<{ txHash: string; status: number }> {
+    return WalletHelper.sendDemoDVNTransaction(
+      "updateMetadataURI",
+      metadataURI,
+    );
+  }
 
-        resolve();
-      } catch (error) {
-        console.log(error);
-        WalletHelper.handleTransactionException(error, reject);
-      }
-    });
+  /**
+   * Transfers the ownership of the demo DVN
+   *
+   * Once transferred, the DVN owner wallet of the Task Aggregator can no longer manage the DVN
+   *
+   * @param newOwner The address of the new owner
+   * @returns A promise that resolves to the hash and the receipt status of the transaction once mined
+   *
+   * @throws Will throw an error if the transaction fails
+   */
+  static async transferDemoDVNOwnership(
+    newOwner: string,
+  ): Promise<{ txHash: string; status: number }> {
+    return WalletHelper.sendDemoDVNTransaction("transferOwnership", newOwner);
+  }
+
+  /**
+   * Sends a transaction signed by the DVN owner to the DemoDVNCoordinator contract, and waits for it to be mined
+   *
+   * A reverted transaction resolves with its receipt status, so the caller can report it
+   *
+   * @param method The name of the contract function
+   * @param args The arguments of the contract function
+   * @returns A promise that resolves to the hash and the receipt status of the transaction once mined
+   *
+   * @throws Will call `handleTransactionException` if the transaction cannot be sent
+   */
+  private static async sendDemoDVNTransaction(
+    method: string,
+    ...args: any[]
+  ): Promise<{ txHash: string; status: number }> {
+    return new Promise<{ txHash: string; status: number }>(
+      async (resolve, reject) => {
+        const signer: Wallet = WalletHelper.getDVNOwnerWallet();
+        const contract = WalletHelper.getDemoDVNCoordinatorContract(signer);
+
+        await CacheManager.acquireTransactionLock(signer);
+
+        let tx: ContractTransactionResponse;
+
+        try {
+          tx = await contract[method](...args);
+        } catch (error) {
+          return WalletHelper.handleTransactionException(error, reject);
+        } finally {
+          CacheManager.releaseTransactionLock(signer);
+        }
+
+        try {
+          const receipt = await tx.wait();
+
+          resolve({ txHash: tx.hash, status: receipt!.status! });
+        } catch (error: any) {
+          if (error.code === "CALL_EXCEPTION" && error.receipt != null) {
+            return resolve({ txHash: tx.hash, status: error.receipt.status });
+          }
+
+          WalletHelper.handleTransactionException(error, reject);
+        }
+      },
+    );
   }
 
   /**
@@ -49,6 +135,15 @@ export class WalletHelper {
    * @returns {Wallet} The DVN owner wallet
    */
   static createOrGenerateDVNOwnerWallet(): Wallet {
+    const configuredPrivateKey = ConfigHelper.getDVNOwnerPrivateKey();
+
+    if (configuredPrivateKey != null) {
+      return new ethers.Wallet(
+        configuredPrivateKey,
+        WalletHelper.getRPCProvider(),
+      );
+    }
+
     let privateKey = CacheManager.getValueInSharedCache(
       CacheManager.KEY_DEMO_DVN_OWNER_PRIVATE_KEY,
     );
@@ -81,6 +176,93 @@ export class WalletHelper {
     return ethers.computeAddress(wallet.signingKey.compressedPublicKey);
   }
 
+  /**
+   * Reuses the demo DVN owned by the DVN owner, or registers a new one
+   *
+   * The DVNCoordinator is looked for, in this order, in the configuration, in the shared cache and in the
+   * DVNRegistered events of the DVNRegistry. A candidate is reused only if the DVNRegistry knows it as a
+   * DVNCoordinator and if it is owned by the DVN owner
+   *
+   * @param forceNewDVN Whether to register a new DVN even if an existing one is found
+   * @returns {Promise<{ dvnCoordinator: string; dvnOwner: Wallet; created: boolean }>} A promise that resolves with the DVNCoordinator address, the DVN owner wallet and whether the DVN was just registered
+   */
+  static async bootstrapDemoDVN(forceNewDVN: boolean = false): Promise<{
+    dvnCoordinator: string;
+    dvnOwner: Wallet;
+    created: boolean;
+  }> {
+    return new Promise<{
+      dvnCoordinator: string;
+      dvnOwner: Wallet;
+      created: boolean;
+    }>(async (resolve, reject) => {
+      try {
+        const dvnOwner = WalletHelper.getDVNOwnerWallet();
+
+        const dvnCoordinator = forceNewDVN
+          ? undefined
+          : await WalletHelper.findDemoDVN(dvnOwner);
+
+        if (dvnCoordinator != null) {
+          await CacheManager.writeValueInSharedCache(
+            CacheManager.KEY_DEMO_DVN_COORDINATOR,
+            dvnCoordinator,
+          );
+
+          return resolve({ dvnCoordinator, dvnOwner, created: false });
+        }
+
+        resolve({ ...(await WalletHelper.registerDemoDVN()), created: true });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Finds the DVNCoordinator of a DVN owned by the given wallet
+   *
+   * @param dvnOwner The wallet of the DVN owner
+   * @returns A promise that resolves to the DVNCoordinator address, or undefined if no DVN owned by the wallet is found
+   */
+  static async findDemoDVN(dvnOwner: Wallet): Promise<string | undefined> {
+    const owner = WalletHelper.derivePublicKeyFromWallet(dvnOwner);
+
+    const candidates = [
+      ConfigHelper.getDVNCoordinatorAddress(),
+      CacheManager.getValueInSharedCache(CacheManager.KEY_DEMO_DVN_COORDINATOR),
+    ].filter((candidate) => candidate != null) as string[];
+
+    for (const candidate of candidates) {
+      if (await WalletHelper.isDVNCoordinatorOwnedBy(candidate, owner)) {
+        return candidate;
+      }
+    }
+
+    // look for the most recent DVN registered for the owner
+    const registry = await WalletHelper.getDVNRegistryContract(dvnOwner);
+    const latestBlock = await WalletHelper.getRPCProvider().getBlockNumber();
+
+    const events = await registry.queryFilter(
+      registry.filters.DVNRegistered(),
+      Math.max(0, latestBlock - ConfigHelper.getDVNDiscoveryBlockRange()),
+      latestBlock,
+    );
+
+    for (const event of events.reverse()) {
+      const [dvnContract, dvnOwnerAddress] = (event as EventLog).args;
+
+      if (
+        dvnOwnerAddress === owner &&
+        (await WalletHelper.isDVNCoordinatorOwnedBy(dvnContract, owner))
+      ) {
+        return dvnContract;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Funds the specified address with a predefined amount of ether
    *
@@ -98,6 +280,55 @@ export class WalletHelper {
     await WalletHelper.getRPCProvider().getBalance(recipient);
   }
 
+  /**
+   * Loads the wallet of the operator owner, creating it at first start
+   *
+   * The private key is read from the 'OPERATOR_PRIVATE_KEY' configuration if set, otherwise from
+   * an encrypted JSON keystore, one per operator instance by default. When the keystore does not
+   * exist yet, a new wallet is generated and stored in it, so the operator keeps its identity across restarts
+   *
+   * @returns A promise that resolves to the wallet of the operator owner, connected to the RPC provider
+   */
+  static async loadOrCreateOperatorOwnerWallet(): Promise<Wallet> {
+    return new Promise<Wallet>(async (resolve, reject) => {
+      try {
+        const privateKey = ConfigHelper.getOperatorPrivateKey();
+
+        if (privateKey != null) {
+          return resolve(
+            new ethers.Wallet(privateKey, WalletHelper.getRPCProvider()),
+          );
+        }
+
+        const keystorePath =
+          ConfigHelper.getOperatorKeystorePath() ??
+          `${CacheManager.getCacheDir()}/operator-${ConfigHelper.getAppInstance()}.keystore.json`;
+        const password = ConfigHelper.getOperatorKeystorePassword();
+
+        if (fs.existsSync(keystorePath)) {
+          const wallet = await ethers.Wallet.fromEncryptedJson(
+            fs.readFileSync(keystorePath, "utf-8"),
+            password,
+          );
+
+          return resolve(
+            new ethers.Wallet(wallet.privateKey, WalletHelper.getRPCProvider()),
+          );
+        }
+
+        const wallet = WalletHelper.generateWallet();
+
+        fs.writeFileSync(keystorePath, await wallet.encrypt(password), {
+          mode: 0o600,
+        });
+
+        resolve(wallet);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Generates a new wallet using a random private key and returns it
    *
@@ -127,6 +358,8 @@ export class WalletHelper {
       reject("The transaction likely will fail (gas estimation issue).");
     } else if (error.error?.message) {
       reject("Revert reason:", error.error.message); // Contract revert reason
+    } else {
+      reject(error);
     }
   }
 
@@ -179,6 +412,51 @@ export class WalletHelper {
     });
   }
 
+  /**
+   * Retrieves the DelegationManager contract instance using the provided signer
+   *
+   * @param signer The wallet signer to interact with the contract
+   * @returns A promise that resolves to the DelegationManager contract instance
+   */
+  static getDelegationManagerContract(signer: Wallet): Promise<Contract> {
+    return new Promise<Contract>(async (resolve, reject) => {
+      const address =
+        await WalletHelper.getKernelConfigContract(
+          signer,
+        ).getDelegationManager();
+
+      resolve(new ethers.Contract(address, DelegationManagerAbi, signer));
+    });
+  }
+
+  /**
+   * Retrieves the stake delegated to an operator at a given block
+   *
+   * @param operatorId The ID of the operator
+   * @param blockNumber The number of the block at which the stake is read
+   * @returns A promise that resolves to the stake delegated to the operator
+   */
+  static async getOperatorStake(
+    operatorId: number,
+    blockNumber: number,
+  ): Promise<bigint> {
+    return new Promise<bigint>(async (resolve, reject) => {
+      const contract = await WalletHelper.getDelegationManagerContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        const stake: bigint = await contract.getOperatorStake(operatorId, {
+          blockTag: blockNumber,
+        });
+
+        resolve(stake);
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
   /**
    * Retrieves the KernelConfig contract instance using the provided signer
    *
@@ -226,6 +504,56 @@ export class WalletHelper {
     });
   }
 
+  /**
+   * Retrieves the reward address of an operator in the Operator Registry
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the reward address, the zero address if it was never set
+   */
+  static async getOperatorRewardAddress(operatorId: number): Promise<string> {
+    return new Promise<string>(async (resolve, reject) => {
+      const contract = await WalletHelper.getOperatorRegistryContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        resolve(await contract.getOperatorRewardAddress(operatorId));
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
+  /**
+   * Retrieves the ID of the operator owned by the given address in the Operator Registry
+   *
+   * @param owner The address of the operator owner
+   * @returns A promise that resolves to the operator ID, or undefined if the address does not own any operator
+   */
+  static async getOperatorOwnedBy(owner: string): Promise<number | undefined> {
+    return new Promise<number | undefined>(async (resolve, reject) => {
+      const contract = await WalletHelper.getOperatorRegistryContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        const operatorId = Number(await contract.ownerToOperator(owner));
+
+        // the mapping returns 0 for unknown owners
+        if (
+          !(await contract.isOperatorRegistered(operatorId)) ||
+          (await contract.getOperatorOwner(operatorId)) !== owner
+        ) {
+          return resolve(undefined);
+        }
+
+        resolve(operatorId);
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
   /**
    * Retrieves the Operator Registry contract instance using the provided signer
    *
@@ -243,6 +571,23 @@ export class WalletHelper {
     });
   }
 
+  /**
+   * Retrieves the result verifier contract instance using the provided signer
+   *
+   * @param signer The wallet signer to interact with the contract
+   * @returns The result verifier contract instance
+   * @throws Will throw an error if the result verifier address is not configured
+   */
+  static getResultVerifierContract(signer: Wallet): Contract {
+    const address = ConfigHelper.getResultVerifierAddress();
+
+    if (address == null) {
+      throw new Error("RESULT_VERIFIER_ADDRESS is not configured");
+    }
+
+    return new ethers.Contract(address, ResultVerifierAbi, signer);
+  }
+
   /**
    * Retrieves an instance of JsonRpcProvider using the RPC provider URL from the configuration
    *
@@ -285,6 +630,186 @@ export class WalletHelper {
     return parsedLog;
   }
 
+  /**
+   * Checks if an address is a DVNCoordinator known by the DVNRegistry and owned by the given address
+   *
+   * @param dvnCoordinator The address of the DVNCoordinator
+   * @param owner The address of the expected owner
+   * @returns A promise that resolves to true if the DVNCoordinator can be reused by the owner
+   */
+  static async isDVNCoordinatorOwnedBy(
+    dvnCoordinator: string,
+    owner: string,
+  ): Promise<boolean> {
+    const signer = WalletHelper.getDVNOwnerWallet();
+    const registry = await WalletHelper.getDVNRegistryContract(signer);
+
+    if (!(await registry.isDVNCoordinator(dvnCoordinator))) {
+      return false;
+    }
+
+    const contract = new ethers.Contract(
+      dvnCoordinator,
+      DVNCoordinatorAbi,
+      signer,
+    );
+
+    return (await contract.owner()) === owner;
+  }
+
+  /**
+   * Retrieves the IDs of the operators with a pending registration request to the demo DVN
+   *
+   * @returns A promise that resolves to the IDs of the operators
+   */
+  static async getOperatorsWithRegistrationRequest(): Promise<number[]> {
+    return new Promise<number[]>(async (resolve, reject) => {
+      const contract = WalletHelper.getDemoDVNCoordinatorContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        const operatorIds: bigint[] =
+          await contract.getOperatorsWithRegistrationRequest();
+
+        resolve(operatorIds.map((operatorId) => Number(operatorId)));
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
+  /**
+   * Retrieves the IDs of the operators registered to the demo DVN
+   *
+   * @returns A promise that resolves to the IDs of the operators
+   */
+  static async getDVNOperators(): Promise<number[]> {
+    return new Promise<number[]>(async (resolve, reject) => {
+      const contract = WalletHelper.getDemoDVNCoordinatorContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        const operatorIds: bigint[] = await contract.getOperators();
+
+        resolve(operatorIds.map((operatorId) => Number(operatorId)));
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
+  /**
+   * Retrieves the datetime of the pending registration request of an operator to the demo DVN
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the datetime of the request in milliseconds, or null if there is no pending request
+   */
+  static async getOperatorRegistrationRequestedAt(
+    operatorId: number,
+  ): Promise<number | null> {
+    return new Promise<number | null>(async (resolve, reject) => {
+      const contract = WalletHelper.getDemoDVNCoordinatorContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        const request =
+          await contract.getOperatorRegistrationRequest(operatorId);
+
+        resolve(
+          request.createdAt > 0n ? Number(request.createdAt) * 1000 : null,
+        );
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
+  /**
+   * Retrieves the owner and the metadata URI of the demo DVN
+   *
+   * @returns A promise that resolves to the owner address and the metadata URI of the DVNCoordinator
+   */
+  static async getDemoDVNInfo(): Promise<{
+    owner: string;
+    metadataURI: string;
+  }> {
+    return new Promise<{ owner: string; metadataURI: string }>(
+      async (resolve, reject) => {
+        const contract = WalletHelper.getDemoDVNCoordinatorContract(
+          WalletHelper.getDVNOwnerWallet(),
+        );
+
+        try {
+          resolve({
+            owner: await contract.owner(),
+            metadataURI: await contract.metadataURI(),
+          });
+        } catch (error) {
+          WalletHelper.handleTransactionException(error, reject);
+        }
+      },
+    );
+  }
+
+  /**
+   * Retrieves the number of operators registered to the demo DVN
+   *
+   * @returns A promise that resolves to the number of operators
+   */
+  static async getDVNOperatorCount(): Promise<number> {
+    return new Promise<number>(async (resolve, reject) => {
+      const contract = WalletHelper.getDemoDVNCoordinatorContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        resolve(Number(await contract.getOperatorCount()));
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
+  /**
+   * Retrieves the metadata URI of an operator from the Operator Registry
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the metadata URI, empty if the operator did not set one
+   */
+  static async getOperatorMetadataURI(operatorId: number): Promise<string> {
+    return new Promise<string>(async (resolve, reject) => {
+      const contract = await WalletHelper.getOperatorRegistryContract(
+        WalletHelper.getDVNOwnerWallet(),
+      );
+
+      try {
+        const operator = await contract.operators(operatorId);
+
+        resolve(operator.metadataURI);
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      }
+    });
+  }
+
+  /**
+   * Checks if an operator has a pending registration request to the demo DVN
+   *
+   * @param operatorId The ID of the operator to check
+   * @returns A promise that resolves to a boolean indicating whether the operator requested its registration
+   */
+  static async hasOperatorRegistrationRequest(
+    operatorId: number,
+  ): Promise<boolean> {
+    return (
+      (await WalletHelper.getOperatorRegistrationRequestedAt(operatorId)) !=
+      null
+    );
+  }
+
   /**
    * Checks if an operator is registered to DVN
    *
@@ -391,40 +916,115 @@ export class WalletHelper {
   }
 
   /**
-   * Registers an operator to the demo DVN
+   * Requests the registration of an operator to the demo DVN, reusing the existing registrations of the operator owner
    *
-   * This function performs the following steps:
+   * This function performs the following steps, each one being skipped if already done:
    * 1. Registers the operator to the Kernel
-   * 2. Registers the operator to the demo DVN
-   * 3. Accepts the operator registration by the demo DVN
+   * 2. Requests the registration of the operator to the demo DVN
+   *
+   * The request is then accepted or rejected by the admission policy of the Task Aggregator,
+   * see `waitForOperatorAdmission`
    *
    * @param operatorOwner The wallet of the operator owner
-   * @returns A promise that resolves to the operator ID if the registration is successful
+   * @returns A promise that resolves to the operator ID once registered or once the registration is requested
    */
   static async registerOperatorToDemoDVN(
     operatorOwner: Wallet,
   ): Promise<number> {
     return new Promise<number>(async (resolve, reject) => {
-      // register Operator to Kernel
-      WalletHelper.registerOperatorToKernel(operatorOwner).then(
-        async (operatorId) => {
-          // register Operator to the demo DVN
-          WalletHelper.requestRegisterOperatorToDVN(operatorOwner, operatorId)
-            .then(() => {
-              // accept Operator registration by the demo DVN
-              WalletHelper.acceptOperatorRegistrationByDemoDVN(operatorId)
-                .then(() => {
-                  resolve(operatorId);
-                })
-                .catch((error) => {
-                  reject(error);
-                });
-            })
-            .catch((error) => {
-              reject(error);
-            });
-        },
-      );
+      try {
+        const owner = WalletHelper.derivePublicKeyFromWallet(operatorOwner);
+
+        // register Operator to Kernel
+        let operatorId = await WalletHelper.getOperatorOwnedBy(owner);
+
+        if (operatorId == null) {
+          operatorId =
+            await WalletHelper.registerOperatorToKernel(operatorOwner);
+        }
+
+        if (await WalletHelper.isOperatorRegisteredToDVN(operatorId)) {
+          return resolve(operatorId);
+        }
+
+        // request Operator registration to the demo DVN
+        if (!(await WalletHelper.hasOperatorRegistrationRequest(operatorId))) {
+          await WalletHelper.fundAddress(owner);
+          await WalletHelper.requestRegisterOperatorToDVN(
+            operatorOwner,
+            operatorId,
+          );
+        }
+
+        resolve(operatorId);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Waits until the registration request of an operator is handled by the demo DVN
+   *
+   * The request is considered rejected once the operator is neither registered nor requesting its registration
+   *
+   * @param operatorId The ID of the operator
+   * @param interval The interval between two checks (in milliseconds)
+   * @returns A promise that resolves when the operator is registered to the demo DVN
+   *
+   * @throws Will reject if the registration request is rejected or cancelled
+   */
+  static async waitForOperatorAdmission(
+    operatorId: number,
+    interval: number = 2000,
+  ): Promise<void> {
+    return new Promise<void>(async (resolve, reject) => {
+      try {
+        while (!(await WalletHelper.isOperatorRegisteredToDVN(operatorId))) {
+          if (
+            !(await WalletHelper.hasOperatorRegistrationRequest(operatorId))
+          ) {
+            return reject(
+              `Registration request of Operator #${operatorId} was rejected`,
+            );
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, interval));
+        }
+
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Submits a batch of task results to the result verifier contract, signed by the DVN owner
+   *
+   * The transaction is not awaited: its confirmations are tracked by the caller
+   *
+   * @param results The task results
+   * @returns A promise that resolves to the hash of the transaction
+   *
+   * @throws Will call `handleTransactionException` if the transaction cannot be sent
+   */
+  static async submitTaskResults(results: TaskResult[]): Promise<string> {
+    return new Promise<string>(async (resolve, reject) => {
+      const signer: Wallet = WalletHelper.getDVNOwnerWallet();
+
+      await CacheManager.acquireTransactionLock(signer);
+
+      try {
+        const contract = WalletHelper.getResultVerifierContract(signer);
+        const tx = await contract.submitTaskResults(results);
+
+        resolve(tx.hash);
+      } catch (error) {
+        WalletHelper.handleTransactionException(error, reject);
+      } finally {
+        CacheManager.releaseTransactionLock(signer);
+      }
     });
   }
 
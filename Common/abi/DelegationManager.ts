@@ -0,0 +1,21 @@
+export default [
+  {
+    type: "function",
+    name: "getOperatorStake",
+    inputs: [
+      {
+        name: "operatorId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+] as const;
@@ -0,0 +1,90 @@
+export default [
+  {
+    type: "function",
+    name: "submitTaskResults",
+    inputs: [
+      {
+        name: "results",
+        type: "tuple[]",
+        internalType: "struct IResultVerifier.TaskResult[]",
+        components: [
+          {
+            name: "taskId",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "taskType",
+            type: "string",
+            internalType: "string",
+          },
+          {
+            name: "inputHash",
+            type: "bytes32",
+            internalType: "bytes32",
+          },
+          {
+            name: "response",
+            type: "string",
+            internalType: "string",
+          },
+          {
+            name: "operatorIds",
+            type: "uint256[]",
+            internalType: "uint256[]",
+          },
+          {
+            name: "signatureVersions",
+            type: "uint8[]",
+            internalType: "uint8[]",
+          },
+          {
+            name: "signatures",
+            type: "bytes[]",
+            internalType: "bytes[]",
+          },
+        ],
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "isTaskResultSubmitted",
+    inputs: [
+      {
+        name: "taskId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "event",
+    name: "TaskResultSubmitted",
+    inputs: [
+      {
+        name: "taskId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "response",
+        type: "string",
+        indexed: false,
+        internalType: "string",
+      },
+    ],
+    anonymous: false,
+  },
+] as const;
@@ -0,0 +1,28 @@
+/**
+ * Represents a numbered change of the database schema, written for each supported storage backend
+ *
+ * Migrations are applied in order of version, each in its own transaction, and the applied versions are
+ * recorded in the 'schema_version' table. Once released, a migration must not be edited: a new migration
+ * must be added instead, so that existing databases are upgraded without being wiped
+ */
+export interface DatabaseMigration {
+  /**
+   * The version reached once the migration is applied, greater than the version of the previous migration
+   */
+  version: number;
+
+  /**
+   * A short description of the change
+   */
+  description: string;
+
+  /**
+   * The SQLite statements applying the change, separated by semicolons
+   */
+  sqlite: string;
+
+  /**
+   * The PostgreSQL statements applying the same change, separated by semicolons
+   */
+  postgres: string;
+}
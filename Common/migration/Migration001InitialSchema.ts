@@ -0,0 +1,346 @@
+import { type DatabaseMigration } from "./DatabaseMigration";
+
+/**
+ * Creates the schema of the Task Aggregator database, as created by DatabaseManager.resetDatabase before
+ * the migrations were introduced
+ *
+ * The PostgreSQL schema quotes the camelCase identifiers, so that the columns keep the names read by the models
+ */
+export const Migration001InitialSchema: DatabaseMigration = {
+  version: 1,
+  description: "Initial schema",
+  sqlite: `
+    CREATE TABLE task (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL DEFAULT 'tsp',
+      status TEXT NOT NULL DEFAULT 'READY',
+      createdAt INTEGER NOT NULL,
+      expiresAt INTEGER NOT NULL,
+      input TEXT NOT NULL,
+      response TEXT NULL,
+      quorumType TEXT NOT NULL,
+      quorumCountThreshold INTEGER NOT NULL,
+      quorumContentThreshold INTEGER NOT NULL,
+      idempotencyKey TEXT NULL UNIQUE,
+      operatorsCount INTEGER NOT NULL DEFAULT 0,
+      snapshotBlock INTEGER NULL
+    );
+
+    CREATE TABLE task_operator (
+      task_id INTEGER NOT NULL,
+      operator_id INTEGER NOT NULL,
+      stake TEXT NULL,
+      active INTEGER NOT NULL DEFAULT 1,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE operator_liveness (
+      operator_id INTEGER PRIMARY KEY,
+      status TEXT NOT NULL,
+      firstSeenAt INTEGER NOT NULL,
+      lastPollAt INTEGER NULL,
+      lastResponseAt INTEGER NULL,
+      inactiveSince INTEGER NULL,
+      reason TEXT NULL,
+      updatedAt INTEGER NOT NULL
+    );
+
+    CREATE TABLE ejection_proposal (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      operator_id INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      inactiveSince INTEGER NOT NULL,
+      createdAt INTEGER NOT NULL,
+      resolvedAt INTEGER NULL,
+      resolution TEXT NULL
+    );
+
+    CREATE TABLE operator_task_outcome (
+      task_id INTEGER NOT NULL,
+      operator_id INTEGER NOT NULL,
+      outcome TEXT NOT NULL,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE slashing_evidence (
+      task_id INTEGER NOT NULL,
+      operator_id INTEGER NOT NULL,
+      chainId INTEGER NOT NULL,
+      dvnCoordinator TEXT NOT NULL,
+      taskType TEXT NOT NULL,
+      operatorOwner TEXT NOT NULL,
+      response TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      signatureVersion INTEGER NOT NULL,
+      finalResponse TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE reward_credit (
+      task_id INTEGER NOT NULL,
+      operator_id INTEGER NOT NULL,
+      epoch INTEGER NOT NULL,
+      amount TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE reward_epoch (
+      epoch INTEGER PRIMARY KEY,
+      startsAt INTEGER NOT NULL,
+      endsAt INTEGER NOT NULL,
+      merkleRoot TEXT NOT NULL,
+      totalAmount TEXT NOT NULL,
+      operatorsCount INTEGER NOT NULL,
+      createdAt INTEGER NOT NULL
+    );
+
+    CREATE TABLE reward_payout (
+      epoch INTEGER NOT NULL,
+      operator_id INTEGER NOT NULL,
+      rewardAddress TEXT NOT NULL,
+      amount TEXT NOT NULL,
+      PRIMARY KEY (epoch, operator_id),
+      FOREIGN KEY (epoch) REFERENCES reward_epoch(epoch)
+    );
+
+    CREATE TABLE task_response (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id INTEGER NOT NULL,
+      operator_id INTEGER NOT NULL,
+      response TEXT NOT NULL,
+      signature TEXT NOT NULL DEFAULT '',
+      signatureVersion INTEGER NOT NULL DEFAULT 1,
+      createdAt INTEGER NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id),
+      UNIQUE (task_id, operator_id)
+    );
+
+    CREATE TABLE task_certificate (
+      task_id INTEGER PRIMARY KEY,
+      certificate TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE task_publication (
+      task_id INTEGER PRIMARY KEY,
+      status TEXT NOT NULL,
+      txHash TEXT NULL,
+      blockNumber INTEGER NULL,
+      confirmations INTEGER NOT NULL DEFAULT 0,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      lastError TEXT NULL,
+      nextAttemptAt INTEGER NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE chain_index (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      dvnCoordinator TEXT NOT NULL
+    );
+
+    CREATE TABLE chain_block (
+      number INTEGER PRIMARY KEY,
+      hash TEXT NOT NULL
+    );
+
+    CREATE TABLE chain_event (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      blockNumber INTEGER NOT NULL,
+      blockHash TEXT NOT NULL,
+      logIndex INTEGER NOT NULL,
+      txHash TEXT NULL,
+      contract TEXT NOT NULL,
+      name TEXT NOT NULL,
+      operator_id INTEGER NULL,
+      value TEXT NULL
+    );
+
+    CREATE INDEX task_status_expiresAt ON task (status, expiresAt);
+    CREATE INDEX task_createdAt ON task (createdAt, id);
+    CREATE INDEX task_status_createdAt ON task (status, createdAt, id);
+    CREATE INDEX task_response_operator_id ON task_response (operator_id, task_id);
+    CREATE INDEX task_operator_operator_id ON task_operator (operator_id, task_id);
+    CREATE INDEX operator_task_outcome_operator_id ON operator_task_outcome (operator_id, outcome);
+    CREATE INDEX slashing_evidence_operator_id ON slashing_evidence (operator_id, task_id);
+    CREATE INDEX ejection_proposal_status ON ejection_proposal (status, operator_id);
+    CREATE INDEX reward_credit_epoch ON reward_credit (epoch, operator_id);
+    CREATE INDEX task_publication_status ON task_publication (status, nextAttemptAt);
+    CREATE INDEX chain_event_blockNumber ON chain_event (blockNumber, logIndex);
+  `,
+  postgres: `
+    CREATE TABLE task (
+      id BIGSERIAL PRIMARY KEY,
+      type TEXT NOT NULL DEFAULT 'tsp',
+      status TEXT NOT NULL DEFAULT 'READY',
+      "createdAt" BIGINT NOT NULL,
+      "expiresAt" BIGINT NOT NULL,
+      input TEXT NOT NULL,
+      response TEXT NULL,
+      "quorumType" TEXT NOT NULL,
+      "quorumCountThreshold" BIGINT NOT NULL,
+      "quorumContentThreshold" BIGINT NOT NULL,
+      "idempotencyKey" TEXT NULL UNIQUE,
+      "operatorsCount" BIGINT NOT NULL DEFAULT 0,
+      "snapshotBlock" BIGINT NULL
+    );
+
+    CREATE TABLE task_operator (
+      task_id BIGINT NOT NULL,
+      operator_id BIGINT NOT NULL,
+      stake TEXT NULL,
+      active BIGINT NOT NULL DEFAULT 1,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE operator_liveness (
+      operator_id BIGINT PRIMARY KEY,
+      status TEXT NOT NULL,
+      "firstSeenAt" BIGINT NOT NULL,
+      "lastPollAt" BIGINT NULL,
+      "lastResponseAt" BIGINT NULL,
+      "inactiveSince" BIGINT NULL,
+      reason TEXT NULL,
+      "updatedAt" BIGINT NOT NULL
+    );
+
+    CREATE TABLE ejection_proposal (
+      id BIGSERIAL PRIMARY KEY,
+      operator_id BIGINT NOT NULL,
+      status TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      "inactiveSince" BIGINT NOT NULL,
+      "createdAt" BIGINT NOT NULL,
+      "resolvedAt" BIGINT NULL,
+      resolution TEXT NULL
+    );
+
+    CREATE TABLE operator_task_outcome (
+      task_id BIGINT NOT NULL,
+      operator_id BIGINT NOT NULL,
+      outcome TEXT NOT NULL,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE slashing_evidence (
+      task_id BIGINT NOT NULL,
+      operator_id BIGINT NOT NULL,
+      "chainId" BIGINT NOT NULL,
+      "dvnCoordinator" TEXT NOT NULL,
+      "taskType" TEXT NOT NULL,
+      "operatorOwner" TEXT NOT NULL,
+      response TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      "signatureVersion" BIGINT NOT NULL,
+      "finalResponse" TEXT NOT NULL,
+      "createdAt" BIGINT NOT NULL,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE reward_credit (
+      task_id BIGINT NOT NULL,
+      operator_id BIGINT NOT NULL,
+      epoch BIGINT NOT NULL,
+      amount TEXT NOT NULL,
+      "createdAt" BIGINT NOT NULL,
+      PRIMARY KEY (task_id, operator_id),
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE reward_epoch (
+      epoch BIGINT PRIMARY KEY,
+      "startsAt" BIGINT NOT NULL,
+      "endsAt" BIGINT NOT NULL,
+      "merkleRoot" TEXT NOT NULL,
+      "totalAmount" TEXT NOT NULL,
+      "operatorsCount" BIGINT NOT NULL,
+      "createdAt" BIGINT NOT NULL
+    );
+
+    CREATE TABLE reward_payout (
+      epoch BIGINT NOT NULL,
+      operator_id BIGINT NOT NULL,
+      "rewardAddress" TEXT NOT NULL,
+      amount TEXT NOT NULL,
+      PRIMARY KEY (epoch, operator_id),
+      FOREIGN KEY (epoch) REFERENCES reward_epoch(epoch)
+    );
+
+    CREATE TABLE task_response (
+      id BIGSERIAL PRIMARY KEY,
+      task_id BIGINT NOT NULL,
+      operator_id BIGINT NOT NULL,
+      response TEXT NOT NULL,
+      signature TEXT NOT NULL DEFAULT '',
+      "signatureVersion" BIGINT NOT NULL DEFAULT 1,
+      "createdAt" BIGINT NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id),
+      UNIQUE (task_id, operator_id)
+    );
+
+    CREATE TABLE task_certificate (
+      task_id BIGINT PRIMARY KEY,
+      certificate TEXT NOT NULL,
+      "createdAt" BIGINT NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE task_publication (
+      task_id BIGINT PRIMARY KEY,
+      status TEXT NOT NULL,
+      "txHash" TEXT NULL,
+      "blockNumber" BIGINT NULL,
+      confirmations BIGINT NOT NULL DEFAULT 0,
+      attempts BIGINT NOT NULL DEFAULT 0,
+      "lastError" TEXT NULL,
+      "nextAttemptAt" BIGINT NULL,
+      "updatedAt" BIGINT NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE TABLE chain_index (
+      id BIGINT PRIMARY KEY CHECK (id = 1),
+      "dvnCoordinator" TEXT NOT NULL
+    );
+
+    CREATE TABLE chain_block (
+      number BIGINT PRIMARY KEY,
+      hash TEXT NOT NULL
+    );
+
+    CREATE TABLE chain_event (
+      id BIGSERIAL PRIMARY KEY,
+      "blockNumber" BIGINT NOT NULL,
+      "blockHash" TEXT NOT NULL,
+      "logIndex" BIGINT NOT NULL,
+      "txHash" TEXT NULL,
+      contract TEXT NOT NULL,
+      name TEXT NOT NULL,
+      operator_id BIGINT NULL,
+      value TEXT NULL
+    );
+
+    CREATE INDEX task_status_expiresAt ON task (status, "expiresAt");
+    CREATE INDEX task_createdAt ON task ("createdAt", id);
+    CREATE INDEX task_status_createdAt ON task (status, "createdAt", id);
+    CREATE INDEX task_response_operator_id ON task_response (operator_id, task_id);
+    CREATE INDEX task_operator_operator_id ON task_operator (operator_id, task_id);
+    CREATE INDEX operator_task_outcome_operator_id ON operator_task_outcome (operator_id, outcome);
+    CREATE INDEX slashing_evidence_operator_id ON slashing_evidence (operator_id, task_id);
+    CREATE INDEX ejection_proposal_status ON ejection_proposal (status, operator_id);
+    CREATE INDEX reward_credit_epoch ON reward_credit (epoch, operator_id);
+    CREATE INDEX task_publication_status ON task_publication (status, "nextAttemptAt");
+    CREATE INDEX chain_event_blockNumber ON chain_event ("blockNumber", "logIndex");
+  `,
+};
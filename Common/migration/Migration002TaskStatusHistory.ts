@@ -0,0 +1,45 @@
+import { type DatabaseMigration } from "./DatabaseMigration";
+
+/**
+ * Creates the 'task_status_history' table, recording each status transition of the tasks, see TaskStateMachine
+ *
+ * The history of the existing tasks starts with their current status
+ */
+export const Migration002TaskStatusHistory: DatabaseMigration = {
+  version: 2,
+  description: "Task status history",
+  sqlite: `
+    CREATE TABLE task_status_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id INTEGER NOT NULL,
+      fromStatus TEXT NULL,
+      toStatus TEXT NOT NULL,
+      triggeredBy TEXT NOT NULL,
+      operator_id INTEGER NULL,
+      createdAt INTEGER NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE INDEX task_status_history_task_id ON task_status_history (task_id, id);
+
+    INSERT INTO task_status_history (task_id, fromStatus, toStatus, triggeredBy, createdAt)
+      SELECT id, NULL, status, 'MIGRATION', createdAt FROM task;
+  `,
+  postgres: `
+    CREATE TABLE task_status_history (
+      id BIGSERIAL PRIMARY KEY,
+      task_id BIGINT NOT NULL,
+      "fromStatus" TEXT NULL,
+      "toStatus" TEXT NOT NULL,
+      "triggeredBy" TEXT NOT NULL,
+      operator_id BIGINT NULL,
+      "createdAt" BIGINT NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES task(id)
+    );
+
+    CREATE INDEX task_status_history_task_id ON task_status_history (task_id, id);
+
+    INSERT INTO task_status_history (task_id, "fromStatus", "toStatus", "triggeredBy", "createdAt")
+      SELECT id, NULL, status, 'MIGRATION', "createdAt" FROM task;
+  `,
+};
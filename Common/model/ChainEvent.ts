@@ -0,0 +1,106 @@
+/**
+ * Represents an event of the DVN or of the Operator Registry indexed from the chain
+ *
+ * Snapshot events are not emitted by the contracts: they record the state read from the contracts
+ * when no event covers it, eg. when the indexer starts after the registration of the operators
+ */
+export class ChainEvent {
+  /**
+   * The registration request of an operator was accepted by the DVN
+   */
+  public static readonly OPERATOR_REGISTRATION_ACCEPTED =
+    "OperatorRegistrationRequestAccepted";
+
+  /**
+   * The registration request of an operator was rejected by the DVN
+   */
+  public static readonly OPERATOR_REGISTRATION_REJECTED =
+    "OperatorRegistrationRequestRejected";
+
+  /**
+   * The metadata URI of the DVN was updated
+   */
+  public static readonly DVN_METADATA_URI_UPDATED = "DVNMetadataURIUpdated";
+
+  /**
+   * An operator was registered to the Operator Registry, with its first owner
+   */
+  public static readonly OPERATOR_REGISTERED = "OperatorRegistered";
+
+  /**
+   * The owner of an operator was updated
+   */
+  public static readonly OPERATOR_OWNER_UPDATED = "OperatorOwnerUpdated";
+
+  /**
+   * The reward address of an operator was updated
+   */
+  public static readonly OPERATOR_REWARD_ADDRESS_UPDATED =
+    "OperatorRewardAddressUpdated";
+
+  /**
+   * Log index of the snapshot events, which are ordered before the logs of their block
+   */
+  public static readonly SNAPSHOT_LOG_INDEX = -1;
+
+  /**
+   * The number of the block including the event
+   */
+  blockNumber: number;
+
+  /**
+   * The hash of the block including the event
+   */
+  blockHash: string;
+
+  /**
+   * The index of the log in the block, or SNAPSHOT_LOG_INDEX for a snapshot event
+   */
+  logIndex: number;
+
+  /**
+   * The hash of the transaction emitting the event, or null for a snapshot event
+   */
+  txHash: string | null;
+
+  /**
+   * The address of the contract emitting the event
+   */
+  contract: string;
+
+  /**
+   * The name of the event, see ChainEvent.*
+   */
+  name: string;
+
+  /**
+   * The ID of the operator the event is about, or null for the DVN events
+   */
+  operatorId: number | null;
+
+  /**
+   * The value set by the event: an address or a metadata URI
+   */
+  value: string | null;
+
+  /**
+   * Creates an instance of ChainEvent from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of ChainEvent
+   */
+  static buildFromDatabase(serialized: any): ChainEvent {
+    const event = new ChainEvent();
+
+    event.blockNumber = serialized.blockNumber;
+    event.blockHash = serialized.blockHash;
+    event.logIndex = serialized.logIndex;
+    event.txHash = serialized.txHash;
+    event.contract = serialized.contract;
+    event.name = serialized.name;
+    event.operatorId = serialized.operator_id;
+    event.value = serialized.value;
+
+    return event;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Represents a proposal to remove an inactive operator from the DVN, kept as an audit trail of the ejections
+ *
+ * The proposal is made by the liveness monitor for the DVN owner, who removes the operator on-chain.
+ * It is closed once the operator is no longer registered, once it becomes active again, or when dismissed by an admin
+ */
+export class EjectionProposal {
+  /**
+   * The ejection is proposed and waiting for the DVN owner
+   */
+  public static readonly STATUS_PROPOSED = "PROPOSED";
+
+  /**
+   * The operator was removed from the DVN
+   */
+  public static readonly STATUS_EJECTED = "EJECTED";
+
+  /**
+   * The operator became active again before being removed
+   */
+  public static readonly STATUS_WITHDRAWN = "WITHDRAWN";
+
+  /**
+   * The ejection was dismissed by an admin
+   */
+  public static readonly STATUS_DISMISSED = "DISMISSED";
+
+  /**
+   * The unique identifier of the proposal
+   */
+  id: number;
+
+  /**
+   * The ID of the operator proposed for ejection
+   */
+  operatorId: number;
+
+  /**
+   * The status of the proposal
+   */
+  status: string;
+
+  /**
+   * The reason why the operator is inactive
+   */
+  reason: string;
+
+  /**
+   * The timestamp at which the operator became inactive (in milliseconds)
+   */
+  inactiveSince: number;
+
+  /**
+   * The timestamp of the proposal (in milliseconds)
+   */
+  createdAt: number;
+
+  /**
+   * The timestamp at which the proposal was closed (in milliseconds), or null if it is still proposed
+   */
+  resolvedAt: number | null;
+
+  /**
+   * How the proposal was closed, or null if it is still proposed
+   */
+  resolution: string | null;
+
+  /**
+   * Creates an instance of EjectionProposal from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of EjectionProposal
+   */
+  static buildFromDatabase(serialized: any): EjectionProposal {
+    const proposal = new EjectionProposal();
+
+    proposal.id = serialized.id;
+    proposal.operatorId = serialized.operator_id;
+    proposal.status = serialized.status;
+    proposal.reason = serialized.reason;
+    proposal.inactiveSince = serialized.inactiveSince;
+    proposal.createdAt = serialized.createdAt;
+    proposal.resolvedAt = serialized.resolvedAt;
+    proposal.resolution = serialized.resolution;
+
+    return proposal;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Represents the liveness of an operator registered to the DVN, as tracked by the Task Aggregator
+ */
+export class OperatorLiveness {
+  /**
+   * The operator polls for tasks and answers them, it counts in the quorum of the new tasks
+   */
+  public static readonly STATUS_ACTIVE = "ACTIVE";
+
+  /**
+   * The operator stopped polling for tasks or answering them, it does not count in the quorum of the new tasks
+   */
+  public static readonly STATUS_INACTIVE = "INACTIVE";
+
+  /**
+   * The unique identifier of the operator
+   */
+  operatorId: number;
+
+  /**
+   * The liveness status of the operator
+   */
+  status: string;
+
+  /**
+   * The timestamp at which the operator was first tracked (in milliseconds)
+   */
+  firstSeenAt: number;
+
+  /**
+   * The timestamp of the last poll for tasks of the operator (in milliseconds)
+   */
+  lastPollAt: number | null;
+
+  /**
+   * The timestamp of the last response of the operator (in milliseconds)
+   */
+  lastResponseAt: number | null;
+
+  /**
+   * The timestamp at which the operator became inactive (in milliseconds), or null if it is active
+   */
+  inactiveSince: number | null;
+
+  /**
+   * The reason why the operator is inactive, or null if it is active
+   */
+  reason: string | null;
+
+  /**
+   * The timestamp of the last update of the status (in milliseconds)
+   */
+  updatedAt: number;
+
+  /**
+   * Creates the liveness of an operator seen for the first time
+   *
+   * @param operatorId The ID of the operator
+   * @param now The current datetime in milliseconds
+   * @returns A new instance of OperatorLiveness
+   */
+  static build(operatorId: number, now: number): OperatorLiveness {
+    const liveness = new OperatorLiveness();
+
+    liveness.operatorId = operatorId;
+    liveness.status = OperatorLiveness.STATUS_ACTIVE;
+    liveness.firstSeenAt = now;
+    liveness.lastPollAt = null;
+    liveness.lastResponseAt = null;
+    liveness.inactiveSince = null;
+    liveness.reason = null;
+    liveness.updatedAt = now;
+
+    return liveness;
+  }
+
+  /**
+   * Creates an instance of OperatorLiveness from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of OperatorLiveness
+   */
+  static buildFromDatabase(serialized: any): OperatorLiveness {
+    const liveness = new OperatorLiveness();
+
+    liveness.operatorId = serialized.operator_id;
+    liveness.status = serialized.status;
+    liveness.firstSeenAt = serialized.firstSeenAt;
+    liveness.lastPollAt = serialized.lastPollAt;
+    liveness.lastResponseAt = serialized.lastResponseAt;
+    liveness.inactiveSince = serialized.inactiveSince;
+    liveness.reason = serialized.reason;
+    liveness.updatedAt = serialized.updatedAt;
+
+    return liveness;
+  }
+
+  /**
+   * Checks if the operator is inactive
+   *
+   * @returns True if the operator is inactive
+   */
+  isInactive(): boolean {
+    return this.status === OperatorLiveness.STATUS_INACTIVE;
+  }
+}
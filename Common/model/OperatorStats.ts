@@ -0,0 +1,103 @@
+/**
+ * Represents the reputation of an operator, aggregated from the outcomes of the finalized tasks it could answer
+ */
+export class OperatorStats {
+  /**
+   * The operator answered a task finalized without consensus
+   */
+  public static readonly OUTCOME_ANSWERED = "ANSWERED";
+
+  /**
+   * The response of the operator agreed with the final response of the task
+   */
+  public static readonly OUTCOME_AGREED = "AGREED";
+
+  /**
+   * The response of the operator disagreed with the final response of the task
+   */
+  public static readonly OUTCOME_DISAGREED = "DISAGREED";
+
+  /**
+   * The operator sent its response once the task stopped accepting responses
+   */
+  public static readonly OUTCOME_LATE = "LATE";
+
+  /**
+   * The operator never answered the task
+   */
+  public static readonly OUTCOME_MISSED = "MISSED";
+
+  /**
+   * The unique identifier of the operator
+   */
+  operatorId: number;
+
+  /**
+   * The number of finalized tasks the operator could answer
+   */
+  assigned: number;
+
+  /**
+   * The number of tasks answered in time
+   */
+  answered: number;
+
+  /**
+   * The number of tasks whose final response the operator agreed with
+   */
+  agreed: number;
+
+  /**
+   * The number of tasks whose final response the operator disagreed with
+   */
+  disagreed: number;
+
+  /**
+   * The number of tasks answered once they stopped accepting responses
+   */
+  late: number;
+
+  /**
+   * The number of tasks never answered
+   */
+  missed: number;
+
+  /**
+   * The share of the assigned tasks whose final response the operator agreed with, in bps
+   */
+  agreementBps: number;
+
+  /**
+   * Creates the stats of an operator without finalized tasks
+   *
+   * @param operatorId The ID of the operator
+   * @returns A new instance of OperatorStats
+   */
+  static build(operatorId: number): OperatorStats {
+    return OperatorStats.buildFromDatabase({ operator_id: operatorId });
+  }
+
+  /**
+   * Creates an instance of OperatorStats from an aggregated database row
+   *
+   * @param serialized The aggregated database row
+   * @returns A new instance of OperatorStats
+   */
+  static buildFromDatabase(serialized: any): OperatorStats {
+    const stats = new OperatorStats();
+
+    stats.operatorId = serialized.operator_id;
+    stats.assigned = serialized.assigned ?? 0;
+    stats.answered = serialized.answered ?? 0;
+    stats.agreed = serialized.agreed ?? 0;
+    stats.disagreed = serialized.disagreed ?? 0;
+    stats.late = serialized.late ?? 0;
+    stats.missed = serialized.missed ?? 0;
+    stats.agreementBps =
+      stats.assigned > 0
+        ? Math.floor((stats.agreed * 10000) / stats.assigned)
+        : 0;
+
+    return stats;
+  }
+}
@@ -0,0 +1,211 @@
+import { ConfigHelper } from "../ConfigHelper";
+
+/**
+ * Represents the quorum policy applied to decide if the responses to a Task reached consensus
+ *
+ * A policy has two thresholds:
+ * - the count threshold, defining how many responses must be received before looking for consensus
+ * - the content threshold, defining how many of the received responses must agree on the same content
+ *
+ * The type of the policy defines how the thresholds are interpreted
+ */
+export class QuorumPolicy {
+  /**
+   * Both thresholds are absolute numbers of responses
+   */
+  public static readonly TYPE_FIXED_COUNT = "FIXED_COUNT";
+
+  /**
+   * Both thresholds are in bps of the registered operators
+   */
+  public static readonly TYPE_OPERATORS_BPS = "OPERATORS_BPS";
+
+  /**
+   * The count threshold is in bps of the registered operators, the content threshold is in bps of the responders
+   */
+  public static readonly TYPE_RESPONDERS_BPS = "RESPONDERS_BPS";
+
+  /**
+   * Both thresholds are in bps of the stake delegated to the registered operators, read at the snapshot block of the task
+   */
+  public static readonly TYPE_STAKE_WEIGHTED = "STAKE_WEIGHTED";
+
+  /**
+   * All the supported policy types
+   */
+  public static readonly TYPES = [
+    QuorumPolicy.TYPE_FIXED_COUNT,
+    QuorumPolicy.TYPE_OPERATORS_BPS,
+    QuorumPolicy.TYPE_RESPONDERS_BPS,
+    QuorumPolicy.TYPE_STAKE_WEIGHTED,
+  ];
+
+  /**
+   * Type of the policy
+   */
+  type: string;
+
+  /**
+   * Threshold on the number of responses
+   */
+  countThreshold: number;
+
+  /**
+   * Threshold on the number of responses agreeing on the same content
+   */
+  contentThreshold: number;
+
+  /**
+   * Builds a QuorumPolicy instance, validating its parameters
+   *
+   * @param type The type of the policy
+   * @param countThreshold The threshold on the number of responses
+   * @param contentThreshold The threshold on the number of agreeing responses
+   * @returns A new QuorumPolicy instance
+   * @throws Will throw an error if the type is unknown or a threshold is out of range
+   */
+  static build(
+    type: string,
+    countThreshold: number,
+    contentThreshold: number,
+  ): QuorumPolicy {
+    if (!QuorumPolicy.TYPES.includes(type)) {
+      throw new Error(`Unknown quorum policy type "${type}"`);
+    }
+
+    [countThreshold, contentThreshold].forEach((threshold) => {
+      if (!Number.isInteger(threshold) || threshold < 1) {
+        throw new Error("Quorum thresholds must be positive integers");
+      }
+
+      if (type !== QuorumPolicy.TYPE_FIXED_COUNT && threshold > 10000) {
+        throw new Error("Quorum thresholds in bps cannot exceed 10000");
+      }
+    });
+
+    const policy = new QuorumPolicy();
+
+    policy.type = type;
+    policy.countThreshold = countThreshold;
+    policy.contentThreshold = contentThreshold;
+
+    return policy;
+  }
+
+  /**
+   * Builds the default QuorumPolicy from the configuration
+   *
+   * @returns A new QuorumPolicy instance
+   */
+  static buildDefault(): QuorumPolicy {
+    return QuorumPolicy.build(
+      ConfigHelper.getQuorumPolicyType(),
+      ConfigHelper.getQuorumCountThreshold(),
+      ConfigHelper.getQuorumContentThreshold(),
+    );
+  }
+
+  /**
+   * Builds a QuorumPolicy instance from a task database row
+   *
+   * @param serialized The database row containing the quorum columns
+   * @returns A new QuorumPolicy instance
+   */
+  static buildFromDatabase(serialized: any): QuorumPolicy {
+    const policy = new QuorumPolicy();
+
+    policy.type = serialized.quorumType;
+    policy.countThreshold = serialized.quorumCountThreshold;
+    policy.contentThreshold = serialized.quorumContentThreshold;
+
+    return policy;
+  }
+
+  /**
+   * Checks if the operators are weighted by their delegated stake rather than counted as one vote each
+   *
+   * @returns True if the thresholds apply to the stake of the operators
+   */
+  isStakeWeighted(): boolean {
+    return this.type === QuorumPolicy.TYPE_STAKE_WEIGHTED;
+  }
+
+  /**
+   * Computes the stake of the responders required before looking for consensus
+   *
+   * @param totalStake The stake of the operators who can answer the task
+   * @returns The required stake
+   */
+  getRequiredResponsesStake(totalStake: bigint): bigint {
+    return QuorumPolicy.applyBpsToStake(this.countThreshold, totalStake);
+  }
+
+  /**
+   * Computes the stake of the responders that must agree on the same content to reach consensus
+   *
+   * @param totalStake The stake of the operators who can answer the task
+   * @returns The required agreeing stake
+   */
+  getRequiredAgreeingResponsesStake(totalStake: bigint): bigint {
+    return QuorumPolicy.applyBpsToStake(this.contentThreshold, totalStake);
+  }
+
+  /**
+   * Computes the number of responses required before looking for consensus
+   *
+   * @param operatorsCount The number of operators who can answer the task
+   * @returns The number of required responses
+   */
+  getRequiredResponsesCount(operatorsCount: number): number {
+    if (this.type === QuorumPolicy.TYPE_FIXED_COUNT) {
+      return this.countThreshold;
+    }
+
+    return QuorumPolicy.applyBps(this.countThreshold, operatorsCount);
+  }
+
+  /**
+   * Computes the number of responses that must agree on the same content to reach consensus
+   *
+   * @param operatorsCount The number of operators who can answer the task
+   * @param responsesCount The number of received responses
+   * @returns The number of required agreeing responses
+   */
+  getRequiredAgreeingResponsesCount(
+    operatorsCount: number,
+    responsesCount: number,
+  ): number {
+    switch (this.type) {
+      case QuorumPolicy.TYPE_FIXED_COUNT:
+        return this.contentThreshold;
+      case QuorumPolicy.TYPE_OPERATORS_BPS:
+        return QuorumPolicy.applyBps(this.contentThreshold, operatorsCount);
+      default:
+        return QuorumPolicy.applyBps(this.contentThreshold, responsesCount);
+    }
+  }
+
+  /**
+   * Applies a threshold in bps to a total, rounding up and requiring at least one response
+   *
+   * @param bps The threshold in bps
+   * @param total The total the threshold applies to
+   * @returns The minimum number satisfying the threshold
+   */
+  private static applyBps(bps: number, total: number): number {
+    return Math.max(1, Math.ceil((bps * total) / 10000));
+  }
+
+  /**
+   * Applies a threshold in bps to a stake, rounding up and requiring a non-zero stake
+   *
+   * @param bps The threshold in bps
+   * @param totalStake The stake the threshold applies to
+   * @returns The minimum stake satisfying the threshold
+   */
+  private static applyBpsToStake(bps: number, totalStake: bigint): bigint {
+    const stake = (BigInt(bps) * totalStake + 9999n) / 10000n;
+
+    return stake > 0n ? stake : 1n;
+  }
+}
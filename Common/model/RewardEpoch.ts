@@ -0,0 +1,62 @@
+/**
+ * Represents the payout report of a closed reward epoch
+ *
+ * The Merkle root commits to the payouts of the epoch, so it can be set on an on-chain distributor
+ * from which each operator claims its payout with its Merkle proof
+ */
+export class RewardEpoch {
+  /**
+   * The number of the epoch, counted from the Unix epoch in durations of REWARD_EPOCH_DURATION
+   */
+  epoch: number;
+
+  /**
+   * The start of the epoch (in milliseconds, inclusive)
+   */
+  startsAt: number;
+
+  /**
+   * The end of the epoch (in milliseconds, exclusive)
+   */
+  endsAt: number;
+
+  /**
+   * The Merkle root of the payouts of the epoch
+   */
+  merkleRoot: string;
+
+  /**
+   * The sum of the payouts of the epoch, in the smallest unit of the reward token
+   */
+  totalAmount: string;
+
+  /**
+   * The number of operators paid in the epoch
+   */
+  operatorsCount: number;
+
+  /**
+   * The timestamp at which the epoch was closed (in milliseconds)
+   */
+  createdAt: number;
+
+  /**
+   * Creates an instance of RewardEpoch from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of RewardEpoch
+   */
+  static buildFromDatabase(serialized: any): RewardEpoch {
+    const epoch = new RewardEpoch();
+
+    epoch.epoch = serialized.epoch;
+    epoch.startsAt = serialized.startsAt;
+    epoch.endsAt = serialized.endsAt;
+    epoch.merkleRoot = serialized.merkleRoot;
+    epoch.totalAmount = serialized.totalAmount;
+    epoch.operatorsCount = serialized.operatorsCount;
+    epoch.createdAt = serialized.createdAt;
+
+    return epoch;
+  }
+}
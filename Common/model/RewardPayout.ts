@@ -0,0 +1,41 @@
+/**
+ * Represents the payout of an operator for a closed reward epoch, a leaf of the Merkle tree of the epoch
+ */
+export class RewardPayout {
+  /**
+   * The number of the epoch
+   */
+  epoch: number;
+
+  /**
+   * The unique identifier of the operator
+   */
+  operatorId: number;
+
+  /**
+   * The reward address of the operator in the Operator Registry when the epoch was closed
+   */
+  rewardAddress: string;
+
+  /**
+   * The sum of the rewards credited to the operator during the epoch, in the smallest unit of the reward token
+   */
+  amount: string;
+
+  /**
+   * Creates an instance of RewardPayout from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of RewardPayout
+   */
+  static buildFromDatabase(serialized: any): RewardPayout {
+    const payout = new RewardPayout();
+
+    payout.epoch = serialized.epoch;
+    payout.operatorId = serialized.operator_id;
+    payout.rewardAddress = serialized.rewardAddress;
+    payout.amount = serialized.amount;
+
+    return payout;
+  }
+}
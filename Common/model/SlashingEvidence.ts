@@ -0,0 +1,86 @@
+/**
+ * Represents the signed response of an operator disagreeing with the final response of a completed task
+ *
+ * The evidence is self-contained: the signature can be checked against the owner of the operator in the
+ * EIP-712 domain of the DVN, and the response compared with the final response attested by the certificate
+ */
+export class SlashingEvidence {
+  /**
+   * The ID of the chain the DVN is registered on
+   */
+  chainId: number;
+
+  /**
+   * The address of the DVNCoordinator contract, part of the signature domain
+   */
+  dvnCoordinator: string;
+
+  /**
+   * The unique identifier of the task
+   */
+  taskId: number;
+
+  /**
+   * The type of the task
+   */
+  taskType: string;
+
+  /**
+   * The unique identifier of the operator
+   */
+  operatorId: number;
+
+  /**
+   * The address of the owner of the operator when the task was completed
+   */
+  operatorOwner: string;
+
+  /**
+   * The response as sent and signed by the operator
+   */
+  response: string;
+
+  /**
+   * The signature of the response by the owner of the operator
+   */
+  signature: string;
+
+  /**
+   * The signing scheme of the signature, see OperatorHelper.SIGNATURE_VERSION_*
+   */
+  signatureVersion: number;
+
+  /**
+   * The final response of the task
+   */
+  finalResponse: string;
+
+  /**
+   * The creation timestamp of the evidence (in milliseconds)
+   */
+  createdAt: number;
+
+  /**
+   * Creates an instance of SlashingEvidence from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of SlashingEvidence
+   */
+  static buildFromDatabase(serialized: any): SlashingEvidence {
+    const evidence = new SlashingEvidence();
+
+    evidence.chainId = serialized.chainId;
+    evidence.dvnCoordinator = serialized.dvnCoordinator;
+    evidence.taskId = serialized.task_id;
+    evidence.taskType = serialized.taskType;
+    evidence.operatorId = serialized.operator_id;
+    evidence.operatorOwner = serialized.operatorOwner;
+    evidence.response = serialized.response;
+    evidence.signature = serialized.signature;
+    evidence.signatureVersion = serialized.signatureVersion;
+    evidence.finalResponse = serialized.finalResponse;
+    evidence.createdAt = serialized.createdAt;
+
+    return evidence;
+  }
+}
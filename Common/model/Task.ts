@@ -1,12 +1,56 @@
+import { QuorumPolicy } from "./QuorumPolicy";
+
+/**
+ * Represents the operators registered to the DVN when a task is created, who can answer the task
+ */
+export interface TaskOperatorSnapshot {
+  /**
+   * The number of the block at which the operators were read
+   */
+  blockNumber: number;
+
+  /**
+   * The IDs of the registered operators
+   */
+  operatorIds: number[];
+
+  /**
+   * The stake delegated to each operator at the snapshot block, indexed by operator ID, for the stake-weighted quorum
+   */
+  stakes?: Map<number, bigint>;
+
+  /**
+   * The IDs of the registered operators marked as inactive, who can answer the task but do not count in its quorum
+   */
+  inactiveOperatorIds?: number[];
+}
+
 /**
- * Represents a Task with an id, status, creation datetime, input, and optional response
+ * Represents a Task with an id, type, status, creation datetime, input, and optional response
+ *
+ * The statuses of a task and the transitions between them are defined by the TaskStateMachine
  */
 export class Task {
+  /**
+   * Status indicating the task is created and waiting for its operator snapshot
+   */
+  public static readonly STATUS_PENDING = "PENDING";
+
   /**
    * Status indicating the task is ready
    */
   public static readonly STATUS_READY = "READY";
 
+  /**
+   * Status indicating the task received responses, and keeps accepting responses until it is finalized
+   */
+  public static readonly STATUS_IN_PROGRESS = "IN_PROGRESS";
+
+  /**
+   * Status indicating the quorum of responses is reached and the responses are being aggregated
+   */
+  public static readonly STATUS_AGGREGATING = "AGGREGATING";
+
   /**
    * Status indicating the task is completed
    */
@@ -17,11 +61,31 @@ export class Task {
    */
   public static readonly STATUS_CONSENSUS_NOT_REACHED = "CONSENSUS_NOT_REACHED";
 
+  /**
+   * Status indicating the task reached its deadline without reaching the quorum
+   */
+  public static readonly STATUS_EXPIRED = "EXPIRED";
+
+  /**
+   * Status indicating the task was cancelled by an admin before being finalized
+   */
+  public static readonly STATUS_CANCELLED = "CANCELLED";
+
+  /**
+   * Status indicating the result of the completed task is confirmed on-chain
+   */
+  public static readonly STATUS_PUBLISHED = "PUBLISHED";
+
   /**
    * Unique identifier for the task
    */
   id: number;
 
+  /**
+   * Type of the task, resolved through the TaskTypeRegistry
+   */
+  type: string;
+
   /**
    * Current status of the task
    */
@@ -32,6 +96,11 @@ export class Task {
    */
   createdAt: number;
 
+  /**
+   * Deadline datetime in milliseconds, after which the task no longer accepts responses
+   */
+  expiresAt: number;
+
   /**
    * Input data for the task
    */
@@ -42,6 +111,36 @@ export class Task {
    */
   response: string | undefined;
 
+  /**
+   * Quorum policy applied to the responses of the task
+   */
+  quorumPolicy: QuorumPolicy;
+
+  /**
+   * Optional key identifying the request that created the task
+   */
+  idempotencyKey: string | undefined;
+
+  /**
+   * Number of active operators registered to the DVN when the task was created, against which the quorum is computed
+   */
+  operatorsCount: number;
+
+  /**
+   * Number of the block at which the operators who can answer the task were snapshotted
+   */
+  snapshotBlock: number;
+
+  /**
+   * Checks if the deadline of the task has passed
+   *
+   * @param now The current datetime in milliseconds
+   * @returns True if the task is expired, false otherwise
+   */
+  isExpired(now: number = Date.now()): boolean {
+    return this.expiresAt <= now;
+  }
+
   /**
    * Builds a Task instance from a serialized object
    *
@@ -52,8 +151,34 @@ export class Task {
     const task = new Task();
 
     task.id = serialized.id;
+    task.type = serialized.type;
+    task.createdAt = serialized.createdAt;
+    task.expiresAt = serialized.expiresAt;
+    task.input = serialized.input;
+
+    return task;
+  }
+
+  /**
+   * Builds a Task instance from a database row
+   *
+   * @param serialized The database row containing task data
+   * @returns A new Task instance
+   */
+  static buildFromDatabase(serialized: any): Task {
+    const task = new Task();
+
+    task.id = serialized.id;
+    task.type = serialized.type;
+    task.status = serialized.status;
     task.createdAt = serialized.createdAt;
+    task.expiresAt = serialized.expiresAt;
     task.input = serialized.input;
+    task.response = serialized.response ?? undefined;
+    task.quorumPolicy = QuorumPolicy.buildFromDatabase(serialized);
+    task.idempotencyKey = serialized.idempotencyKey ?? undefined;
+    task.operatorsCount = serialized.operatorsCount;
+    task.snapshotBlock = serialized.snapshotBlock;
 
     return task;
   }
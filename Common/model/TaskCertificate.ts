@@ -0,0 +1,197 @@
+import { type TypedDataDomain } from "ethers";
+import { QuorumPolicy } from "./QuorumPolicy";
+
+/**
+ * Represents the signature of a response agreeing with the final response of a task
+ */
+export interface TaskCertificateSignature {
+  /**
+   * The unique identifier of the operator who signed the response
+   */
+  operatorId: number;
+
+  /**
+   * The address of the owner of the operator when the task was completed
+   */
+  operatorOwner: string;
+
+  /**
+   * The response as sent and signed by the operator
+   */
+  response: string;
+
+  /**
+   * The signature of the response by the owner of the operator
+   */
+  signature: string;
+
+  /**
+   * The signing scheme of the signature, see OperatorHelper.SIGNATURE_VERSION_*
+   */
+  signatureVersion: number;
+}
+
+/**
+ * Represents what the signatures of the responses to a task are checked against, fetched before its responses are
+ * evaluated so that the certificate can be built while the task is locked, without any call to the chain
+ */
+export interface TaskCertificateSigners {
+  /**
+   * The EIP-712 domain of the DVN
+   */
+  domain: TypedDataDomain;
+
+  /**
+   * The address of the owner of each operator who can answer the task, indexed by operator ID
+   */
+  owners: Map<number, string>;
+}
+
+/**
+ * Represents what a certificate is verified against, obtained by the verifier independently of the certificate,
+ * eg. from a snapshot of the DVN at the snapshot block of the task
+ */
+export interface TaskCertificateTrust extends TaskCertificateSigners {
+  /**
+   * The quorum policy of the task
+   */
+  quorumPolicy: QuorumPolicy;
+
+  /**
+   * The number of operators counted in the quorum of the task
+   */
+  operatorsCount: number;
+
+  /**
+   * The stake of each operator counted in the quorum of the task, indexed by operator ID, for a stake-weighted quorum
+   */
+  stakes?: Map<number, bigint>;
+}
+
+/**
+ * Represents the attestation certificate of a completed task
+ *
+ * The certificate contains everything needed to verify offline that the operators agreeing on the final response
+ * signed their responses: each operator signed its own response, which agrees with the canonical final response
+ * according to the task type, and the number of signatures must reach the quorum of the task
+ */
+export class TaskCertificate {
+  /**
+   * Current version of the certificate format
+   */
+  public static readonly VERSION = 1;
+
+  /**
+   * Scheme of the certificate: a list of ECDSA signatures, one per agreeing operator
+   */
+  public static readonly SCHEME_ECDSA_MULTISIG = "ECDSA_MULTISIG";
+
+  /**
+   * Version of the certificate format
+   */
+  version: number;
+
+  /**
+   * Signature scheme of the certificate
+   */
+  scheme: string;
+
+  /**
+   * The ID of the chain the DVN is registered on
+   */
+  chainId: number;
+
+  /**
+   * The address of the DVNCoordinator contract of the DVN
+   */
+  dvnCoordinator: string;
+
+  /**
+   * The unique identifier of the task
+   */
+  taskId: number;
+
+  /**
+   * The type of the task
+   */
+  taskType: string;
+
+  /**
+   * The serialized input of the task
+   */
+  input: string;
+
+  /**
+   * The serialized canonical response the operators reached consensus on
+   */
+  response: string;
+
+  /**
+   * The tolerance, in bps, within which the score of a response agrees with the final one,
+   * or null if the task type compares responses by content
+   */
+  scoreToleranceBps: number | null;
+
+  /**
+   * The minimum number of agreeing signatures required by the quorum policy of the task
+   */
+  requiredSignaturesCount: number;
+
+  /**
+   * The signatures of the responses agreeing with the final response
+   */
+  signatures: TaskCertificateSignature[];
+
+  /**
+   * The timestamp when the certificate was created (in milliseconds)
+   */
+  createdAt: number;
+
+  /**
+   * Creates an instance of TaskCertificate from its serialized JSON form
+   *
+   * @param serialized The serialized certificate, either as a JSON string or as a parsed object
+   * @returns A new instance of TaskCertificate
+   */
+  static buildFromJSON(serialized: any): TaskCertificate {
+    if (typeof serialized === "string") {
+      serialized = JSON.parse(serialized);
+    }
+
+    const certificate = new TaskCertificate();
+
+    certificate.version = serialized.version;
+    certificate.scheme = serialized.scheme;
+    certificate.chainId = serialized.chainId;
+    certificate.dvnCoordinator = serialized.dvnCoordinator;
+    certificate.taskId = serialized.taskId;
+    certificate.taskType = serialized.taskType;
+    certificate.input = serialized.input;
+    certificate.response = serialized.response;
+    certificate.scoreToleranceBps = serialized.scoreToleranceBps ?? null;
+    certificate.requiredSignaturesCount = serialized.requiredSignaturesCount;
+    certificate.signatures = (serialized.signatures ?? []).map(
+      (signature: any) => ({
+        operatorId: signature.operatorId,
+        operatorOwner: signature.operatorOwner,
+        response: signature.response,
+        signature: signature.signature,
+        // certificates issued before typed data signatures only contain legacy signatures
+        signatureVersion: signature.signatureVersion ?? 1,
+      }),
+    );
+    certificate.createdAt = serialized.createdAt;
+
+    return certificate;
+  }
+
+  /**
+   * Creates an instance of TaskCertificate from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of TaskCertificate
+   */
+  static buildFromDatabase(serialized: any): TaskCertificate {
+    return TaskCertificate.buildFromJSON(serialized.certificate);
+  }
+}
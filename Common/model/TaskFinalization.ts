@@ -0,0 +1,50 @@
+import { type SlashingEvidence } from "./SlashingEvidence";
+import { type TaskCertificate } from "./TaskCertificate";
+import { type TaskResponse } from "./TaskResponse";
+
+/**
+ * Represents the transition of a ready task to its final status, decided by the evaluation of its responses
+ */
+export interface TaskFinalization {
+  /**
+   * The final status of the task, see TaskStateMachine.FINALIZATION_STATUSES
+   */
+  status: string;
+
+  /**
+   * The final response of the task, when completed
+   */
+  response?: string;
+
+  /**
+   * The IDs of the operators whose response agrees with the final response, when completed
+   */
+  agreeingOperatorIds?: number[];
+
+  /**
+   * The certificate attesting the final response, when completed
+   */
+  certificate?: TaskCertificate;
+
+  /**
+   * The slashing evidence of the signed responses disagreeing with the final response, when completed
+   */
+  evidence?: SlashingEvidence[];
+}
+
+/**
+ * Evaluates the responses of a task against its quorum policy
+ *
+ * The evaluation runs within the transaction registering a response or finalizing the task, once the task is locked,
+ * so that the responses cannot change and the task cannot be finalized by someone else in the meantime. It is
+ * synchronous, so that the lock is not held while waiting on the chain or on the database: what it needs beyond
+ * the responses and the stakes, like the owners of the operators, is fetched before the transaction starts
+ *
+ * @param responses The responses of the task
+ * @param stakes The stake of each operator who can answer the task, for a stake-weighted quorum
+ * @returns The finalization of the task, or undefined if the quorum of responses is not reached
+ */
+export type TaskEvaluator = (
+  responses: TaskResponse[],
+  stakes?: Map<number, bigint>,
+) => TaskFinalization | undefined;
@@ -0,0 +1,113 @@
+/**
+ * Represents the on-chain submission of the final response of a completed task
+ */
+export class TaskPublication {
+  /**
+   * The last submission attempt failed, the task result will be submitted again
+   */
+  public static readonly STATUS_PENDING = "PENDING";
+
+  /**
+   * The task result was submitted and is waiting for confirmations
+   */
+  public static readonly STATUS_SUBMITTED = "SUBMITTED";
+
+  /**
+   * The task result was confirmed on-chain
+   */
+  public static readonly STATUS_CONFIRMED = "CONFIRMED";
+
+  /**
+   * The task result could not be submitted within the maximum number of attempts
+   */
+  public static readonly STATUS_FAILED = "FAILED";
+
+  /**
+   * The unique identifier of the task
+   */
+  taskId: number;
+
+  /**
+   * The status of the publication
+   */
+  status: string;
+
+  /**
+   * The hash of the last transaction submitting the task result
+   */
+  txHash: string | null;
+
+  /**
+   * The number of the block including the transaction
+   */
+  blockNumber: number | null;
+
+  /**
+   * The number of confirmations of the transaction when last checked
+   */
+  confirmations: number;
+
+  /**
+   * The number of submission attempts
+   */
+  attempts: number;
+
+  /**
+   * The error of the last failed attempt
+   */
+  lastError: string | null;
+
+  /**
+   * The timestamp after which the task result can be submitted again (in milliseconds)
+   */
+  nextAttemptAt: number | null;
+
+  /**
+   * The timestamp of the last update (in milliseconds)
+   */
+  updatedAt: number;
+
+  /**
+   * Creates the publication of a task result not submitted yet
+   *
+   * @param taskId The ID of the task
+   * @returns A new instance of TaskPublication
+   */
+  static build(taskId: number): TaskPublication {
+    const publication = new TaskPublication();
+
+    publication.taskId = taskId;
+    publication.status = TaskPublication.STATUS_PENDING;
+    publication.txHash = null;
+    publication.blockNumber = null;
+    publication.confirmations = 0;
+    publication.attempts = 0;
+    publication.lastError = null;
+    publication.nextAttemptAt = null;
+    publication.updatedAt = Date.now();
+
+    return publication;
+  }
+
+  /**
+   * Creates an instance of TaskPublication from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of TaskPublication
+   */
+  static buildFromDatabase(serialized: any): TaskPublication {
+    const publication = new TaskPublication();
+
+    publication.taskId = serialized.task_id;
+    publication.status = serialized.status;
+    publication.txHash = serialized.txHash;
+    publication.blockNumber = serialized.blockNumber;
+    publication.confirmations = serialized.confirmations;
+    publication.attempts = serialized.attempts;
+    publication.lastError = serialized.lastError;
+    publication.nextAttemptAt = serialized.nextAttemptAt;
+    publication.updatedAt = serialized.updatedAt;
+
+    return publication;
+  }
+}
@@ -2,6 +2,17 @@
  * Represents a response to a task
  */
 export class TaskResponse {
+  /**
+   * Rejection of a response sent by an operator who already answered the task
+   */
+  public static readonly ERROR_ALREADY_SENT = "Operator already sent response";
+
+  /**
+   * Rejection of a response sent to a task which is finalized or past its deadline
+   */
+  public static readonly ERROR_TASK_NOT_ACCEPTING =
+    "Task is not accepting responses anymore";
+
   /**
    * The unique identifier of the task response
    */
@@ -27,6 +38,16 @@ export class TaskResponse {
    */
   response: string;
 
+  /**
+   * The signature of the response by the owner of the operator
+   */
+  signature: string;
+
+  /**
+   * The signing scheme of the signature, see OperatorHelper.SIGNATURE_VERSION_*
+   */
+  signatureVersion: number;
+
   /**
    * Creates an instance of TaskResponse from a serialized database object
    *
@@ -37,10 +58,11 @@ export class TaskResponse {
     const task = new TaskResponse();
 
     task.id = serialized.id;
-    task.taskId = serialized.taskId;
-    task.operatorId = serialized.operatorId;
-    task.response = serialized.response;
+    task.taskId = serialized.task_id;
+    task.operatorId = serialized.operator_id;
     task.response = serialized.response;
+    task.signature = serialized.signature;
+    task.signatureVersion = serialized.signatureVersion;
     task.createdAt = serialized.createdAt;
 
     return task;
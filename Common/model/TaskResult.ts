@@ -0,0 +1,40 @@
+/**
+ * Represents the result of a completed task as submitted to the result verifier contract,
+ * matching the IResultVerifier.TaskResult struct of its ABI
+ */
+export interface TaskResult {
+  /**
+   * The unique identifier of the task
+   */
+  taskId: number;
+
+  /**
+   * The type of the task
+   */
+  taskType: string;
+
+  /**
+   * The keccak256 hash of the task input
+   */
+  inputHash: string;
+
+  /**
+   * The final response of the task
+   */
+  response: string;
+
+  /**
+   * The IDs of the operators who signed the final response, in the order of their signatures
+   */
+  operatorIds: number[];
+
+  /**
+   * The signing scheme of each signature, see OperatorHelper.SIGNATURE_VERSION_*
+   */
+  signatureVersions: number[];
+
+  /**
+   * The signatures of the response by the owners of the operators
+   */
+  signatures: string[];
+}
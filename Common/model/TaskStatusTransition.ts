@@ -0,0 +1,94 @@
+/**
+ * Represents a transition of a task from one status to another, kept as the history of the task
+ */
+export class TaskStatusTransition {
+  /**
+   * The task was created through the API
+   */
+  public static readonly TRIGGER_TASK_CREATION = "TASK_CREATION";
+
+  /**
+   * An operator sent a response to the task
+   */
+  public static readonly TRIGGER_OPERATOR_RESPONSE = "OPERATOR_RESPONSE";
+
+  /**
+   * The Task Finalizer finalized the task past its deadline
+   */
+  public static readonly TRIGGER_TASK_FINALIZER = "TASK_FINALIZER";
+
+  /**
+   * The Task Aggregator finalized the task with a decision made outside of the response flow
+   */
+  public static readonly TRIGGER_TASK_AGGREGATOR = "TASK_AGGREGATOR";
+
+  /**
+   * The Result Publisher confirmed the result of the task on-chain
+   */
+  public static readonly TRIGGER_RESULT_PUBLISHER = "RESULT_PUBLISHER";
+
+  /**
+   * An admin changed the task through the admin API
+   */
+  public static readonly TRIGGER_ADMIN = "ADMIN";
+
+  /**
+   * The history was initialized from the status of a task created before the history was kept
+   */
+  public static readonly TRIGGER_MIGRATION = "MIGRATION";
+
+  /**
+   * The unique identifier of the transition
+   */
+  id: number;
+
+  /**
+   * The unique identifier of the task
+   */
+  taskId: number;
+
+  /**
+   * The status of the task before the transition, or null for the creation of the task
+   */
+  fromStatus: string | null;
+
+  /**
+   * The status of the task after the transition
+   */
+  toStatus: string;
+
+  /**
+   * What triggered the transition, see TaskStatusTransition.TRIGGER_*
+   */
+  triggeredBy: string;
+
+  /**
+   * The ID of the operator whose response triggered the transition, or null if it was not triggered by a response
+   */
+  operatorId: number | null;
+
+  /**
+   * The timestamp of the transition (in milliseconds)
+   */
+  createdAt: number;
+
+  /**
+   * Creates an instance of TaskStatusTransition from a serialized database object
+   *
+   * @param serialized The serialized database object
+   * @returns A new instance of TaskStatusTransition
+   */
+  static buildFromDatabase(serialized: any): TaskStatusTransition {
+    const transition = new TaskStatusTransition();
+
+    transition.id = serialized.id;
+    transition.taskId = serialized.task_id;
+    transition.fromStatus = serialized.fromStatus;
+    transition.toStatus = serialized.toStatus;
+    transition.triggeredBy = serialized.triggeredBy;
+    transition.operatorId = serialized.operator_id;
+    transition.createdAt = serialized.createdAt;
+
+    return transition;
+  }
+}
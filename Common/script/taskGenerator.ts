@@ -1,16 +1,30 @@
 import { DatabaseManager } from "../DatabaseManager";
 import { Task } from "../model/Task";
 import { logger } from "../Logger";
+import { ConfigHelper } from "../ConfigHelper";
+import { OperatorHelper } from "../OperatorHelper";
+import { QuorumPolicy } from "../model/QuorumPolicy";
 
 const INTERVAL_BETWEEN_TASKS = 2000;
 
+// task types to generate, picked at random for each task
+const TASK_TYPES = ConfigHelper.getTaskGeneratorTypes();
+
 /**
  *
  */
 setInterval(async () => {
-  const task: Task = await DatabaseManager.addDummyTask();
+  const type = TASK_TYPES[Math.floor(Math.random() * TASK_TYPES.length)];
+  const task: Task = await DatabaseManager.addDummyTask(
+    type,
+    await OperatorHelper.snapshotRegisteredOperators(
+      QuorumPolicy.buildDefault().isStakeWeighted(),
+    ),
+  );
 
-  logger.info(`Added task with id ${task.id} and input ${task.input}`);
+  logger.info(
+    `Added ${task.type} task with id ${task.id} and input ${task.input}`,
+  );
   logger.info(
     `Waiting ${INTERVAL_BETWEEN_TASKS / 1000} seconds before adding another task...`,
   );
@@ -0,0 +1,225 @@
+import assert from "assert/strict";
+import { logger } from "../Logger";
+import { QuorumPolicy } from "../model/QuorumPolicy";
+import { Task } from "../model/Task";
+import { TaskCertificate } from "../model/TaskCertificate";
+import { type TaskEvaluator } from "../model/TaskFinalization";
+import { TaskResponse } from "../model/TaskResponse";
+import { type TaskStore } from "../store/TaskStore";
+import { getRequestedTaskStores } from "./taskStores";
+
+/**
+ * Checks that the responses sent together to a task finalize it once, by firing hundreds of parallel responses
+ * at each storage backend, along with duplicate responses and the finalization of the task by the Task Finalizer
+ *
+ * The calls are spread over several stores opened on the same database, each with its own connections, so that
+ * they race as the requests of several Task Aggregator processes would, instead of being queued by a single
+ * connection. The responses are evaluated by a simple evaluator completing the task once the quorum is reached
+ *
+ * Usage: npm run response-concurrency -- [sqlite|postgres], which enlarges the libuv thread pool to open more stores
+ */
+
+// Number of operators who can answer the task, each sending a response
+const OPERATORS_COUNT = 300;
+
+// Number of responses completing the task
+const QUORUM = 200;
+
+// Number of operators sending their response twice
+const DUPLICATES_COUNT = 20;
+
+// Number of stores opened on the same database, the calls being spread over them. The SQLite connections run their
+// statements on the libuv thread pool, where a connection waiting for the lock of the database keeps a thread busy:
+// there are fewer stores than threads, so that the connection holding the lock can always run its next statement
+const STORES_COUNT = Math.min(
+  8,
+  Number(process.env.UV_THREADPOOL_SIZE ?? 4) - 1,
+);
+
+/**
+ * Builds an evaluator completing the task once the quorum of responses is reached
+ *
+ * @param task The evaluated task
+ * @returns The evaluator
+ */
+const buildEvaluator =
+  (task: Task): TaskEvaluator =>
+  (responses) => {
+    if (responses.length < QUORUM) {
+      return undefined;
+    }
+
+    return {
+      status: Task.STATUS_COMPLETED,
+      response: '"0x1"',
+      agreeingOperatorIds: responses.map(({ operatorId }) => operatorId),
+      certificate: TaskCertificate.buildFromJSON({
+        version: TaskCertificate.VERSION,
+        scheme: TaskCertificate.SCHEME_ECDSA_MULTISIG,
+        chainId: 31337,
+        dvnCoordinator: "0xdvn",
+        taskId: task.id,
+        taskType: task.type,
+        input: task.input,
+        response: '"0x1"',
+        requiredSignaturesCount: QUORUM,
+        signatures: responses.map(({ operatorId }) => ({
+          operatorId,
+          operatorOwner: `0xowner${operatorId}`,
+          response: '"0x1"',
+          signature: "0xsignature",
+          signatureVersion: 2,
+        })),
+        createdAt: Date.now(),
+      }),
+    };
+  };
+
+/**
+ * Fires the responses of all the operators, and the duplicate responses, in parallel, along with the finalization of
+ * the task, then checks the task was finalized once and did not accept any response afterwards
+ *
+ * @param name The name of the storage backend
+ * @param stores The stores opened on the same database
+ * @returns A promise that resolves once the checks pass, or rejects with the failed assertion
+ */
+const fireResponses = async (
+  name: string,
+  stores: TaskStore[],
+): Promise<void> => {
+  const [store] = stores;
+
+  await store.reset();
+
+  const operatorIds = Array.from(
+    { length: OPERATORS_COUNT },
+    (_, index) => index + 1,
+  );
+  const task = await store.addTask(
+    JSON.stringify({ data: "abc" }),
+    "hash",
+    { blockNumber: 1, operatorIds },
+    {
+      quorumPolicy: QuorumPolicy.build(
+        QuorumPolicy.TYPE_FIXED_COUNT,
+        QUORUM,
+        QUORUM,
+      ),
+    },
+  );
+  const evaluate = buildEvaluator(task);
+
+  const startedAt = Date.now();
+  const results = await Promise.allSettled([
+    ...[...operatorIds, ...operatorIds.slice(0, DUPLICATES_COUNT)].map(
+      (operatorId, index) =>
+        stores[index % stores.length].registerOperatorTaskResponse(
+          // each request reads its own copy of the task, as the server does
+          Object.assign(new Task(), task),
+          operatorId,
+          '"0x1"',
+          "0xsignature",
+          2,
+          evaluate,
+        ),
+    ),
+    stores[stores.length - 1].finalizeExpiredTask(
+      Object.assign(new Task(), task),
+      evaluate,
+    ),
+  ]);
+
+  const finalizations = results.filter(
+    (result) => result.status === "fulfilled" && result.value != null,
+  );
+  const accepted = results.filter(
+    (result, index) =>
+      index < results.length - 1 && result.status === "fulfilled",
+  );
+  const rejections = results
+    .filter((result) => result.status === "rejected")
+    .map((result) => (result as PromiseRejectedResult).reason);
+  const stored = await store.getTask(task.id);
+  const responsesCount = await store.getTaskResponsesCount(task);
+  const certificate = await store.getTaskCertificate(stored);
+
+  logger.info(
+    `[${name}] ${results.length} calls in ${Date.now() - startedAt}ms: ${accepted.length} response(s) accepted, ${rejections.length} rejected, task ${stored.status} with ${responsesCount} response(s)`,
+  );
+
+  assert.equal(finalizations.length, 1, "the task is finalized once");
+  assert.deepEqual(
+    [...new Set(rejections)].filter(
+      (rejection) =>
+        rejection !== TaskResponse.ERROR_ALREADY_SENT &&
+        rejection !== TaskResponse.ERROR_TASK_NOT_ACCEPTING,
+    ),
+    [],
+    "the responses are only rejected as duplicate or late",
+  );
+  assert.equal(
+    accepted.length,
+    responsesCount,
+    "the accepted responses are stored",
+  );
+  assert.ok(
+    responsesCount <= QUORUM,
+    "no response is accepted once the task is finalized",
+  );
+  assert.ok(
+    stored.status === Task.STATUS_COMPLETED
+      ? responsesCount === QUORUM && certificate?.signatures.length === QUORUM
+      : stored.status === Task.STATUS_EXPIRED && certificate == null,
+    "the task is finalized with the responses it accepted",
+  );
+
+  const stats = await Promise.all(
+    operatorIds.map((operatorId) => store.getOperatorStats(operatorId)),
+  );
+
+  assert.equal(
+    stats.reduce((sum, { assigned }) => sum + assigned, 0),
+    OPERATORS_COUNT,
+    "a single outcome is recorded per operator",
+  );
+  assert.equal(
+    stats.reduce((sum, { answered }) => sum + answered, 0),
+    responsesCount,
+    "the operators who answered are credited with the outcome of the task",
+  );
+};
+
+/**
+ * Fires the parallel responses at the requested storage backends, all of them by default
+ */
+const main = async () => {
+  const backends = getRequestedTaskStores();
+
+  let failures = 0;
+
+  for (const [backend, buildStores] of backends) {
+    const stores = buildStores(STORES_COUNT);
+
+    try {
+      await fireResponses(backend, stores);
+      logger.info(`[${backend}] ✓ the task was finalized once`);
+    } catch (error) {
+      failures++;
+      logger.error(`[${backend}] ✗ ${error}`);
+    } finally {
+      await Promise.all(stores.map((store) => store.close()));
+    }
+  }
+
+  if (failures > 0) {
+    throw new Error(`Concurrency check failed on ${failures} backend(s)`);
+  }
+};
+
+/**
+ *
+ */
+main().catch((error) => {
+  logger.error(`Concurrency checks failed: ${error.message ?? error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,726 @@
+import assert from "assert/strict";
+import { logger } from "../Logger";
+import { ConfigHelper } from "../ConfigHelper";
+import { ChainEvent } from "../model/ChainEvent";
+import { EjectionProposal } from "../model/EjectionProposal";
+import { OperatorLiveness } from "../model/OperatorLiveness";
+import { QuorumPolicy } from "../model/QuorumPolicy";
+import { RewardEpoch } from "../model/RewardEpoch";
+import { RewardPayout } from "../model/RewardPayout";
+import { SlashingEvidence } from "../model/SlashingEvidence";
+import { Task } from "../model/Task";
+import { TaskCertificate } from "../model/TaskCertificate";
+import { TaskPublication } from "../model/TaskPublication";
+import { TaskResponse } from "../model/TaskResponse";
+import { TaskStatusTransition } from "../model/TaskStatusTransition";
+import { type TaskStore } from "../store/TaskStore";
+import { getRequestedTaskStores, type TaskStoreFactory } from "./taskStores";
+
+/**
+ * Checks that the storage backends behave the same way, by running the same checks against each of them
+ *
+ * The SQLite backend is checked on a temporary database file. The PostgreSQL backend is checked on the
+ * database at POSTGRES_URL if set, otherwise on an in-memory database emulated by pg-mem, see taskStores
+ *
+ * Usage: npm run store-conformance -- [sqlite|postgres]
+ */
+
+/**
+ * A check run against an empty store
+ */
+interface ConformanceCheck {
+  name: string;
+  run: (store: TaskStore) => Promise<void>;
+}
+
+const FIXED_COUNT_POLICY = QuorumPolicy.build(
+  QuorumPolicy.TYPE_FIXED_COUNT,
+  2,
+  2,
+);
+
+/**
+ * Adds a task of the hash type to a store
+ *
+ * @param store The store
+ * @param operatorIds The IDs of the operators who can answer the task
+ * @param options The options of the task, the quorum policy requiring 2 agreeing responses by default
+ * @returns A promise that resolves to the added task
+ */
+const addTask = (
+  store: TaskStore,
+  operatorIds: number[] = [1, 2, 3],
+  options: Parameters<TaskStore["addTask"]>[3] = {},
+): Promise<Task> =>
+  store.addTask(
+    JSON.stringify({ data: "abc" }),
+    "hash",
+    {
+      blockNumber: 1,
+      operatorIds,
+    },
+    { quorumPolicy: FIXED_COUNT_POLICY, ...options },
+  );
+
+/**
+ * Builds a certificate signed by the given operators
+ *
+ * @param task The certified task
+ * @param response The certified response
+ * @param operatorIds The IDs of the signing operators
+ * @returns The certificate
+ */
+const buildCertificate = (
+  task: Task,
+  response: string,
+  operatorIds: number[],
+): TaskCertificate =>
+  TaskCertificate.buildFromJSON({
+    version: TaskCertificate.VERSION,
+    scheme: TaskCertificate.SCHEME_ECDSA_MULTISIG,
+    chainId: 31337,
+    dvnCoordinator: "0xdvn",
+    taskId: task.id,
+    taskType: task.type,
+    input: task.input,
+    response,
+    requiredSignaturesCount: operatorIds.length,
+    signatures: operatorIds.map((operatorId) => ({
+      operatorId,
+      operatorOwner: `0xowner${operatorId}`,
+      response,
+      signature: "0xsignature",
+      signatureVersion: 2,
+    })),
+    createdAt: Date.now(),
+  });
+
+const CHECKS: ConformanceCheck[] = [
+  {
+    name: "addTask stores the task along with its operators",
+    run: async (store) => {
+      const task = await store.addTask(
+        JSON.stringify({ data: "abc" }),
+        "hash",
+        {
+          blockNumber: 7,
+          operatorIds: [3, 1, 2, 1],
+          stakes: new Map([
+            [1, 10n],
+            [2, 20n],
+            [3, 30n],
+          ]),
+          inactiveOperatorIds: [3],
+        },
+        { quorumPolicy: FIXED_COUNT_POLICY },
+      );
+      const stored = await store.getTask(task.id);
+
+      assert.equal(stored.id, task.id);
+      assert.equal(stored.type, "hash");
+      assert.equal(stored.status, Task.STATUS_READY);
+      assert.equal(stored.input, task.input);
+      assert.equal(stored.createdAt, task.createdAt);
+      assert.equal(stored.expiresAt, task.expiresAt);
+      assert.equal(stored.quorumPolicy.type, QuorumPolicy.TYPE_FIXED_COUNT);
+      assert.equal(stored.operatorsCount, 2);
+      assert.equal(stored.snapshotBlock, 7);
+      assert.deepEqual(await store.getTaskOperators(task), [1, 2, 3]);
+      assert.deepEqual(
+        await store.getTaskOperatorStakes(task),
+        new Map([
+          [1, 10n],
+          [2, 20n],
+        ]),
+      );
+      assert.equal(await store.getLastTaskId(), task.id);
+    },
+  },
+  {
+    name: "addTask rejects an idempotency key already used",
+    run: async (store) => {
+      const task = await addTask(store, [1], { idempotencyKey: "key" });
+
+      await assert.rejects(addTask(store, [1], { idempotencyKey: "key" }));
+      assert.equal((await store.getTaskByIdempotencyKey("key"))?.id, task.id);
+      assert.equal(await store.getTaskByIdempotencyKey("other"), undefined);
+    },
+  },
+  {
+    name: "getTask rejects an unknown task",
+    run: async (store) => {
+      await assert.rejects(
+        store.getTask(42),
+        (error) => error === "Task with ID 42 not found",
+      );
+    },
+  },
+  {
+    name: "fetchNextUnresolvedTask serves the oldest unanswered task of the operator",
+    run: async (store) => {
+      await addTask(store, [1, 2], { expiresAt: Date.now() - 1 });
+      const first = await addTask(store, [1, 2]);
+      const second = await addTask(store, [1, 2]);
+
+      assert.equal((await store.fetchNextUnresolvedTask(1))?.id, first.id);
+      assert.equal(await store.fetchNextUnresolvedTask(3), undefined);
+
+      await store.registerOperatorTaskResponse(first, 1, '"0x1"', "0xs", 2);
+
+      assert.equal((await store.fetchNextUnresolvedTask(1))?.id, second.id);
+      assert.equal((await store.fetchNextUnresolvedTask(2))?.id, first.id);
+      assert.deepEqual(
+        (await store.fetchReadyTasksAfter(first.id, 10)).map(({ id }) => id),
+        [second.id],
+      );
+    },
+  },
+  {
+    name: "registerOperatorTaskResponse stores a single response per operator",
+    run: async (store) => {
+      const task = await addTask(store);
+
+      await store.registerOperatorTaskResponse(task, 1, '"0x1"', "0xs", 2);
+      await assert.rejects(
+        store.registerOperatorTaskResponse(task, 1, '"0x2"', "0xs", 2),
+        (error) => error === TaskResponse.ERROR_ALREADY_SENT,
+      );
+
+      const responses = await store.getTaskResponses(task);
+
+      assert.equal(responses.length, 1);
+      assert.equal(responses[0].taskId, task.id);
+      assert.equal(responses[0].operatorId, 1);
+      assert.equal(responses[0].response, '"0x1"');
+      assert.equal(responses[0].signature, "0xs");
+      assert.equal(responses[0].signatureVersion, 2);
+      assert.equal(await store.getTaskResponsesCount(task), 1);
+      assert.equal(await store.operatorSentTaskResponse(task, 1), true);
+      assert.equal(await store.operatorSentTaskResponse(task, 2), false);
+      assert.equal(await store.operatorCanAnswerTask(task, 3), true);
+      assert.equal(await store.operatorCanAnswerTask(task, 4), false);
+    },
+  },
+  {
+    name: "registerFinalTaskResponse completes the task and records its outcomes",
+    run: async (store) => {
+      const task = await addTask(store, [1, 2, 3, 4]);
+
+      await store.registerOperatorTaskResponse(task, 1, '"0x1"', "0xs", 2);
+      await store.registerOperatorTaskResponse(task, 2, '"0x1"', "0xs", 2);
+      await store.registerOperatorTaskResponse(task, 3, '"0x2"', "0xs", 2);
+
+      const certificate = buildCertificate(task, '"0x1"', [1, 2]);
+      const evidence = SlashingEvidence.buildFromDatabase({
+        task_id: task.id,
+        operator_id: 3,
+        chainId: 31337,
+        dvnCoordinator: "0xdvn",
+        taskType: task.type,
+        operatorOwner: "0xowner3",
+        response: '"0x2"',
+        signature: "0xs",
+        signatureVersion: 2,
+        finalResponse: '"0x1"',
+        createdAt: Date.now(),
+      });
+
+      await store.registerFinalTaskResponse(task, '"0x1"', certificate, [
+        evidence,
+      ]);
+
+      const stored = await store.getTask(task.id);
+
+      assert.equal(stored.status, Task.STATUS_COMPLETED);
+      assert.equal(stored.response, '"0x1"');
+      assert.deepEqual(await store.getTaskCertificate(stored), certificate);
+      assert.equal((await store.getOperatorStats(1)).agreed, 1);
+      assert.equal((await store.getOperatorStats(3)).disagreed, 1);
+      assert.equal((await store.getOperatorStats(4)).missed, 1);
+      assert.deepEqual(
+        (await store.fetchOperatorLeaderboard(2)).map(
+          ({ operatorId }) => operatorId,
+        ),
+        [1, 2],
+      );
+      assert.equal((await store.fetchSlashingEvidence(3)).length, 1);
+
+      const epoch = Math.floor(
+        Date.now() / ConfigHelper.getRewardEpochDuration(),
+      );
+      const reward = ConfigHelper.getRewardAmount(task.type);
+
+      assert.deepEqual(
+        await store.getRewardCredits(epoch),
+        reward > 0n
+          ? new Map([
+              [1, reward],
+              [2, reward],
+            ])
+          : new Map(),
+      );
+    },
+  },
+  {
+    name: "handleConsensusNotReached and handleTaskExpired finalize the task without final response",
+    run: async (store) => {
+      const task = await addTask(store, [1, 2]);
+      const expired = await addTask(store, [1, 2], {
+        expiresAt: Date.now() - 1,
+      });
+
+      await store.registerOperatorTaskResponse(task, 1, '"0x1"', "0xs", 2);
+      await store.handleConsensusNotReached(task);
+      await store.registerLateTaskResponse(task, 2);
+
+      assert.equal(
+        (await store.getTask(task.id)).status,
+        Task.STATUS_CONSENSUS_NOT_REACHED,
+      );
+      assert.equal((await store.getOperatorStats(1)).answered, 1);
+      assert.equal((await store.getOperatorStats(2)).late, 1);
+      assert.deepEqual(
+        (await store.fetchExpiredTasks()).map(({ id }) => id),
+        [expired.id],
+      );
+
+      await store.handleTaskExpired(expired);
+
+      assert.equal(
+        (await store.getTask(expired.id)).status,
+        Task.STATUS_EXPIRED,
+      );
+      assert.equal((await store.getOperatorStats(2)).missed, 1);
+      assert.equal((await store.fetchExpiredTasks()).length, 0);
+    },
+  },
+  {
+    name: "finalized and expired tasks accept neither responses nor another finalization",
+    run: async (store) => {
+      const task = await addTask(store, [1, 2]);
+      const expired = await addTask(store, [1, 2], {
+        expiresAt: Date.now() - 1,
+      });
+
+      await store.handleConsensusNotReached(task);
+
+      await assert.rejects(
+        store.registerOperatorTaskResponse(task, 1, '"0x1"', "0xs", 2),
+        (error) => error === TaskResponse.ERROR_TASK_NOT_ACCEPTING,
+      );
+      await assert.rejects(
+        store.registerOperatorTaskResponse(expired, 1, '"0x1"', "0xs", 2),
+        (error) => error === TaskResponse.ERROR_TASK_NOT_ACCEPTING,
+      );
+      await assert.rejects(store.handleTaskExpired(task));
+      await assert.rejects(
+        store.registerFinalTaskResponse(
+          task,
+          '"0x1"',
+          buildCertificate(task, '"0x1"', [1]),
+        ),
+      );
+
+      assert.equal(
+        (await store.getTask(task.id)).status,
+        Task.STATUS_CONSENSUS_NOT_REACHED,
+      );
+      assert.equal(await store.getTaskResponsesCount(task), 0);
+      assert.equal(await store.getTaskCertificate(task), undefined);
+    },
+  },
+  {
+    name: "registerOperatorTaskResponse and finalizeExpiredTask finalize the task with the evaluation of its responses",
+    run: async (store) => {
+      const task = await addTask(store, [1, 2, 3]);
+      const expired = await addTask(store, [1, 2], {
+        expiresAt: Date.now() - 1,
+      });
+      const evaluated: number[] = [];
+      const evaluate = (responses: TaskResponse[]) => {
+        evaluated.push(responses.length);
+
+        // the outcomes follow the agreeing operators, even those left out of the certificate
+        return responses.length >= 2
+          ? {
+              status: Task.STATUS_COMPLETED,
+              response: '"0x1"',
+              agreeingOperatorIds: [1, 2],
+              certificate: buildCertificate(task, '"0x1"', [1]),
+            }
+          : undefined;
+      };
+
+      assert.equal(
+        await store.registerOperatorTaskResponse(
+          task,
+          1,
+          '"0x1"',
+          "0xs",
+          2,
+          evaluate,
+        ),
+        undefined,
+      );
+      assert.equal(
+        (
+          await store.registerOperatorTaskResponse(
+            task,
+            2,
+            '"0x1"',
+            "0xs",
+            2,
+            evaluate,
+          )
+        )?.status,
+        Task.STATUS_COMPLETED,
+      );
+      assert.deepEqual(evaluated, [1, 2]);
+      assert.equal(task.status, Task.STATUS_COMPLETED);
+      assert.equal((await store.getTask(task.id)).response, '"0x1"');
+      assert.equal((await store.getOperatorStats(2)).agreed, 1);
+      assert.equal((await store.getOperatorStats(3)).missed, 1);
+      assert.equal(await store.finalizeExpiredTask(task, evaluate), undefined);
+
+      assert.equal(
+        (await store.finalizeExpiredTask(expired, evaluate))?.status,
+        Task.STATUS_EXPIRED,
+      );
+      assert.equal(
+        (await store.getTask(expired.id)).status,
+        Task.STATUS_EXPIRED,
+      );
+      assert.equal((await store.getOperatorStats(2)).missed, 1);
+    },
+  },
+  {
+    name: "fetchTasks filters the tasks and pages through them",
+    run: async (store) => {
+      const tasks = [
+        await addTask(store),
+        await addTask(store),
+        await addTask(store),
+      ];
+
+      await store.registerOperatorTaskResponse(tasks[1], 1, '"0x1"', "0xs", 2);
+
+      const page = await store.fetchTasks({ limit: 2 });
+      const next = await store.fetchTasks({
+        after: { createdAt: page[1].createdAt, id: page[1].id },
+        limit: 2,
+      });
+
+      assert.deepEqual(
+        [...page, ...next].map(({ id }) => id),
+        tasks.map(({ id }) => id),
+      );
+      assert.deepEqual(
+        (await store.fetchTasks({ operatorId: 1, limit: 10 })).map(
+          ({ id }) => id,
+        ),
+        [tasks[1].id],
+      );
+      assert.equal(
+        (await store.fetchTasks({ status: Task.STATUS_COMPLETED, limit: 10 }))
+          .length,
+        0,
+      );
+    },
+  },
+  {
+    name: "the chain index stores the events and reverts them after a reorganization",
+    run: async (store) => {
+      await store.resetChainIndex("0xdvn");
+
+      const event = ChainEvent.buildFromDatabase({
+        blockNumber: 11,
+        blockHash: "0xb11",
+        logIndex: 0,
+        txHash: "0xt",
+        contract: "0xdvn",
+        name: ChainEvent.OPERATOR_REGISTRATION_ACCEPTED,
+        operator_id: 1,
+        value: null,
+      });
+
+      await store.saveIndexedBlocks(
+        [event],
+        [
+          { number: 10, hash: "0xb10" },
+          { number: 11, hash: "0xb11" },
+        ],
+        10,
+      );
+      await store.saveIndexedBlocks([], [{ number: 11, hash: "0xc11" }], 10);
+
+      assert.equal(await store.getChainIndexDVNCoordinator(), "0xdvn");
+      assert.deepEqual(await store.fetchIndexedBlocks(), [
+        { number: 11, hash: "0xc11" },
+        { number: 10, hash: "0xb10" },
+      ]);
+      assert.equal((await store.fetchChainEvents())[0].operatorId, 1);
+
+      await store.revertChainIndexAfter(10);
+
+      assert.equal((await store.fetchChainEvents()).length, 0);
+      assert.equal((await store.fetchIndexedBlocks()).length, 1);
+    },
+  },
+  {
+    name: "the liveness of the operators is tracked and their ejection proposed",
+    run: async (store) => {
+      await store.recordOperatorPoll(1);
+      await store.recordOperatorResponse(1);
+
+      const [liveness] = await store.fetchOperatorLiveness();
+
+      assert.equal(liveness.operatorId, 1);
+      assert.notEqual(liveness.lastPollAt, null);
+      assert.notEqual(liveness.lastResponseAt, null);
+
+      const now = Date.now();
+      const inactive = OperatorLiveness.build(2, now);
+      inactive.status = OperatorLiveness.STATUS_INACTIVE;
+      inactive.inactiveSince = now;
+      inactive.reason = "No poll";
+
+      await store.saveOperatorLivenessStatus([inactive]);
+
+      assert.deepEqual(await store.getInactiveOperators(), [2]);
+
+      const proposal = await store.addEjectionProposal(inactive, now);
+
+      assert.equal(
+        await store.resolveEjectionProposal(
+          proposal.id,
+          EjectionProposal.STATUS_DISMISSED,
+          "Dismissed",
+        ),
+        true,
+      );
+      assert.equal(
+        await store.resolveEjectionProposal(
+          proposal.id,
+          EjectionProposal.STATUS_DISMISSED,
+          "Dismissed",
+        ),
+        false,
+      );
+      assert.equal(
+        (await store.fetchEjectionProposals(EjectionProposal.STATUS_PROPOSED))
+          .length,
+        0,
+      );
+      assert.equal((await store.fetchEjectionProposals()).length, 1);
+    },
+  },
+  {
+    name: "the closed reward epochs are stored with their payouts",
+    run: async (store) => {
+      const epoch = RewardEpoch.buildFromDatabase({
+        epoch: 3,
+        startsAt: 300,
+        endsAt: 400,
+        merkleRoot: "0xroot",
+        totalAmount: "5",
+        operatorsCount: 1,
+        createdAt: Date.now(),
+      });
+      const payout = RewardPayout.buildFromDatabase({
+        epoch: 3,
+        operator_id: 1,
+        rewardAddress: "0xreward",
+        amount: "5",
+      });
+
+      await store.saveRewardEpoch(epoch, [payout]);
+
+      assert.deepEqual(await store.getRewardEpoch(3), epoch);
+      assert.equal(await store.getRewardEpoch(4), undefined);
+      assert.deepEqual(await store.fetchRewardEpochs(10), [epoch]);
+      assert.deepEqual(await store.fetchRewardPayouts(3), [payout]);
+      assert.deepEqual(await store.fetchRewardEpochsToClose(10), []);
+    },
+  },
+  {
+    name: "the publications of the task results are created and updated",
+    run: async (store) => {
+      const task = await addTask(store, [1, 2]);
+
+      await store.registerFinalTaskResponse(
+        task,
+        '"0x1"',
+        buildCertificate(task, '"0x1"', [1, 2]),
+      );
+
+      assert.deepEqual(
+        (await store.fetchPublishableTasks(Date.now(), 10)).map(({ id }) => id),
+        [task.id],
+      );
+
+      const publication = TaskPublication.build(task.id);
+      publication.status = TaskPublication.STATUS_SUBMITTED;
+      publication.txHash = "0xtx";
+      publication.attempts = 1;
+
+      await store.saveTaskPublications([publication]);
+
+      assert.deepEqual(await store.getTaskPublication(task), publication);
+      assert.equal((await store.fetchSubmittedTaskPublications()).length, 1);
+      assert.equal(
+        (await store.fetchPublishableTasks(Date.now(), 10)).length,
+        0,
+      );
+
+      publication.status = TaskPublication.STATUS_CONFIRMED;
+
+      await store.saveTaskPublications([publication]);
+      await store.saveTaskPublications([publication]);
+
+      assert.equal(
+        (await store.getTask(task.id)).status,
+        Task.STATUS_PUBLISHED,
+      );
+    },
+  },
+  {
+    name: "the status transitions of the tasks are recorded in their history",
+    run: async (store) => {
+      const task = await addTask(store, [1, 2]);
+      const cancelled = await addTask(store, [1, 2]);
+
+      await store.registerOperatorTaskResponse(task, 1, '"0x1"', "0xs", 2);
+      await store.registerFinalTaskResponse(
+        task,
+        '"0x1"',
+        buildCertificate(task, '"0x1"', [1]),
+      );
+
+      assert.deepEqual(
+        (await store.getTaskStatusHistory(task)).map(
+          ({ fromStatus, toStatus, triggeredBy, operatorId }) => [
+            fromStatus,
+            toStatus,
+            triggeredBy,
+            operatorId,
+          ],
+        ),
+        [
+          [
+            null,
+            Task.STATUS_PENDING,
+            TaskStatusTransition.TRIGGER_TASK_CREATION,
+            null,
+          ],
+          [
+            Task.STATUS_PENDING,
+            Task.STATUS_READY,
+            TaskStatusTransition.TRIGGER_TASK_CREATION,
+            null,
+          ],
+          [
+            Task.STATUS_READY,
+            Task.STATUS_IN_PROGRESS,
+            TaskStatusTransition.TRIGGER_OPERATOR_RESPONSE,
+            1,
+          ],
+          [
+            Task.STATUS_IN_PROGRESS,
+            Task.STATUS_AGGREGATING,
+            TaskStatusTransition.TRIGGER_TASK_AGGREGATOR,
+            null,
+          ],
+          [
+            Task.STATUS_AGGREGATING,
+            Task.STATUS_COMPLETED,
+            TaskStatusTransition.TRIGGER_TASK_AGGREGATOR,
+            null,
+          ],
+        ],
+      );
+
+      assert.equal(await store.cancelTask(cancelled), true);
+      assert.equal(await store.cancelTask(cancelled), false);
+      assert.equal(await store.cancelTask(task), false);
+      await assert.rejects(
+        store.registerOperatorTaskResponse(cancelled, 1, '"0x1"', "0xs", 2),
+        (error) => error === TaskResponse.ERROR_TASK_NOT_ACCEPTING,
+      );
+      assert.equal(
+        (await store.getTask(cancelled.id)).status,
+        Task.STATUS_CANCELLED,
+      );
+      assert.equal(
+        (await store.getTaskStatusHistory(cancelled)).at(-1)?.triggeredBy,
+        TaskStatusTransition.TRIGGER_ADMIN,
+      );
+      assert.equal(
+        await store.countUnansweredOperatorTasks(1, 0, Date.now()),
+        0,
+      );
+    },
+  },
+];
+
+/**
+ * Runs the checks against a backend, each on a new store emptied first
+ *
+ * A new store is created for each check, as pg-mem keeps the names of the constraints of the dropped tables,
+ * and can not create the schema again on the same in-memory database
+ *
+ * @param name The name of the storage backend
+ * @param buildStores The function opening the stores of the backend
+ * @returns A promise that resolves to the number of failed checks
+ */
+const runChecks = async (
+  name: string,
+  buildStores: TaskStoreFactory,
+): Promise<number> => {
+  let failures = 0;
+
+  for (const check of CHECKS) {
+    const [store] = buildStores();
+
+    try {
+      await store.reset();
+      await check.run(store);
+      logger.info(`[${name}] ✓ ${check.name}`);
+    } catch (error) {
+      failures++;
+      logger.error(`[${name}] ✗ ${check.name}: ${error}`);
+    } finally {
+      await store.close();
+    }
+  }
+
+  return failures;
+};
+
+/**
+ * Runs the checks against the requested storage backends, all of them by default
+ */
+const main = async () => {
+  const stores = getRequestedTaskStores();
+
+  let failures = 0;
+
+  for (const [backend, buildStores] of stores) {
+    failures += await runChecks(backend, buildStores);
+  }
+
+  if (failures > 0) {
+    throw new Error(`${failures} conformance check(s) failed`);
+  }
+
+  logger.info(
+    `All conformance checks passed on ${[...stores.keys()].join(", ")}`,
+  );
+};
+
+/**
+ *
+ */
+main().catch((error) => {
+  logger.error(`Conformance checks failed: ${error.message ?? error}`);
+  process.exitCode = 1;
+});
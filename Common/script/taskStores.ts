@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type pg from "pg";
+import { ConfigHelper } from "../ConfigHelper";
+import { type TaskStore } from "../store/TaskStore";
+import { SqliteTaskStore } from "../store/SqliteTaskStore";
+import { PostgresTaskStore } from "../store/PostgresTaskStore";
+
+/**
+ * Opens stores of a storage backend on a new database
+ *
+ * @param count The number of stores opened on the database, each with its own connections
+ * @returns The stores, sharing the same database
+ */
+export type TaskStoreFactory = (count?: number) => TaskStore[];
+
+/**
+ * Creates a pool of a single connection to an in-memory PostgreSQL database emulated by pg-mem
+ *
+ * pg-mem neither locks rows nor rolls back transactions, so the statements of concurrent transactions would
+ * interleave: the connection is lent to one caller at a time, the others waiting for it to be released, and
+ * the pool is kept open as the stores of the database share it
+ *
+ * @returns The pool of connections
+ */
+const buildEmulatedPool = (): pg.Pool => {
+  const connection = import("pg-mem").then(({ DataType, newDb }) => {
+    const db = newDb();
+
+    db.public.registerFunction({
+      name: "pg_advisory_xact_lock",
+      args: [DataType.bigint],
+      returns: DataType.text,
+      impure: true,
+      implementation: () => "",
+    });
+
+    const { Pool } = db.adapters.createPg();
+
+    return new Pool().connect();
+  });
+
+  // tail of the callers waiting for the connection
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    connect: async () => {
+      const previous = queue;
+      let release = () => {};
+
+      queue = new Promise((resolve) => (release = resolve));
+      await previous;
+
+      return Object.assign(Object.create(await connection), { release });
+    },
+    end: async () => {},
+  } as unknown as pg.Pool;
+};
+
+/**
+ * Creates the stores of the storage backends checked by the scripts
+ *
+ * The SQLite stores use a temporary database file. The PostgreSQL stores use the database at POSTGRES_URL if set,
+ * otherwise an in-memory database emulated by pg-mem, see buildEmulatedPool
+ *
+ * @returns The functions opening the stores, indexed by backend name
+ */
+export const buildTaskStores = (): Map<string, TaskStoreFactory> => {
+  const postgresUrl = ConfigHelper.getPostgresUrl();
+
+  return new Map<string, TaskStoreFactory>([
+    [
+      "sqlite",
+      (count = 1) => {
+        const file = path.join(
+          fs.mkdtempSync(path.join(os.tmpdir(), "task-store-")),
+          "db.sqlite",
+        );
+
+        return Array.from({ length: count }, () => new SqliteTaskStore(file));
+      },
+    ],
+    [
+      "postgres",
+      (count = 1) => {
+        if (postgresUrl != null) {
+          return Array.from({ length: count }, () =>
+            PostgresTaskStore.fromUrl(postgresUrl),
+          );
+        }
+
+        const pool = buildEmulatedPool();
+
+        return Array.from(
+          { length: count },
+          () => new PostgresTaskStore(async () => pool),
+        );
+      },
+    ],
+  ]);
+};
+
+/**
+ * Retrieves the stores of the backends given on the command line, all of them by default
+ *
+ * @returns The functions opening the stores, indexed by backend name
+ * @throws Will throw an error if a backend is unknown
+ */
+export const getRequestedTaskStores = (): Map<string, TaskStoreFactory> => {
+  const stores = buildTaskStores();
+  const backends = process.argv.slice(2);
+
+  if (backends.length === 0) {
+    return stores;
+  }
+
+  return new Map(
+    backends.map((backend) => {
+      const buildStores = stores.get(backend);
+
+      if (buildStores == null) {
+        throw new Error(`Unknown database backend "${backend}"`);
+      }
+
+      return [backend, buildStores];
+    }),
+  );
+};
@@ -0,0 +1,110 @@
+import * as fs from "fs";
+import { z } from "zod";
+import { CertificateHelper } from "../CertificateHelper";
+import { logger } from "../Logger";
+import { OperatorHelper } from "../OperatorHelper";
+import { QuorumPolicy } from "../model/QuorumPolicy";
+import {
+  TaskCertificate,
+  TaskCertificateTrust,
+} from "../model/TaskCertificate";
+
+// the snapshot of the DVN at the snapshot block of the task, built by the verifier from a source it trusts
+const snapshotSchema = z.object({
+  chainId: z.number().int().positive(),
+  dvnCoordinator: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  quorum: z.object({
+    type: z.string(),
+    countThreshold: z.number(),
+    contentThreshold: z.number(),
+  }),
+  operators: z
+    .array(
+      z.object({
+        operatorId: z.number().int().nonnegative(),
+        owner: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+        // required for a stake-weighted quorum, as a decimal string
+        stake: z.string().regex(/^\d+$/).optional(),
+        // inactive operators can answer the task but do not count in its quorum
+        inactive: z.boolean().default(false),
+      }),
+    )
+    .min(1),
+});
+
+/**
+ * Reads what the certificate is verified against from a snapshot JSON file
+ *
+ * @param path The path to the snapshot JSON file
+ * @returns The trusted DVN, operator owners, quorum policy and stakes of the task
+ */
+const readTrust = (path: string): TaskCertificateTrust => {
+  const snapshot = snapshotSchema.parse(
+    JSON.parse(fs.readFileSync(path, "utf-8")),
+  );
+  const countedOperators = snapshot.operators.filter(
+    ({ inactive }) => !inactive,
+  );
+  const quorumPolicy = QuorumPolicy.build(
+    snapshot.quorum.type,
+    snapshot.quorum.countThreshold,
+    snapshot.quorum.contentThreshold,
+  );
+
+  return {
+    domain: OperatorHelper.buildResponseDomain(
+      snapshot.chainId,
+      snapshot.dvnCoordinator,
+    ),
+    owners: new Map(
+      snapshot.operators.map(({ operatorId, owner }) => [operatorId, owner]),
+    ),
+    quorumPolicy,
+    operatorsCount: countedOperators.length,
+    stakes: quorumPolicy.isStakeWeighted()
+      ? new Map(
+          countedOperators.map(({ operatorId, stake }) => [
+            operatorId,
+            BigInt(stake ?? 0),
+          ]),
+        )
+      : undefined,
+  };
+};
+
+/**
+ * Verifies offline the certificate of a completed task, as returned by GET /task/{id}/certificate
+ *
+ * The certificate is verified against a snapshot JSON file describing the DVN at the snapshot block of the task:
+ * { "chainId", "dvnCoordinator", "quorum": { "type", "countThreshold", "contentThreshold" },
+ *   "operators": [{ "operatorId", "owner", "stake", "inactive" }] }
+ *
+ * Usage: npm run verify-certificate -- <path to the certificate JSON file> <path to the snapshot JSON file>
+ */
+const main = async () => {
+  const [certificatePath, snapshotPath] = process.argv.slice(2);
+
+  if (certificatePath == null || snapshotPath == null) {
+    throw new Error(
+      "Missing path to the certificate or to the snapshot JSON file",
+    );
+  }
+
+  const certificate = TaskCertificate.buildFromJSON(
+    fs.readFileSync(certificatePath, "utf-8"),
+  );
+
+  CertificateHelper.verifyCertificate(certificate, readTrust(snapshotPath));
+
+  logger.info(
+    `Certificate of task ${certificate.taskId} is valid: ${certificate.signatures.length} signatures out of ${certificate.requiredSignaturesCount} required`,
+  );
+};
+
+/**
+ *
+ */
+main().catch((error) => {
+  logger.error(`Invalid certificate: ${error.message ?? error}`);
+  process.exitCode = 1;
+});
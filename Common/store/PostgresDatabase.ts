@@ -0,0 +1,366 @@
+import type pg from "pg";
+import { logger } from "../Logger";
+import { type DatabaseMigration } from "../migration/DatabaseMigration";
+import { type SqlDatabase, type SqlExecutor } from "./SqlDatabase";
+
+/**
+ * The PostgresDatabase class runs the statements of the Task Aggregator on a PostgreSQL database,
+ * which can be shared between several Task Aggregator replicas
+ *
+ * The statements are written for SQLite and translated on the fly: the '?' placeholders are numbered, and the
+ * camelCase identifiers are quoted so that PostgreSQL keeps their case. The BIGINT and NUMERIC values, returned
+ * as strings by the driver, are read as numbers. The pool of connections is created on first use, so that the
+ * driver is only loaded by the postgres backend, and the pending migrations are applied, one replica at a time
+ */
+export class PostgresDatabase implements SqlDatabase {
+  // Types of the columns returned as strings by the driver and read as numbers: BIGINT and NUMERIC
+  private static readonly NUMERIC_TYPE_IDS = [20, 1700];
+
+  // Key of the transaction-level advisory lock taken by the replicas while applying a migration
+  private static readonly MIGRATION_LOCK_KEY = 4_207_001;
+
+  // Pool of connections to the database, created on first use
+  private pool: Promise<pg.Pool> | undefined;
+
+  // Migration of the database schema, run on first use
+  private migration: Promise<void> | undefined;
+
+  /**
+   * Creates a database whose pool of connections is created, and schema migrated, on first use
+   *
+   * @param createPool The function creating the pool of connections to the database
+   * @param migrations The migrations of the database schema, ordered by version
+   */
+  constructor(
+    private readonly createPool: () => Promise<pg.Pool>,
+    private readonly migrations: DatabaseMigration[],
+  ) {}
+
+  /**
+   * Runs a statement which does not return rows
+   *
+   * @param sql The SQL statement
+   * @param params The values of the statement placeholders
+   * @returns A promise that resolves to the number of changed rows
+   */
+  run(sql: string, params: any[] = []): Promise<{ changes: number }> {
+    return this.withClient((client) =>
+      PostgresDatabase.runOn(client, sql, params),
+    );
+  }
+
+  /**
+   * Runs a query and retrieves its first row
+   *
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the first row, or undefined if the query returns no rows
+   */
+  get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
+    return this.withClient(async (client) => {
+      const rows = await PostgresDatabase.allOn<T>(client, sql, params);
+
+      return rows[0];
+    });
+  }
+
+  /**
+   * Runs a query and retrieves all its rows
+   *
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the rows
+   */
+  all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    return this.withClient((client) =>
+      PostgresDatabase.allOn<T>(client, sql, params),
+    );
+  }
+
+  /**
+   * Runs statements within a transaction on a single connection, committed if they all succeed and rolled back otherwise
+   *
+   * @param work The function running the statements of the transaction with the given executor
+   * @returns A promise that resolves to the result of the work once committed, or rejects with its error once rolled back
+   */
+  transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    return this.withClient((client) =>
+      PostgresDatabase.transactionOn(client, () =>
+        work({
+          run: (sql, params = []) =>
+            PostgresDatabase.runOn(client, sql, params),
+          get: async <R>(sql: string, params: any[] = []) =>
+            (await PostgresDatabase.allOn<R>(client, sql, params))[0],
+          all: <R>(sql: string, params: any[] = []) =>
+            PostgresDatabase.allOn<R>(client, sql, params),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Closes the connections of the pool, if it was created
+   *
+   * @returns A promise that resolves when the connections are closed
+   */
+  async close(): Promise<void> {
+    if (this.pool == null) {
+      return;
+    }
+
+    const pool = await this.pool;
+    this.pool = undefined;
+    this.migration = undefined;
+
+    await pool.end();
+  }
+
+  /**
+   * Drops all the tables of the current schema, including the 'schema_version' table
+   *
+   * @returns A promise that resolves when the tables are dropped
+   */
+  async delete(): Promise<void> {
+    const client = await (await this.getPool()).connect();
+
+    try {
+      const { rows } = await client.query(
+        "SELECT table_name FROM information_schema.tables WHERE table_schema = current_schema() AND table_type = 'BASE TABLE'",
+      );
+
+      for (const { table_name } of rows) {
+        await client.query(`DROP TABLE IF EXISTS "${table_name}" CASCADE`);
+      }
+    } finally {
+      client.release();
+    }
+
+    this.migration = undefined;
+  }
+
+  /**
+   * Executes a function with a connection of the pool, once the schema is migrated
+   *
+   * @param work The function to execute
+   * @returns A promise that resolves or rejects as the function
+   */
+  private async withClient<T>(
+    work: (client: pg.PoolClient) => Promise<T>,
+  ): Promise<T> {
+    await this.getMigration();
+
+    const client = await (await this.getPool()).connect();
+
+    try {
+      return await work(client);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Retrieves the pool of connections, creating it on first use
+   *
+   * @returns A promise that resolves to the pool
+   */
+  private getPool(): Promise<pg.Pool> {
+    if (this.pool == null) {
+      this.pool = this.createPool();
+
+      // a failed creation is retried by the next statement
+      this.pool.catch(() => {
+        this.pool = undefined;
+      });
+    }
+
+    return this.pool;
+  }
+
+  /**
+   * Retrieves the migration of the schema, running it on first use
+   *
+   * @returns A promise that resolves once the pending migrations are applied
+   */
+  private getMigration(): Promise<void> {
+    if (this.migration == null) {
+      this.migration = this.migrate();
+
+      // a failed migration is retried by the next statement
+      this.migration.catch(() => {
+        this.migration = undefined;
+      });
+    }
+
+    return this.migration;
+  }
+
+  /**
+   * Applies the migrations whose version is greater than the version of the database schema
+   *
+   * An advisory lock is held while a migration is applied, so that the replicas starting together apply each
+   * migration once. The lock is released along with the transaction, which is rolled back if the migration fails,
+   * so that no partial schema is left behind for the next attempt
+   *
+   * @returns A promise that resolves when the schema is up to date
+   */
+  private async migrate(): Promise<void> {
+    const client = await (await this.getPool()).connect();
+
+    try {
+      // the table is only created when missing, as pg-mem rejects CREATE TABLE IF NOT EXISTS on an existing table
+      const { rowCount } = await client.query(
+        "SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = 'schema_version'",
+      );
+
+      if (rowCount === 0) {
+        await client.query(
+          'CREATE TABLE IF NOT EXISTS schema_version (version BIGINT PRIMARY KEY, description TEXT NOT NULL, "appliedAt" BIGINT NOT NULL)',
+        );
+      }
+
+      const versions = (
+        await PostgresDatabase.allOn<{ version: number }>(
+          client,
+          "SELECT version FROM schema_version",
+        )
+      ).map(({ version }) => version);
+
+      for (const migration of this.migrations) {
+        if (versions.includes(migration.version)) {
+          continue;
+        }
+
+        await PostgresDatabase.transactionOn(client, async () => {
+          await PostgresDatabase.runOn(
+            client,
+            "SELECT pg_advisory_xact_lock(?)",
+            [PostgresDatabase.MIGRATION_LOCK_KEY],
+          );
+
+          // the version is read again once locked, as another replica may have applied the migration meanwhile
+          const applied = await PostgresDatabase.allOn(
+            client,
+            "SELECT 1 FROM schema_version WHERE version = ?",
+            [migration.version],
+          );
+
+          if (applied.length > 0) {
+            return;
+          }
+
+          await client.query(migration.postgres);
+          await PostgresDatabase.runOn(
+            client,
+            "INSERT INTO schema_version (version, description, appliedAt) VALUES (?, ?, ?)",
+            [migration.version, migration.description, Date.now()],
+          );
+
+          logger.info(
+            `Database migration ${migration.version} (${migration.description}) applied`,
+          );
+        });
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Translates a statement written for SQLite to PostgreSQL
+   *
+   * The '?' placeholders are replaced by numbered placeholders, and the camelCase identifiers are quoted,
+   * the string literals and quoted identifiers being left untouched
+   *
+   * @param sql The SQL statement
+   * @returns The PostgreSQL statement
+   */
+  private static translate(sql: string): string {
+    let placeholders = 0;
+
+    return sql
+      .split(/('(?:[^']|'')*'|"[^"]*")/)
+      .map((part, index) =>
+        index % 2 === 1
+          ? part
+          : part
+              .replace(/\?/g, () => `$${++placeholders}`)
+              .replace(/\b([a-z]+[A-Z]\w*)\b/g, '"$1"'),
+      )
+      .join("");
+  }
+
+  /**
+   * Runs statements within a transaction on a connection
+   *
+   * @param client The connection
+   * @param work The function running the statements of the transaction
+   * @returns A promise that resolves to the result of the work once committed, or rejects with its error once rolled back
+   */
+  private static async transactionOn<T>(
+    client: pg.PoolClient,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    await client.query("BEGIN");
+
+    let result: T;
+
+    try {
+      result = await work();
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs a statement which does not return rows on a connection
+   *
+   * @param client The connection
+   * @param sql The SQL statement
+   * @param params The values of the statement placeholders
+   * @returns A promise that resolves to the number of changed rows
+   */
+  private static async runOn(
+    client: pg.PoolClient,
+    sql: string,
+    params: any[] = [],
+  ): Promise<{ changes: number }> {
+    const result = await client.query(PostgresDatabase.translate(sql), params);
+
+    return { changes: result.rowCount ?? 0 };
+  }
+
+  /**
+   * Runs a query on a connection and retrieves all its rows
+   *
+   * @param client The connection
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the rows
+   */
+  private static async allOn<T>(
+    client: pg.PoolClient,
+    sql: string,
+    params: any[] = [],
+  ): Promise<T[]> {
+    const result = await client.query(PostgresDatabase.translate(sql), params);
+    const numericFields = result.fields
+      .filter(({ dataTypeID }) =>
+        PostgresDatabase.NUMERIC_TYPE_IDS.includes(dataTypeID),
+      )
+      .map(({ name }) => name);
+
+    return result.rows.map((row) => {
+      numericFields.forEach((name) => {
+        if (row[name] != null) {
+          row[name] = Number(row[name]);
+        }
+      });
+
+      return row as T;
+    });
+  }
+}
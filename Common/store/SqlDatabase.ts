@@ -0,0 +1,62 @@
+/**
+ * Executes SQL statements, on their own or within a transaction
+ *
+ * Statements are written in the SQL subset understood by both SQLite and PostgreSQL, with '?' placeholders
+ */
+export interface SqlExecutor {
+  /**
+   * Runs a statement which does not return rows
+   *
+   * @param sql The SQL statement
+   * @param params The values of the statement placeholders
+   * @returns A promise that resolves to the number of changed rows
+   */
+  run(sql: string, params?: any[]): Promise<{ changes: number }>;
+
+  /**
+   * Runs a query and retrieves its first row
+   *
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the first row, or undefined if the query returns no rows
+   */
+  get<T = any>(sql: string, params?: any[]): Promise<T | undefined>;
+
+  /**
+   * Runs a query and retrieves all its rows
+   *
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the rows
+   */
+  all<T = any>(sql: string, params?: any[]): Promise<T[]>;
+}
+
+/**
+ * A database whose schema is kept up to date by the numbered migrations, see DatabaseMigration
+ */
+export interface SqlDatabase extends SqlExecutor {
+  /**
+   * Runs statements within a transaction, committed if they all succeed and rolled back otherwise
+   *
+   * @param work The function running the statements of the transaction with the given executor
+   * @returns A promise that resolves to the result of the work once committed, or rejects with its error once rolled back
+   */
+  transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T>;
+
+  /**
+   * Closes the connections to the database
+   *
+   * @returns A promise that resolves when the connections are closed
+   */
+  close(): Promise<void>;
+
+  /**
+   * Deletes all the data and tables of the database
+   *
+   * The schema is created again by the migrations on next use
+   *
+   * @returns A promise that resolves when the database is deleted
+   */
+  delete(): Promise<void>;
+}
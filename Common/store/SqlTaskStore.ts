@@ -0,0 +1,1854 @@
+import { Task, type TaskOperatorSnapshot } from "../model/Task";
+import { TaskResponse } from "../model/TaskResponse";
+import {
+  type TaskEvaluator,
+  type TaskFinalization,
+} from "../model/TaskFinalization";
+import { TaskCertificate } from "../model/TaskCertificate";
+import { TaskPublication } from "../model/TaskPublication";
+import { ChainEvent } from "../model/ChainEvent";
+import { EjectionProposal } from "../model/EjectionProposal";
+import { OperatorLiveness } from "../model/OperatorLiveness";
+import { OperatorStats } from "../model/OperatorStats";
+import { RewardEpoch } from "../model/RewardEpoch";
+import { RewardPayout } from "../model/RewardPayout";
+import { SlashingEvidence } from "../model/SlashingEvidence";
+import { TaskStatusTransition } from "../model/TaskStatusTransition";
+import { TaskTypeRegistry } from "../TaskTypeRegistry";
+import { TaskStateMachine } from "../TaskStateMachine";
+import { QuorumPolicy } from "../model/QuorumPolicy";
+import { ConfigHelper } from "../ConfigHelper";
+import { type DatabaseMigration } from "../migration/DatabaseMigration";
+import { Migration001InitialSchema } from "../migration/Migration001InitialSchema";
+import { Migration002TaskStatusHistory } from "../migration/Migration002TaskStatusHistory";
+import { type SqlDatabase, type SqlExecutor } from "./SqlDatabase";
+import { type TaskStore } from "./TaskStore";
+
+/**
+ * The `SqlTaskStore` class implements the storage of the Task Aggregator on a SQL database
+ *
+ * The statements are written in the SQL subset understood by both SQLite and PostgreSQL, so the backends only
+ * differ by their database. Every method rejects with an error message when a statement fails
+ */
+export abstract class SqlTaskStore implements TaskStore {
+  // Migrations of the database schema, ordered by version
+  static readonly MIGRATIONS: DatabaseMigration[] = [
+    Migration001InitialSchema,
+    Migration002TaskStatusHistory,
+  ];
+
+  /**
+   * Creates a store on a database
+   *
+   * @param database The database, whose schema is migrated on first use
+   */
+  constructor(protected readonly database: SqlDatabase) {}
+
+  /**
+   * Stores a proposal to remove an inactive operator from the DVN
+   *
+   * @param liveness The liveness of the inactive operator
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves to the stored proposal
+   */
+  addEjectionProposal(
+    liveness: OperatorLiveness,
+    now: number,
+  ): Promise<EjectionProposal> {
+    const proposal = new EjectionProposal();
+    proposal.operatorId = liveness.operatorId;
+    proposal.status = EjectionProposal.STATUS_PROPOSED;
+    proposal.reason = liveness.reason ?? "";
+    proposal.inactiveSince = liveness.inactiveSince ?? now;
+    proposal.createdAt = now;
+    proposal.resolvedAt = null;
+    proposal.resolution = null;
+
+    return this.query("Error inserting ejection proposal", async (db) => {
+      const row = await db.get(
+        "INSERT INTO ejection_proposal (operator_id, status, reason, inactiveSince, createdAt) VALUES (?, ?, ?, ?, ?) RETURNING id",
+        [
+          proposal.operatorId,
+          proposal.status,
+          proposal.reason,
+          proposal.inactiveSince,
+          proposal.createdAt,
+        ],
+      );
+
+      proposal.id = row.id;
+
+      return proposal;
+    });
+  }
+
+  /**
+   * Adds a new task to the database, along with the snapshot of the operators who can answer it
+   *
+   * @param input The input string for the task
+   * @param type The type of the task
+   * @param snapshot The operators registered to the DVN when the task is created: only these operators
+   * can answer the task, and its quorum is computed against their number, or their stake
+   * @param options Optional settings of the task:
+   * - quorumPolicy: the quorum policy applied to the responses, defaults to the configured policy
+   * - expiresAt: the deadline of the task in milliseconds, defaults to the configured time to live from now
+   * - idempotencyKey: a key identifying the creation request, which cannot be used by two tasks
+   * @returns A promise that resolves to the created Task, or rejects with an error message if the task cannot be inserted
+   * @throws Will throw an error if the input is null or undefined
+   * @throws Will throw an error if the task type is unknown
+   * @throws Will throw an error if the quorum policy is stake-weighted and the snapshot has no stakes
+   */
+  addTask(
+    input: string,
+    type: string,
+    snapshot: TaskOperatorSnapshot,
+    options: {
+      quorumPolicy?: QuorumPolicy;
+      expiresAt?: number;
+      idempotencyKey?: string;
+    } = {},
+  ): Promise<Task> {
+    if (input === null || input === undefined) {
+      throw new Error("Input cannot be null or undefined");
+    }
+
+    if (!TaskTypeRegistry.has(type)) {
+      throw new Error(`Unknown task type "${type}"`);
+    }
+
+    const quorumPolicy = options.quorumPolicy ?? QuorumPolicy.buildDefault();
+
+    if (quorumPolicy.isStakeWeighted() && snapshot.stakes == null) {
+      throw new Error("Stake-weighted quorum requires the operator stakes");
+    }
+
+    const createdAt = Math.floor(Date.now());
+
+    const task = new Task();
+    task.type = type;
+    task.status = Task.STATUS_PENDING;
+    task.createdAt = createdAt;
+    task.input = input;
+    task.quorumPolicy = quorumPolicy;
+    task.expiresAt =
+      options.expiresAt ?? createdAt + ConfigHelper.getTaskTimeToLive();
+    task.idempotencyKey = options.idempotencyKey;
+    const inactiveOperatorIds = new Set(snapshot.inactiveOperatorIds ?? []);
+
+    task.operatorsCount = [...new Set(snapshot.operatorIds)].filter(
+      (operatorId) => !inactiveOperatorIds.has(operatorId),
+    ).length;
+    task.snapshotBlock = snapshot.blockNumber;
+
+    return this.transaction("Error inserting task", async (tx) => {
+      const row = await tx.get(
+        "INSERT INTO task (type, status, createdAt, expiresAt, input, quorumType, quorumCountThreshold, quorumContentThreshold, idempotencyKey, operatorsCount, snapshotBlock) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id",
+        [
+          task.type,
+          task.status,
+          task.createdAt,
+          task.expiresAt,
+          task.input,
+          task.quorumPolicy.type,
+          task.quorumPolicy.countThreshold,
+          task.quorumPolicy.contentThreshold,
+          task.idempotencyKey ?? null,
+          task.operatorsCount,
+          task.snapshotBlock,
+        ],
+      );
+
+      task.id = row.id;
+
+      await this.recordTransition(
+        tx,
+        task.id,
+        null,
+        Task.STATUS_PENDING,
+        TaskStatusTransition.TRIGGER_TASK_CREATION,
+      );
+
+      for (const operatorId of new Set(snapshot.operatorIds)) {
+        await tx.run(
+          "INSERT INTO task_operator (task_id, operator_id, stake, active) VALUES (?, ?, ?, ?)",
+          [
+            task.id,
+            operatorId,
+            snapshot.stakes?.get(operatorId)?.toString() ?? null,
+            inactiveOperatorIds.has(operatorId) ? 0 : 1,
+          ],
+        );
+      }
+
+      // the task accepts responses once its operators are stored
+      await this.transitionTask(
+        tx,
+        task.id,
+        Task.STATUS_PENDING,
+        Task.STATUS_READY,
+        TaskStatusTransition.TRIGGER_TASK_CREATION,
+      );
+      task.status = Task.STATUS_READY;
+
+      return task;
+    });
+  }
+
+  /**
+   * Records the outcome of a finalized task for each operator who could answer it, within a transaction
+   *
+   * Outcomes already recorded, eg. late responses, are kept
+   *
+   * @param tx The executor of the transaction in progress
+   * @param task The finalized task
+   * @param agreeingOperatorIds The IDs of the operators agreeing with the final response, or null if the task has no final response
+   * @returns A promise that resolves once the outcomes are recorded
+   */
+  private async recordTaskOutcomes(
+    tx: SqlExecutor,
+    task: Task,
+    agreeingOperatorIds: number[] | null,
+  ): Promise<void> {
+    // without final response, the operators who answered are neither agreeing nor disagreeing
+    const answered =
+      agreeingOperatorIds == null
+        ? { sql: "?", params: [OperatorStats.OUTCOME_ANSWERED] }
+        : {
+            sql: `CASE WHEN tio.operator_id IN (${agreeingOperatorIds.map(() => "?").join(", ") || "NULL"}) THEN ? ELSE ? END`,
+            params: [
+              ...agreeingOperatorIds,
+              OperatorStats.OUTCOME_AGREED,
+              OperatorStats.OUTCOME_DISAGREED,
+            ],
+          };
+
+    await tx.run(
+      `
+      INSERT INTO operator_task_outcome (task_id, operator_id, outcome)
+      SELECT tio.task_id, tio.operator_id,
+        CASE WHEN tr.id IS NULL THEN ? ELSE ${answered.sql} END
+      FROM task_operator tio
+      LEFT JOIN task_response tr ON tr.task_id = tio.task_id AND tr.operator_id = tio.operator_id
+      WHERE tio.task_id = ?
+      ON CONFLICT (task_id, operator_id) DO NOTHING
+    `,
+      [OperatorStats.OUTCOME_MISSED, ...answered.params, task.id],
+    );
+  }
+
+  /**
+   * Cancels a task accepting responses
+   *
+   * The responses already received are kept, and no outcome is recorded for the operators
+   *
+   * @param task The task to cancel
+   * @returns A promise that resolves to true if the task was cancelled, false if it does not accept responses anymore
+   */
+  async cancelTask(task: Task): Promise<boolean> {
+    const cancelled = await this.transaction(
+      "Error cancelling task",
+      async (tx) => {
+        const status = await this.lockTask(
+          tx,
+          task.id,
+          TaskStateMachine.ACCEPTING_RESPONSES_STATUSES,
+        );
+
+        if (status == null) {
+          return false;
+        }
+
+        await this.transitionTask(
+          tx,
+          task.id,
+          status,
+          Task.STATUS_CANCELLED,
+          TaskStatusTransition.TRIGGER_ADMIN,
+        );
+
+        return true;
+      },
+    );
+
+    if (cancelled) {
+      task.status = Task.STATUS_CANCELLED;
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Counts the tasks an operator could answer, created within a period, that it did not answer
+   *
+   * @param operatorId The ID of the operator
+   * @param from The start of the period in milliseconds, excluded
+   * @param to The end of the period in milliseconds, included
+   * @returns A promise that resolves to the number of unanswered tasks
+   */
+  countUnansweredOperatorTasks(
+    operatorId: number,
+    from: number,
+    to: number,
+  ): Promise<number> {
+    return this.query("Error counting unanswered tasks", async (db) => {
+      const row = await db.get(
+        `
+          SELECT COUNT(*) AS count
+          FROM task t
+          JOIN task_operator tio ON t.id = tio.task_id AND tio.operator_id = ?
+          LEFT JOIN task_response tr ON t.id = tr.task_id AND tr.operator_id = ?
+          WHERE t.createdAt > ? AND t.createdAt <= ? AND t.status <> ? AND tr.id IS NULL
+        `,
+        [operatorId, operatorId, from, to, Task.STATUS_CANCELLED],
+      );
+
+      return row.count;
+    });
+  }
+
+  /**
+   * Fetches the indexed chain events, in the order they were emitted
+   *
+   * @returns A promise that resolves to the indexed chain events
+   */
+  fetchChainEvents(): Promise<ChainEvent[]> {
+    return this.query("Error fetching chain events", async (db) => {
+      const rows = await db.all(
+        "SELECT * FROM chain_event ORDER BY blockNumber ASC, logIndex ASC, id ASC",
+      );
+
+      return rows.map((row) => ChainEvent.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the proposals to remove inactive operators from the DVN
+   *
+   * @param status The status of the proposals to return, or undefined for all the proposals
+   * @returns A promise that resolves to the proposals, from the most recent
+   */
+  fetchEjectionProposals(status?: string): Promise<EjectionProposal[]> {
+    return this.query("Error fetching ejection proposals", async (db) => {
+      const rows =
+        status == null
+          ? await db.all("SELECT * FROM ejection_proposal ORDER BY id DESC")
+          : await db.all(
+              "SELECT * FROM ejection_proposal WHERE status = ? ORDER BY id DESC",
+              [status],
+            );
+
+      return rows.map((row) => EjectionProposal.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the tasks still waiting for responses whose deadline has passed
+   *
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves to the expired tasks, oldest deadline first
+   */
+  fetchExpiredTasks(now: number = Date.now()): Promise<Task[]> {
+    return this.query("Error fetching expired tasks", async (db) => {
+      const rows = await db.all(
+        `SELECT * FROM task WHERE status IN (${TaskStateMachine.ACCEPTING_RESPONSES_STATUSES.map(() => "?").join(", ")}) AND expiresAt <= ? ORDER BY expiresAt ASC`,
+        [...TaskStateMachine.ACCEPTING_RESPONSES_STATUSES, now],
+      );
+
+      return rows.map((row) => Task.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the hashes of the last indexed blocks, used to detect chain reorganizations
+   *
+   * @returns A promise that resolves to the indexed blocks, from the most recent one
+   */
+  fetchIndexedBlocks(): Promise<{ number: number; hash: string }[]> {
+    return this.query("Error fetching indexed blocks", async (db) => {
+      const rows = await db.all(
+        "SELECT number, hash FROM chain_block ORDER BY number DESC",
+      );
+
+      return rows.map(({ number, hash }) => ({ number, hash }));
+    });
+  }
+
+  /**
+   * Fetches the liveness of the tracked operators
+   *
+   * @returns A promise that resolves to the liveness of the operators, ordered by operator ID
+   */
+  fetchOperatorLiveness(): Promise<OperatorLiveness[]> {
+    return this.query("Error fetching operator liveness", async (db) => {
+      const rows = await db.all(
+        "SELECT * FROM operator_liveness ORDER BY operator_id ASC",
+      );
+
+      return rows.map((row) => OperatorLiveness.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the stats of the operators with the highest share of agreeing responses
+   *
+   * @param limit The maximum number of operators to return
+   * @returns A promise that resolves to the stats of the operators, ordered by agreement then by number of assigned tasks
+   */
+  fetchOperatorLeaderboard(limit: number): Promise<OperatorStats[]> {
+    return this.query("Error fetching operator leaderboard", async (db) => {
+      const rows = await db.all(
+        `
+          SELECT * FROM (
+            SELECT
+              operator_id,
+              COUNT(*) AS assigned,
+              SUM(CASE WHEN outcome IN (?, ?, ?) THEN 1 ELSE 0 END) AS answered,
+              SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS agreed,
+              SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS disagreed,
+              SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS late,
+              SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS missed
+            FROM operator_task_outcome
+            GROUP BY operator_id
+          ) stats
+          ORDER BY CAST(agreed AS REAL) / assigned DESC, assigned DESC, operator_id ASC
+          LIMIT ?
+        `,
+        [...this.getOperatorStatsParams(), limit],
+      );
+
+      return rows.map((row) => OperatorStats.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the completed tasks whose result must be submitted on-chain
+   *
+   * These are the completed tasks never submitted, and the ones whose last submission attempt failed
+   * and can be submitted again
+   *
+   * @param now The current datetime in milliseconds
+   * @param limit The maximum number of tasks to return
+   * @returns A promise that resolves to the tasks, in creation order
+   */
+  fetchPublishableTasks(now: number, limit: number): Promise<Task[]> {
+    return this.query("Error fetching publishable tasks", async (db) => {
+      const rows = await db.all(
+        `SELECT t.* FROM task t
+            INNER JOIN task_certificate c ON c.task_id = t.id
+            LEFT JOIN task_publication p ON p.task_id = t.id
+            WHERE t.status = ?
+              AND (p.task_id IS NULL OR (p.status = ? AND p.nextAttemptAt <= ?))
+            ORDER BY t.id ASC
+            LIMIT ?`,
+        [Task.STATUS_COMPLETED, TaskPublication.STATUS_PENDING, now, limit],
+      );
+
+      return rows.map((row) => Task.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the ended reward epochs with credited rewards which were not closed yet
+   *
+   * @param currentEpoch The number of the current epoch
+   * @returns A promise that resolves to the numbers of the epochs, from the oldest
+   */
+  fetchRewardEpochsToClose(currentEpoch: number): Promise<number[]> {
+    return this.query("Error fetching reward epochs to close", async (db) => {
+      const rows = await db.all(
+        `
+          SELECT DISTINCT rc.epoch
+          FROM reward_credit rc
+          LEFT JOIN reward_epoch re ON re.epoch = rc.epoch
+          WHERE rc.epoch < ? AND re.epoch IS NULL
+          ORDER BY rc.epoch ASC
+        `,
+        [currentEpoch],
+      );
+
+      return rows.map((row) => row.epoch);
+    });
+  }
+
+  /**
+   * Fetches the closed reward epochs
+   *
+   * @param limit The maximum number of epochs to return
+   * @returns A promise that resolves to the payout reports of the epochs, from the most recent
+   */
+  fetchRewardEpochs(limit: number): Promise<RewardEpoch[]> {
+    return this.query("Error fetching reward epochs", async (db) => {
+      const rows = await db.all(
+        "SELECT * FROM reward_epoch ORDER BY epoch DESC LIMIT ?",
+        [limit],
+      );
+
+      return rows.map((row) => RewardEpoch.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the payouts of a closed reward epoch
+   *
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the payouts of the epoch, ordered by operator ID
+   */
+  fetchRewardPayouts(epoch: number): Promise<RewardPayout[]> {
+    return this.query("Error fetching reward payouts", async (db) => {
+      const rows = await db.all(
+        "SELECT * FROM reward_payout WHERE epoch = ? ORDER BY operator_id ASC",
+        [epoch],
+      );
+
+      return rows.map((row) => RewardPayout.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the slashing evidence of an operator
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the slashing evidence of the operator, from the most recent
+   */
+  fetchSlashingEvidence(operatorId: number): Promise<SlashingEvidence[]> {
+    return this.query("Error fetching slashing evidence", async (db) => {
+      const rows = await db.all(
+        "SELECT * FROM slashing_evidence WHERE operator_id = ? ORDER BY task_id DESC",
+        [operatorId],
+      );
+
+      return rows.map((row) => SlashingEvidence.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the publications of task results submitted on-chain and waiting for confirmations
+   *
+   * @returns A promise that resolves to the submitted publications
+   */
+  fetchSubmittedTaskPublications(): Promise<TaskPublication[]> {
+    return this.query("Error fetching task publications", async (db) => {
+      const rows = await db.all(
+        "SELECT * FROM task_publication WHERE status = ? ORDER BY task_id ASC",
+        [TaskPublication.STATUS_SUBMITTED],
+      );
+
+      return rows.map((row) => TaskPublication.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches a page of tasks matching the given filters, ordered by creation datetime
+   *
+   * Pagination is based on a cursor: the creation datetime and ID of the last task of the previous page
+   *
+   * @param filters The filters to apply:
+   * - status: only return tasks with this status
+   * - createdFrom: only return tasks created at or after this datetime in milliseconds
+   * - createdTo: only return tasks created before this datetime in milliseconds
+   * - operatorId: only return tasks the operator sent a response to
+   * - after: only return tasks following this cursor
+   * - limit: the maximum number of tasks to return
+   * @returns A promise that resolves to the matching tasks
+   */
+  fetchTasks(filters: {
+    status?: string;
+    createdFrom?: number;
+    createdTo?: number;
+    operatorId?: number;
+    after?: { createdAt: number; id: number };
+    limit: number;
+  }): Promise<Task[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status != null) {
+      conditions.push("t.status = ?");
+      params.push(filters.status);
+    }
+
+    if (filters.createdFrom != null) {
+      conditions.push("t.createdAt >= ?");
+      params.push(filters.createdFrom);
+    }
+
+    if (filters.createdTo != null) {
+      conditions.push("t.createdAt < ?");
+      params.push(filters.createdTo);
+    }
+
+    if (filters.operatorId != null) {
+      conditions.push(
+        "t.id IN (SELECT tr.task_id FROM task_response tr WHERE tr.operator_id = ?)",
+      );
+      params.push(filters.operatorId);
+    }
+
+    if (filters.after != null) {
+      conditions.push("(t.createdAt > ? OR (t.createdAt = ? AND t.id > ?))");
+      params.push(
+        filters.after.createdAt,
+        filters.after.createdAt,
+        filters.after.id,
+      );
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    return this.query("Error fetching tasks", async (db) => {
+      const rows = await db.all(
+        `SELECT t.* FROM task t ${where} ORDER BY t.createdAt ASC, t.id ASC LIMIT ?`,
+        [...params, filters.limit],
+      );
+
+      return rows.map((row) => Task.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the tasks waiting for responses created after a given task
+   *
+   * @param taskId The ID of the last known task
+   * @param limit The maximum number of tasks to return
+   * @returns A promise that resolves to the tasks, ordered by ID
+   */
+  fetchReadyTasksAfter(taskId: number, limit: number): Promise<Task[]> {
+    return this.query("Error fetching tasks", async (db) => {
+      const rows = await db.all(
+        `SELECT * FROM task WHERE id > ? AND status IN (${TaskStateMachine.ACCEPTING_RESPONSES_STATUSES.map(() => "?").join(", ")}) ORDER BY id ASC LIMIT ?`,
+        [taskId, ...TaskStateMachine.ACCEPTING_RESPONSES_STATUSES, limit],
+      );
+
+      return rows.map((row) => Task.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Fetches the next unresolved task for a given operator, among the tasks the operator can answer
+   *
+   * Tasks whose deadline has passed are not returned, even if they have not been finalized yet
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the next unresolved task or undefined if no task is found
+   */
+  fetchNextUnresolvedTask(operatorId: number): Promise<Task | undefined> {
+    return this.query("Error fetching task", async (db) => {
+      const row = await db.get(
+        `
+          SELECT t.*
+          FROM task t
+          JOIN task_operator tio ON t.id = tio.task_id AND tio.operator_id = ?
+          LEFT JOIN task_response tr ON t.id = tr.task_id AND tr.operator_id = ?
+          WHERE t.status IN (${TaskStateMachine.ACCEPTING_RESPONSES_STATUSES.map(() => "?").join(", ")}) AND t.expiresAt > ? AND tr.id IS NULL
+          ORDER BY t.createdAt ASC
+          LIMIT 1
+        `,
+        [
+          operatorId,
+          operatorId,
+          ...TaskStateMachine.ACCEPTING_RESPONSES_STATUSES,
+          Date.now(),
+        ],
+      );
+
+      return row == null ? undefined : Task.buildFromDatabase(row);
+    });
+  }
+
+  /**
+   * Retrieves the address of the DVNCoordinator whose events are indexed
+   *
+   * @returns A promise that resolves to the address, or undefined if nothing was indexed yet
+   */
+  getChainIndexDVNCoordinator(): Promise<string | undefined> {
+    return this.query("Error fetching chain index", async (db) => {
+      const row = await db.get(
+        "SELECT dvnCoordinator FROM chain_index WHERE id = 1",
+      );
+
+      return row?.dvnCoordinator;
+    });
+  }
+
+  /**
+   * Retrieves the IDs of the operators marked as inactive by the liveness monitor
+   *
+   * @returns A promise that resolves to the IDs of the inactive operators
+   */
+  getInactiveOperators(): Promise<number[]> {
+    return this.query("Error fetching inactive operators", async (db) => {
+      const rows = await db.all(
+        "SELECT operator_id FROM operator_liveness WHERE status = ?",
+        [OperatorLiveness.STATUS_INACTIVE],
+      );
+
+      return rows.map((row) => row.operator_id);
+    });
+  }
+
+  /**
+   * Retrieves the ID of the last created task
+   *
+   * @returns A promise that resolves to the ID of the last task, or 0 if there are no tasks
+   */
+  getLastTaskId(): Promise<number> {
+    return this.query("Error fetching last task", async (db) => {
+      const row = await db.get("SELECT MAX(id) as id FROM task");
+
+      return row?.id ?? 0;
+    });
+  }
+
+  /**
+   * Retrieves the stats of an operator, aggregated from the outcomes of the finalized tasks it could answer
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the stats of the operator
+   */
+  getOperatorStats(operatorId: number): Promise<OperatorStats> {
+    return this.query("Error fetching operator stats", async (db) => {
+      const row = await db.get(
+        `
+          SELECT
+            operator_id,
+            COUNT(*) AS assigned,
+            SUM(CASE WHEN outcome IN (?, ?, ?) THEN 1 ELSE 0 END) AS answered,
+            SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS agreed,
+            SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS disagreed,
+            SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS late,
+            SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS missed
+          FROM operator_task_outcome
+          WHERE operator_id = ?
+          GROUP BY operator_id
+        `,
+        [...this.getOperatorStatsParams(), operatorId],
+      );
+
+      return row == null
+        ? OperatorStats.build(operatorId)
+        : OperatorStats.buildFromDatabase(row);
+    });
+  }
+
+  /**
+   * Lists the outcomes counted by each column of the operator stats queries
+   *
+   * @returns The parameters of the operator stats queries
+   */
+  private getOperatorStatsParams(): string[] {
+    return [
+      OperatorStats.OUTCOME_ANSWERED,
+      OperatorStats.OUTCOME_AGREED,
+      OperatorStats.OUTCOME_DISAGREED,
+      OperatorStats.OUTCOME_AGREED,
+      OperatorStats.OUTCOME_DISAGREED,
+      OperatorStats.OUTCOME_LATE,
+      OperatorStats.OUTCOME_MISSED,
+    ];
+  }
+
+  /**
+   * Retrieves the rewards credited during a reward epoch, summed by operator
+   *
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the rewards of each operator, indexed by operator ID
+   */
+  getRewardCredits(epoch: number): Promise<Map<number, bigint>> {
+    return this.query("Error fetching reward credits", async (db) => {
+      const rows = await db.all(
+        "SELECT operator_id, amount FROM reward_credit WHERE epoch = ?",
+        [epoch],
+      );
+
+      // amounts are stored as text, as they may exceed the range of SQLite integers once summed
+      const credits = new Map<number, bigint>();
+
+      rows.forEach((row) => {
+        credits.set(
+          row.operator_id,
+          (credits.get(row.operator_id) ?? 0n) + BigInt(row.amount),
+        );
+      });
+
+      return credits;
+    });
+  }
+
+  /**
+   * Retrieves a closed reward epoch
+   *
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the payout report of the epoch, or undefined if the epoch is not closed
+   */
+  getRewardEpoch(epoch: number): Promise<RewardEpoch | undefined> {
+    return this.query("Error fetching reward epoch", async (db) => {
+      const row = await db.get("SELECT * FROM reward_epoch WHERE epoch = ?", [
+        epoch,
+      ]);
+
+      return row == null ? undefined : RewardEpoch.buildFromDatabase(row);
+    });
+  }
+
+  /**
+   * Retrieves a task from the database by its ID
+   *
+   * @param taskId The ID of the task to retrieve
+   * @returns A promise that resolves to the task if found, or rejects with an error message if not found or if there is an error fetching the task
+   */
+  async getTask(taskId: number): Promise<Task> {
+    const row = await this.query("Error fetching task", (db) =>
+      db.get("SELECT * FROM task WHERE id = ?", [taskId]),
+    );
+
+    if (row == null) {
+      throw `Task with ID ${taskId} not found`;
+    }
+
+    return Task.buildFromDatabase(row);
+  }
+
+  /**
+   * Retrieves the certificate of a completed task
+   *
+   * @param task The task for which to fetch the certificate
+   * @returns A promise that resolves to the certificate of the task, or undefined if the task is not completed
+   */
+  getTaskCertificate(task: Task): Promise<TaskCertificate | undefined> {
+    return this.query("Error fetching task certificate", async (db) => {
+      const row = await db.get(
+        "SELECT * FROM task_certificate WHERE task_id = ?",
+        [task.id],
+      );
+
+      return row == null ? undefined : TaskCertificate.buildFromDatabase(row);
+    });
+  }
+
+  /**
+   * Retrieves the IDs of the operators who can answer a task
+   *
+   * @param task The task
+   * @returns A promise that resolves to the IDs of the operators registered to the DVN when the task was created
+   */
+  getTaskOperators(task: Task): Promise<number[]> {
+    return this.query("Error fetching task operators", async (db) => {
+      const rows = await db.all(
+        "SELECT operator_id FROM task_operator WHERE task_id = ? ORDER BY operator_id ASC",
+        [task.id],
+      );
+
+      return rows.map((row) => row.operator_id);
+    });
+  }
+
+  /**
+   * Retrieves the stakes of the active operators who can answer a task, as read at its snapshot block
+   *
+   * @param task The task
+   * @returns A promise that resolves to the stake of each operator, indexed by operator ID, inactive operators and operators without stake being omitted
+   */
+  getTaskOperatorStakes(task: Task): Promise<Map<number, bigint>> {
+    return this.query("Error fetching task operator stakes", (db) =>
+      this.readTaskOperatorStakes(db, task),
+    );
+  }
+
+  /**
+   * Reads the stake of the active operators who can answer a task
+   *
+   * @param db The executor, within a transaction or not
+   * @param task The task
+   * @returns A promise that resolves to the stake of each active operator with a known stake, indexed by operator ID
+   */
+  private async readTaskOperatorStakes(
+    db: SqlExecutor,
+    task: Task,
+  ): Promise<Map<number, bigint>> {
+    const rows = await db.all(
+      "SELECT operator_id, stake FROM task_operator WHERE task_id = ? AND active = 1 AND stake IS NOT NULL",
+      [task.id],
+    );
+
+    return new Map(rows.map((row) => [row.operator_id, BigInt(row.stake)]));
+  }
+
+  /**
+   * Retrieves the on-chain publication of the result of a task
+   *
+   * @param task The task for which to fetch the publication
+   * @returns A promise that resolves to the publication, or undefined if the result was never submitted
+   */
+  getTaskPublication(task: Task): Promise<TaskPublication | undefined> {
+    return this.query("Error fetching task publication", async (db) => {
+      const row = await db.get(
+        "SELECT * FROM task_publication WHERE task_id = ?",
+        [task.id],
+      );
+
+      return row == null ? undefined : TaskPublication.buildFromDatabase(row);
+    });
+  }
+
+  /**
+   * Retrieves a task from the database by the idempotency key used to create it
+   *
+   * @param idempotencyKey The idempotency key of the task
+   * @returns A promise that resolves to the task if found, or undefined otherwise
+   */
+  getTaskByIdempotencyKey(idempotencyKey: string): Promise<Task | undefined> {
+    return this.query("Error fetching task", async (db) => {
+      const row = await db.get("SELECT * FROM task WHERE idempotencyKey = ?", [
+        idempotencyKey,
+      ]);
+
+      return row == null ? undefined : Task.buildFromDatabase(row);
+    });
+  }
+
+  /**
+   * Retrieves the responses for a given task from the database
+   *
+   * @param task The task for which to fetch responses
+   * @returns A promise that resolves to an array of TaskResponse objects, or rejects if there is an issue fetching them
+   */
+  getTaskResponses(task: Task): Promise<TaskResponse[]> {
+    return this.query("Error fetching task responses", (db) =>
+      this.readTaskResponses(db, task),
+    );
+  }
+
+  /**
+   * Reads the responses of a task
+   *
+   * @param db The executor, within a transaction or not
+   * @param task The task
+   * @returns A promise that resolves to the responses of the task
+   */
+  private async readTaskResponses(
+    db: SqlExecutor,
+    task: Task,
+  ): Promise<TaskResponse[]> {
+    const rows = await db.all("SELECT * FROM task_response WHERE task_id = ?", [
+      task.id,
+    ]);
+
+    return rows.map((row) => TaskResponse.buildFromDatabase(row));
+  }
+
+  /**
+   * Retrieves the count of responses for a given task from the database
+   *
+   * @param task The task for which to count responses
+   * @returns A promise that resolves to the number of responses for the specified task, or rejects if there is an issue counting them
+   */
+  getTaskResponsesCount(task: Task): Promise<number> {
+    return this.query("Error fetching task responses count", async (db) => {
+      const row = await db.get(
+        "SELECT COUNT(*) as count FROM task_response WHERE task_id = ?",
+        [task.id],
+      );
+
+      return row.count;
+    });
+  }
+
+  /**
+   * Retrieves the status history of a task
+   *
+   * @param task The task
+   * @returns A promise that resolves to the transitions of the task, oldest first
+   */
+  getTaskStatusHistory(task: Task): Promise<TaskStatusTransition[]> {
+    return this.query("Error fetching task status history", async (db) => {
+      const rows = await db.all(
+        "SELECT * FROM task_status_history WHERE task_id = ? ORDER BY id ASC",
+        [task.id],
+      );
+
+      return rows.map((row) => TaskStatusTransition.buildFromDatabase(row));
+    });
+  }
+
+  /**
+   * Handles the scenario where consensus is not reached for a given task
+   *
+   * This method updates the status of the task in the database to indicate that consensus was not reached,
+   * and records the outcome of the task for each operator who could answer it
+   *
+   * @param task The task for which consensus was not reached
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore or could not be updated
+   */
+  async handleConsensusNotReached(task: Task): Promise<Task> {
+    const finalization = { status: Task.STATUS_CONSENSUS_NOT_REACHED };
+
+    await this.transaction("Error updating task status", (tx) =>
+      this.finalizeAcceptingTask(tx, task, finalization),
+    );
+
+    return SqlTaskStore.applyFinalization(task, finalization);
+  }
+
+  /**
+   * Handles the scenario where a task reached its deadline without reaching the quorum
+   *
+   * This method updates the status of the task in the database to indicate that the task expired,
+   * and records the outcome of the task for each operator who could answer it
+   *
+   * @param task The expired task
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore
+   */
+  async handleTaskExpired(task: Task): Promise<Task> {
+    const finalization = { status: Task.STATUS_EXPIRED };
+
+    await this.transaction("Error updating task status", (tx) =>
+      this.finalizeAcceptingTask(tx, task, finalization),
+    );
+
+    return SqlTaskStore.applyFinalization(task, finalization);
+  }
+
+  /**
+   * Finalizes a task past its deadline, evaluating the responses received so far
+   *
+   * The task is locked while its responses are evaluated, and marked as expired if the evaluation
+   * does not finalize it, so that a response registered meanwhile cannot finalize it twice
+   *
+   * @param task The expired task
+   * @param evaluate The evaluation of the responses of the task against its quorum policy
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task was already finalized
+   */
+  async finalizeExpiredTask(
+    task: Task,
+    evaluate: TaskEvaluator,
+  ): Promise<TaskFinalization | undefined> {
+    const finalization = await this.transaction(
+      "Error finalizing task",
+      async (tx) => {
+        const status = await this.lockTask(
+          tx,
+          task.id,
+          TaskStateMachine.ACCEPTING_RESPONSES_STATUSES,
+        );
+
+        if (status == null) {
+          return undefined;
+        }
+
+        const finalization = (await this.evaluateTask(tx, task, evaluate)) ?? {
+          status: Task.STATUS_EXPIRED,
+        };
+
+        await this.finalizeTask(
+          tx,
+          task,
+          status,
+          finalization,
+          TaskStatusTransition.TRIGGER_TASK_FINALIZER,
+        );
+
+        return finalization;
+      },
+    );
+
+    if (finalization != null) {
+      SqlTaskStore.applyFinalization(task, finalization);
+    }
+
+    return finalization;
+  }
+
+  /**
+   * Checks if an operator is part of the operators who can answer a task
+   *
+   * @param task The task
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to true if the operator was registered to the DVN when the task was created
+   */
+  operatorCanAnswerTask(task: Task, operatorId: number): Promise<boolean> {
+    return this.query("Error fetching task operator", async (db) => {
+      const row = await db.get(
+        "SELECT 1 FROM task_operator WHERE task_id = ? AND operator_id = ?",
+        [task.id, operatorId],
+      );
+
+      return row != null;
+    });
+  }
+
+  /**
+   * Checks if an operator has sent a response to a specific task
+   *
+   * @param task The task for which the response is being checked
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to true if the operator has sent a response, otherwise false
+   */
+  operatorSentTaskResponse(task: Task, operatorId: number): Promise<boolean> {
+    return this.query("Error fetching task response", async (db) => {
+      const row = await db.get(
+        "SELECT 1 FROM task_response WHERE task_id = ? AND operator_id = ?",
+        [task.id, operatorId],
+      );
+
+      return row != null;
+    });
+  }
+
+  /**
+   * Runs queries on the database, outside of any transaction
+   *
+   * @param context The description of the queries, prefixing the error message if they fail
+   * @param work The function running the queries with the given executor
+   * @returns A promise that resolves to the result of the work, or rejects with an error message
+   */
+  private query<T>(
+    context: string,
+    work: (db: SqlExecutor) => Promise<T>,
+  ): Promise<T> {
+    return work(this.database).catch((err) =>
+      Promise.reject(`${context}: ${err}`),
+    );
+  }
+
+  /**
+   * Records the activity of an operator, tracking it if it was not tracked yet
+   *
+   * @param operatorId The ID of the operator
+   * @param column The column of the activity: 'lastPollAt' or 'lastResponseAt'
+   * @returns A promise that resolves when the activity is recorded
+   */
+  private recordOperatorActivity(
+    operatorId: number,
+    column: "lastPollAt" | "lastResponseAt",
+  ): Promise<void> {
+    const now = Date.now();
+
+    return this.query("Error recording operator activity", async (db) => {
+      await db.run(
+        `INSERT INTO operator_liveness (operator_id, status, firstSeenAt, ${column}, updatedAt)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (operator_id) DO UPDATE SET ${column} = excluded.${column}`,
+        [operatorId, OperatorLiveness.STATUS_ACTIVE, now, now, now],
+      );
+    });
+  }
+
+  /**
+   * Records that an operator polled for tasks
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the poll is recorded
+   */
+  recordOperatorPoll(operatorId: number): Promise<void> {
+    return this.recordOperatorActivity(operatorId, "lastPollAt");
+  }
+
+  /**
+   * Records that an operator answered a task
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the response is recorded
+   */
+  recordOperatorResponse(operatorId: number): Promise<void> {
+    return this.recordOperatorActivity(operatorId, "lastResponseAt");
+  }
+
+  /**
+   * Registers the final response of a task, along with its certificate, and marks the task as completed
+   *
+   * The outcome of the task is recorded for each operator who could answer it, the agreeing operators are
+   * credited with the reward of the task type in the current reward epoch, and the slashing evidence of
+   * the disagreeing operators is stored
+   *
+   * @param task The task reaching consensus
+   * @param response The final response of the task
+   * @param certificate The certificate attesting the final response
+   * @param evidence The slashing evidence of the signed responses disagreeing with the final response
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore, or if the task or its certificate could not be stored
+   */
+  async registerFinalTaskResponse(
+    task: Task,
+    response: string,
+    certificate: TaskCertificate,
+    evidence: SlashingEvidence[] = [],
+  ): Promise<Task> {
+    // the operators whose signature is part of the certificate agreed with the final response
+    const finalization = {
+      status: Task.STATUS_COMPLETED,
+      response,
+      agreeingOperatorIds: certificate.signatures.map(
+        ({ operatorId }) => operatorId,
+      ),
+      certificate,
+      evidence,
+    };
+
+    await this.transaction("Error updating task response", (tx) =>
+      this.finalizeAcceptingTask(tx, task, finalization),
+    );
+
+    return SqlTaskStore.applyFinalization(task, finalization);
+  }
+
+  /**
+   * Locks a task until the end of the transaction, if it is in one of the given statuses
+   *
+   * The update does not change the task, but it locks its row so that the transactions
+   * registering responses to the task or changing its status run one after the other
+   *
+   * @param tx The executor of the transaction in progress
+   * @param taskId The ID of the task
+   * @param statuses The statuses the task must be in
+   * @param now The current datetime in milliseconds, to lock the task only if it is not past its deadline
+   * @returns A promise that resolves to the status of the locked task, or undefined if the task is not in the given statuses
+   */
+  private async lockTask(
+    tx: SqlExecutor,
+    taskId: number,
+    statuses: string[],
+    now?: number,
+  ): Promise<string | undefined> {
+    const row = await tx.get(
+      `UPDATE task SET status = status WHERE id = ? AND status IN (${statuses.map(() => "?").join(", ")})${now != null ? " AND expiresAt > ?" : ""} RETURNING status`,
+      [taskId, ...statuses, ...(now != null ? [now] : [])],
+    );
+
+    return row?.status;
+  }
+
+  /**
+   * Records a transition in the status history of a task
+   *
+   * @param tx The executor of the transaction in progress
+   * @param taskId The ID of the task
+   * @param from The status of the task before the transition, or null for its creation
+   * @param to The status of the task after the transition
+   * @param triggeredBy What triggered the transition, see TaskStatusTransition.TRIGGER_*
+   * @param operatorId The ID of the operator whose response triggered the transition
+   * @returns A promise that resolves once the transition is recorded
+   */
+  private async recordTransition(
+    tx: SqlExecutor,
+    taskId: number,
+    from: string | null,
+    to: string,
+    triggeredBy: string,
+    operatorId?: number,
+  ): Promise<void> {
+    await tx.run(
+      "INSERT INTO task_status_history (task_id, fromStatus, toStatus, triggeredBy, operator_id, createdAt) VALUES (?, ?, ?, ?, ?, ?)",
+      [taskId, from, to, triggeredBy, operatorId ?? null, Date.now()],
+    );
+  }
+
+  /**
+   * Transitions a task from a status to another, as allowed by the TaskStateMachine, and records the transition
+   *
+   * @param tx The executor of the transaction in progress
+   * @param taskId The ID of the task
+   * @param from The current status of the task
+   * @param to The new status of the task
+   * @param triggeredBy What triggered the transition, see TaskStatusTransition.TRIGGER_*
+   * @param operatorId The ID of the operator whose response triggered the transition
+   * @returns A promise that resolves once the task is updated, or rejects if the transition is not allowed
+   * or if the task is not in the current status anymore
+   */
+  private async transitionTask(
+    tx: SqlExecutor,
+    taskId: number,
+    from: string,
+    to: string,
+    triggeredBy: string,
+    operatorId?: number,
+  ): Promise<void> {
+    TaskStateMachine.assertTransition(taskId, from, to);
+
+    const { changes } = await tx.run(
+      "UPDATE task SET status = ? WHERE id = ? AND status = ?",
+      [to, taskId, from],
+    );
+
+    if (changes === 0) {
+      throw `Task ${taskId} is not ${from} anymore`;
+    }
+
+    await this.recordTransition(tx, taskId, from, to, triggeredBy, operatorId);
+  }
+
+  /**
+   * Evaluates the responses of a locked task
+   *
+   * @param tx The executor of the transaction in progress
+   * @param task The locked task
+   * @param evaluate The evaluation of the responses of the task against its quorum policy
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task keeps accepting responses
+   */
+  private async evaluateTask(
+    tx: SqlExecutor,
+    task: Task,
+    evaluate: TaskEvaluator,
+  ): Promise<TaskFinalization | undefined> {
+    const responses = await this.readTaskResponses(tx, task);
+    const stakes = task.quorumPolicy.isStakeWeighted()
+      ? await this.readTaskOperatorStakes(tx, task)
+      : undefined;
+
+    return evaluate(responses, stakes);
+  }
+
+  /**
+   * Finalizes a task accepting responses with a decision made outside of the response flow, within a transaction
+   *
+   * @param tx The executor of the transaction in progress
+   * @param task The task to finalize
+   * @param finalization The final status of the task, and its final response when completed
+   * @returns A promise that resolves once the task is finalized, or rejects if the task does not accept responses anymore
+   */
+  private async finalizeAcceptingTask(
+    tx: SqlExecutor,
+    task: Task,
+    finalization: TaskFinalization,
+  ): Promise<void> {
+    const status = await this.lockTask(
+      tx,
+      task.id,
+      TaskStateMachine.ACCEPTING_RESPONSES_STATUSES,
+    );
+
+    if (status == null) {
+      throw `Task ${task.id} is already finalized`;
+    }
+
+    await this.finalizeTask(
+      tx,
+      task,
+      status,
+      finalization,
+      TaskStatusTransition.TRIGGER_TASK_AGGREGATOR,
+    );
+  }
+
+  /**
+   * Transitions a task accepting responses to its final status, within a transaction
+   *
+   * The responses of the task are aggregated before it is completed or marked as not having reached consensus,
+   * while an expired task is finalized directly. The outcome of the task is recorded for each operator who could
+   * answer it. Once completed, the certificate and the slashing evidence of the task are stored, and the agreeing
+   * operators are credited with the reward of the task type in the current reward epoch
+   *
+   * @param tx The executor of the transaction in progress
+   * @param task The locked task
+   * @param status The current status of the task
+   * @param finalization The final status of the task, and its final response when completed
+   * @param triggeredBy What triggered the finalization, see TaskStatusTransition.TRIGGER_*
+   * @param operatorId The ID of the operator whose response triggered the finalization
+   * @returns A promise that resolves once the task is finalized, or rejects if the transitions are not allowed
+   */
+  private async finalizeTask(
+    tx: SqlExecutor,
+    task: Task,
+    status: string,
+    finalization: TaskFinalization,
+    triggeredBy: string,
+    operatorId?: number,
+  ): Promise<void> {
+    if (!TaskStateMachine.FINALIZATION_STATUSES.includes(finalization.status)) {
+      throw `Task ${task.id} cannot be finalized as ${finalization.status}`;
+    }
+
+    let from = status;
+
+    if (finalization.status !== Task.STATUS_EXPIRED) {
+      await this.transitionTask(
+        tx,
+        task.id,
+        from,
+        Task.STATUS_AGGREGATING,
+        triggeredBy,
+        operatorId,
+      );
+      from = Task.STATUS_AGGREGATING;
+    }
+
+    await this.transitionTask(
+      tx,
+      task.id,
+      from,
+      finalization.status,
+      triggeredBy,
+      operatorId,
+    );
+
+    if (finalization.status !== Task.STATUS_COMPLETED) {
+      await this.recordTaskOutcomes(tx, task, null);
+
+      return;
+    }
+
+    await tx.run("UPDATE task SET response = ? WHERE id = ?", [
+      finalization.response,
+      task.id,
+    ]);
+
+    const certificate = finalization.certificate!;
+
+    await tx.run(
+      "INSERT INTO task_certificate (task_id, certificate, createdAt) VALUES (?, ?, ?)",
+      [task.id, JSON.stringify(certificate), certificate.createdAt],
+    );
+
+    for (const item of finalization.evidence ?? []) {
+      await tx.run(
+        "INSERT INTO slashing_evidence (task_id, operator_id, chainId, dvnCoordinator, taskType, operatorOwner, response, signature, signatureVersion, finalResponse, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT (task_id, operator_id) DO NOTHING",
+        [
+          item.taskId,
+          item.operatorId,
+          item.chainId,
+          item.dvnCoordinator,
+          item.taskType,
+          item.operatorOwner,
+          item.response,
+          item.signature,
+          item.signatureVersion,
+          item.finalResponse,
+          item.createdAt,
+        ],
+      );
+    }
+
+    // the agreeing operators are those of the consensus, whether their signature is part of the certificate or not
+    await this.recordTaskOutcomes(tx, task, finalization.agreeingOperatorIds!);
+
+    const now = Date.now();
+    const reward = ConfigHelper.getRewardAmount(task.type);
+
+    if (reward === 0n) {
+      return;
+    }
+
+    // the values selected are cast, as PostgreSQL cannot infer the type of the placeholders of a SELECT
+    await tx.run(
+      `
+        INSERT INTO reward_credit (task_id, operator_id, epoch, amount, createdAt)
+        SELECT task_id, operator_id, CAST(? AS BIGINT), CAST(? AS TEXT), CAST(? AS BIGINT)
+        FROM operator_task_outcome
+        WHERE task_id = ? AND outcome = ?
+        ON CONFLICT (task_id, operator_id) DO NOTHING
+      `,
+      [
+        Math.floor(now / ConfigHelper.getRewardEpochDuration()),
+        reward.toString(),
+        now,
+        task.id,
+        OperatorStats.OUTCOME_AGREED,
+      ],
+    );
+  }
+
+  /**
+   * Updates a task with its finalization, once committed
+   *
+   * @param task The finalized task
+   * @param finalization The final status of the task, and its final response when completed
+   * @returns The updated task
+   */
+  private static applyFinalization(
+    task: Task,
+    finalization: TaskFinalization,
+  ): Task {
+    task.status = finalization.status;
+    task.response = finalization.response;
+
+    return task;
+  }
+
+  /**
+   * Records that an operator sent its response once a task stopped accepting responses
+   *
+   * A late response replaces the missed outcome of a finalized task, or is recorded ahead of the finalization
+   * of a task past its deadline
+   *
+   * @param task The task the response was sent to
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the late response is recorded
+   */
+  registerLateTaskResponse(task: Task, operatorId: number): Promise<void> {
+    return this.query("Error recording late response", async (db) => {
+      await db.run(
+        `INSERT INTO operator_task_outcome (task_id, operator_id, outcome) VALUES (?, ?, ?)
+            ON CONFLICT (task_id, operator_id) DO UPDATE SET outcome = excluded.outcome WHERE operator_task_outcome.outcome = ?`,
+        [
+          task.id,
+          operatorId,
+          OperatorStats.OUTCOME_LATE,
+          OperatorStats.OUTCOME_MISSED,
+        ],
+      );
+    });
+  }
+
+  /**
+   * Registers a response from an operator for a given task
+   *
+   * The response is inserted, the responses of the task evaluated and the task finalized in a single transaction,
+   * while the task is locked: the responses sent together are evaluated one after the other, so that the task is
+   * finalized once, and no response is accepted once the task is finalized or past its deadline
+   *
+   * @param task The task for which the response is being registered
+   * @param operatorId The ID of the operator sending the response
+   * @param response The response content from the operator
+   * @param signature The signature of the operator for the response
+   * @param signatureVersion The signing scheme of the signature
+   * @param evaluate The evaluation of the responses of the task against its quorum policy, once the response is inserted
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task keeps accepting responses,
+   * or rejects with TaskResponse.ERROR_* if the response is not accepted, or with an error message
+   */
+  async registerOperatorTaskResponse(
+    task: Task,
+    operatorId: number,
+    response: string,
+    signature: string,
+    signatureVersion: number,
+    evaluate?: TaskEvaluator,
+  ): Promise<TaskFinalization | undefined> {
+    const now = Date.now();
+
+    const { rejection, finalization } = await this.transaction<{
+      rejection?: string;
+      finalization?: TaskFinalization;
+    }>("Error inserting task response", async (tx) => {
+      const status = await this.lockTask(
+        tx,
+        task.id,
+        TaskStateMachine.ACCEPTING_RESPONSES_STATUSES,
+        now,
+      );
+
+      if (status == null) {
+        return { rejection: TaskResponse.ERROR_TASK_NOT_ACCEPTING };
+      }
+
+      // the responses to the task are registered one at a time while it is locked, so the check cannot be raced
+      const sent = await tx.get(
+        "SELECT 1 FROM task_response WHERE task_id = ? AND operator_id = ?",
+        [task.id, operatorId],
+      );
+
+      if (sent != null) {
+        return { rejection: TaskResponse.ERROR_ALREADY_SENT };
+      }
+
+      await tx.run(
+        "INSERT INTO task_response (task_id, operator_id, response, createdAt, signature, signatureVersion) VALUES (?, ?, ?, ?, ?, ?)",
+        [task.id, operatorId, response, now, signature, signatureVersion],
+      );
+
+      if (status === Task.STATUS_READY) {
+        await this.transitionTask(
+          tx,
+          task.id,
+          Task.STATUS_READY,
+          Task.STATUS_IN_PROGRESS,
+          TaskStatusTransition.TRIGGER_OPERATOR_RESPONSE,
+          operatorId,
+        );
+      }
+
+      const finalization =
+        evaluate != null
+          ? await this.evaluateTask(tx, task, evaluate)
+          : undefined;
+
+      if (finalization != null) {
+        await this.finalizeTask(
+          tx,
+          task,
+          Task.STATUS_IN_PROGRESS,
+          finalization,
+          TaskStatusTransition.TRIGGER_OPERATOR_RESPONSE,
+          operatorId,
+        );
+      }
+
+      return { finalization };
+    });
+
+    if (rejection != null) {
+      throw rejection;
+    }
+
+    SqlTaskStore.applyFinalization(
+      task,
+      finalization ?? { status: Task.STATUS_IN_PROGRESS },
+    );
+
+    return finalization;
+  }
+
+  /**
+   * Closes a proposal to remove an operator from the DVN, if it is still proposed
+   *
+   * @param id The ID of the proposal
+   * @param status The closing status, see EjectionProposal.STATUS_*
+   * @param resolution How the proposal was closed
+   * @returns A promise that resolves to true if the proposal was closed, false if it was not found or already closed
+   */
+  resolveEjectionProposal(
+    id: number,
+    status: string,
+    resolution: string,
+  ): Promise<boolean> {
+    return this.query("Error closing ejection proposal", async (db) => {
+      const { changes } = await db.run(
+        "UPDATE ejection_proposal SET status = ?, resolvedAt = ?, resolution = ? WHERE id = ? AND status = ?",
+        [status, Date.now(), resolution, id, EjectionProposal.STATUS_PROPOSED],
+      );
+
+      return changes > 0;
+    });
+  }
+
+  /**
+   * Stores the chain events of a range of indexed blocks, along with the hashes of these blocks
+   *
+   * @param events The events emitted in the range of blocks
+   * @param blocks The number and hash of the blocks to remember, at least the last block of the range
+   * @param pruneBefore The number of the oldest block whose hash is kept
+   * @returns A promise that resolves when the events and blocks are stored, or rejects if nothing was stored
+   */
+  saveIndexedBlocks(
+    events: ChainEvent[],
+    blocks: { number: number; hash: string }[],
+    pruneBefore: number,
+  ): Promise<void> {
+    return this.transaction("Error storing indexed blocks", async (tx) => {
+      for (const event of events) {
+        await tx.run(
+          "INSERT INTO chain_event (blockNumber, blockHash, logIndex, txHash, contract, name, operator_id, value) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+          [
+            event.blockNumber,
+            event.blockHash,
+            event.logIndex,
+            event.txHash,
+            event.contract,
+            event.name,
+            event.operatorId,
+            event.value,
+          ],
+        );
+      }
+
+      for (const block of blocks) {
+        await tx.run(
+          "INSERT INTO chain_block (number, hash) VALUES (?, ?) ON CONFLICT (number) DO UPDATE SET hash = excluded.hash",
+          [block.number, block.hash],
+        );
+      }
+
+      await tx.run("DELETE FROM chain_block WHERE number < ?", [pruneBefore]);
+    });
+  }
+
+  /**
+   * Stores the liveness status of operators, tracking the operators not tracked yet
+   *
+   * The last poll and response of the tracked operators are left untouched, as they are recorded concurrently
+   *
+   * @param livenesses The liveness of the operators
+   * @returns A promise that resolves when all the statuses are stored
+   */
+  saveOperatorLivenessStatus(livenesses: OperatorLiveness[]): Promise<void> {
+    return this.transaction("Error storing operator liveness", async (tx) => {
+      for (const liveness of livenesses) {
+        await tx.run(
+          `INSERT INTO operator_liveness
+              (operator_id, status, firstSeenAt, inactiveSince, reason, updatedAt)
+              VALUES (?, ?, ?, ?, ?, ?)
+              ON CONFLICT (operator_id) DO UPDATE SET
+                status = excluded.status,
+                inactiveSince = excluded.inactiveSince,
+                reason = excluded.reason,
+                updatedAt = excluded.updatedAt`,
+          [
+            liveness.operatorId,
+            liveness.status,
+            liveness.firstSeenAt,
+            liveness.inactiveSince,
+            liveness.reason,
+            liveness.updatedAt,
+          ],
+        );
+      }
+    });
+  }
+
+  /**
+   * Stores the payout report of a closed reward epoch, along with its payouts
+   *
+   * @param epoch The payout report of the epoch
+   * @param payouts The payouts of the epoch
+   * @returns A promise that resolves when the epoch is stored, or rejects if nothing was stored
+   */
+  saveRewardEpoch(epoch: RewardEpoch, payouts: RewardPayout[]): Promise<void> {
+    return this.transaction("Error storing reward epoch", async (tx) => {
+      await tx.run(
+        "INSERT INTO reward_epoch (epoch, startsAt, endsAt, merkleRoot, totalAmount, operatorsCount, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        [
+          epoch.epoch,
+          epoch.startsAt,
+          epoch.endsAt,
+          epoch.merkleRoot,
+          epoch.totalAmount,
+          epoch.operatorsCount,
+          epoch.createdAt,
+        ],
+      );
+
+      for (const payout of payouts) {
+        await tx.run(
+          "INSERT INTO reward_payout (epoch, operator_id, rewardAddress, amount) VALUES (?, ?, ?, ?)",
+          [
+            payout.epoch,
+            payout.operatorId,
+            payout.rewardAddress,
+            payout.amount,
+          ],
+        );
+      }
+    });
+  }
+
+  /**
+   * Stores the on-chain publications of task results, creating or updating them
+   *
+   * @param publications The publications to store
+   * @returns A promise that resolves when all the publications are stored
+   */
+  saveTaskPublications(publications: TaskPublication[]): Promise<void> {
+    return this.transaction("Error storing task publications", async (tx) => {
+      for (const publication of publications) {
+        await tx.run(
+          `INSERT INTO task_publication
+              (task_id, status, txHash, blockNumber, confirmations, attempts, lastError, nextAttemptAt, updatedAt)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT (task_id) DO UPDATE SET
+                status = excluded.status,
+                txHash = excluded.txHash,
+                blockNumber = excluded.blockNumber,
+                confirmations = excluded.confirmations,
+                attempts = excluded.attempts,
+                lastError = excluded.lastError,
+                nextAttemptAt = excluded.nextAttemptAt,
+                updatedAt = excluded.updatedAt`,
+          [
+            publication.taskId,
+            publication.status,
+            publication.txHash,
+            publication.blockNumber,
+            publication.confirmations,
+            publication.attempts,
+            publication.lastError,
+            publication.nextAttemptAt,
+            publication.updatedAt,
+          ],
+        );
+
+        // the task is published once its result is confirmed on-chain
+        if (
+          publication.status === TaskPublication.STATUS_CONFIRMED &&
+          (await this.lockTask(tx, publication.taskId, [
+            Task.STATUS_COMPLETED,
+          ])) != null
+        ) {
+          await this.transitionTask(
+            tx,
+            publication.taskId,
+            Task.STATUS_COMPLETED,
+            Task.STATUS_PUBLISHED,
+            TaskStatusTransition.TRIGGER_RESULT_PUBLISHER,
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Clears the indexed chain events and blocks, and starts indexing the events of the given DVNCoordinator
+   *
+   * @param dvnCoordinator The address of the DVNCoordinator to index
+   * @returns A promise that resolves when the index is cleared
+   */
+  resetChainIndex(dvnCoordinator: string): Promise<void> {
+    return this.transaction("Error resetting chain index", async (tx) => {
+      await tx.run("DELETE FROM chain_event");
+      await tx.run("DELETE FROM chain_block");
+      await tx.run("DELETE FROM chain_index");
+      await tx.run(
+        "INSERT INTO chain_index (id, dvnCoordinator) VALUES (1, ?)",
+        [dvnCoordinator],
+      );
+    });
+  }
+
+  /**
+   * Removes the indexed chain events and blocks following a block, after a chain reorganization
+   *
+   * @param blockNumber The number of the last block still part of the chain
+   * @returns A promise that resolves when the events and blocks are removed
+   */
+  revertChainIndexAfter(blockNumber: number): Promise<void> {
+    return this.transaction("Error reverting chain index", async (tx) => {
+      await tx.run("DELETE FROM chain_event WHERE blockNumber > ?", [
+        blockNumber,
+      ]);
+      await tx.run("DELETE FROM chain_block WHERE number > ?", [blockNumber]);
+    });
+  }
+
+  /**
+   * Runs queries on the database within a transaction, committed if they all succeed and rolled back otherwise
+   *
+   * @param context The description of the queries, prefixing the error message if they fail
+   * @param work The function running the queries with the executor of the transaction
+   * @returns A promise that resolves to the result of the work once committed, or rejects with an error message once rolled back
+   */
+  private transaction<T>(
+    context: string,
+    work: (tx: SqlExecutor) => Promise<T>,
+  ): Promise<T> {
+    return this.database
+      .transaction(work)
+      .catch((err) => Promise.reject(`${context}: ${err}`));
+  }
+
+  /**
+   * Applies the pending migrations of the database schema
+   *
+   * @returns A promise that resolves when the schema is up to date
+   */
+  migrate(): Promise<void> {
+    return this.query("Error migrating database", async (db) => {
+      await db.get("SELECT 1");
+    });
+  }
+
+  /**
+   * Deletes all the data of the store, then creates the schema again
+   *
+   * @returns A promise that resolves when the store is empty
+   */
+  async reset(): Promise<void> {
+    await this.database.delete();
+    await this.migrate();
+  }
+
+  /**
+   * Closes the connections to the database
+   *
+   * @returns A promise that resolves when the connections are closed
+   */
+  close(): Promise<void> {
+    return this.database.close();
+  }
+}
@@ -0,0 +1,449 @@
+import * as fs from "fs";
+import sqlite3 from "sqlite3";
+import { logger } from "../Logger";
+import { type DatabaseMigration } from "../migration/DatabaseMigration";
+import { type SqlDatabase, type SqlExecutor } from "./SqlDatabase";
+
+/**
+ * The SqliteDatabase class keeps a single long-lived connection to a SQLite database file
+ *
+ * The connection is opened on first use in WAL mode, so that readers do not block the writer across processes,
+ * and the pending migrations are applied. Statements of a process are executed one at a time: while a
+ * transaction is in progress, the other statements wait for it to end instead of joining it.
+ * Every helper returns a promise which rejects with the error of the statement
+ */
+export class SqliteDatabase implements SqlDatabase {
+  // Time a statement waits for the lock held by another process, in milliseconds
+  private static readonly BUSY_TIMEOUT = 5000;
+
+  // Connection to the database, opened on first use
+  private connection: Promise<sqlite3.Database> | undefined;
+
+  // Tail of the statements and transactions waiting to be executed
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a database whose connection is opened on first use
+   *
+   * @param path The path to the database file
+   * @param migrations The migrations of the database schema, ordered by version
+   */
+  constructor(
+    private readonly path: string,
+    private readonly migrations: DatabaseMigration[],
+  ) {}
+
+  /**
+   * Runs a statement which does not return rows
+   *
+   * @param sql The SQL statement
+   * @param params The values of the statement placeholders
+   * @returns A promise that resolves to the number of changed rows
+   */
+  run(sql: string, params: any[] = []): Promise<{ changes: number }> {
+    return this.exclusive(async () =>
+      SqliteDatabase.runOn(await this.getConnection(), sql, params),
+    );
+  }
+
+  /**
+   * Runs a query and retrieves its first row
+   *
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the first row, or undefined if the query returns no rows
+   */
+  get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
+    return this.exclusive(async () =>
+      SqliteDatabase.getOn<T>(await this.getConnection(), sql, params),
+    );
+  }
+
+  /**
+   * Runs a query and retrieves all its rows
+   *
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the rows
+   */
+  all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    return this.exclusive(async () =>
+      SqliteDatabase.allOn<T>(await this.getConnection(), sql, params),
+    );
+  }
+
+  /**
+   * Runs statements within a transaction, committed if they all succeed and rolled back otherwise
+   *
+   * The transaction takes the write lock of the database when it begins, so that two processes cannot
+   * read the same state and then both write from it
+   *
+   * @param work The function running the statements of the transaction with the given executor
+   * @returns A promise that resolves to the result of the work once committed, or rejects with its error once rolled back
+   */
+  transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const db = await this.getConnection();
+
+      return SqliteDatabase.transactionOn(db, () =>
+        work({
+          run: (sql, params = []) => SqliteDatabase.runOn(db, sql, params),
+          get: (sql, params = []) => SqliteDatabase.getOn(db, sql, params),
+          all: (sql, params = []) => SqliteDatabase.allOn(db, sql, params),
+        }),
+      );
+    });
+  }
+
+  /**
+   * Closes the connection once the pending statements are executed, if it was opened
+   *
+   * @returns A promise that resolves when the connection is closed
+   */
+  close(): Promise<void> {
+    return this.exclusive(async () => {
+      if (this.connection == null) {
+        return;
+      }
+
+      const db = await this.connection;
+      this.connection = undefined;
+
+      await new Promise<void>((resolve, reject) => {
+        db.close((err) => (err ? reject(err) : resolve()));
+      });
+    });
+  }
+
+  /**
+   * Closes the connection and deletes the database file, along with its WAL files
+   *
+   * @returns A promise that resolves when the files are deleted
+   */
+  async delete(): Promise<void> {
+    await this.close();
+
+    [this.path, `${this.path}-wal`, `${this.path}-shm`].forEach((path) => {
+      if (fs.existsSync(path)) {
+        fs.unlinkSync(path);
+      }
+    });
+  }
+
+  /**
+   * Executes a function once the statements queued before it are executed
+   *
+   * @param work The function to execute
+   * @returns A promise that resolves or rejects as the function
+   */
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+
+    this.queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  /**
+   * Retrieves the connection, opening it on first use
+   *
+   * @returns A promise that resolves to the connection, once the pending migrations are applied
+   */
+  private getConnection(): Promise<sqlite3.Database> {
+    if (this.connection == null) {
+      this.connection = this.open();
+
+      // a failed opening is retried by the next statement
+      this.connection.catch(() => {
+        this.connection = undefined;
+      });
+    }
+
+    return this.connection;
+  }
+
+  /**
+   * Opens the connection in WAL mode, then applies the pending migrations
+   *
+   * @returns A promise that resolves to the connection
+   */
+  private async open(): Promise<sqlite3.Database> {
+    const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite3.Database(this.path, (err) =>
+        err ? reject(err) : resolve(db),
+      );
+    });
+
+    db.configure("busyTimeout", SqliteDatabase.BUSY_TIMEOUT);
+
+    try {
+      await SqliteDatabase.runOn(db, "PRAGMA journal_mode = WAL");
+      await SqliteDatabase.runOn(db, "PRAGMA foreign_keys = ON");
+      await this.migrate(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+
+    return db;
+  }
+
+  /**
+   * Applies the migrations whose version is greater than the version of the database schema
+   *
+   * Databases created before the migrations were introduced have the tables of the first migration
+   * but no 'schema_version' table: once their tables and columns are checked against those of the first
+   * migration, the first migration is recorded as applied without running it
+   *
+   * @param db The connection
+   * @returns A promise that resolves when the schema is up to date
+   */
+  private async migrate(db: sqlite3.Database): Promise<void> {
+    await SqliteDatabase.runOn(
+      db,
+      "CREATE TABLE IF NOT EXISTS schema_version (version INTEGER PRIMARY KEY, description TEXT NOT NULL, appliedAt INTEGER NOT NULL)",
+    );
+
+    const versions = (
+      await SqliteDatabase.allOn<{ version: number }>(
+        db,
+        "SELECT version FROM schema_version",
+      )
+    ).map(({ version }) => version);
+
+    for (const migration of this.migrations) {
+      if (versions.includes(migration.version)) {
+        continue;
+      }
+
+      await SqliteDatabase.transactionOn(db, async () => {
+        // the version is read within the transaction, as another process may be migrating the same file
+        const applied = await SqliteDatabase.getOn(
+          db,
+          "SELECT 1 FROM schema_version WHERE version = ?",
+          [migration.version],
+        );
+
+        if (applied != null) {
+          return;
+        }
+
+        const legacy =
+          migration === this.migrations[0] &&
+          (await SqliteDatabase.getOn(
+            db,
+            "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'task'",
+          )) != null;
+
+        if (legacy) {
+          await this.checkLegacySchema(db, migration);
+        } else {
+          await SqliteDatabase.execOn(db, migration.sqlite);
+        }
+
+        await SqliteDatabase.runOn(
+          db,
+          "INSERT INTO schema_version (version, description, appliedAt) VALUES (?, ?, ?)",
+          [migration.version, migration.description, Date.now()],
+        );
+
+        logger.info(
+          `Database migration ${migration.version} (${migration.description}) ${legacy ? "recorded" : "applied"}`,
+        );
+      });
+    }
+  }
+
+  /**
+   * Checks that a database created before the migrations has the tables and columns created by the first migration
+   *
+   * The expected schema is read from an in-memory database the first migration is applied to
+   *
+   * @param db The connection to the legacy database
+   * @param migration The first migration
+   * @returns A promise that resolves if the schemas match, or rejects with the differences otherwise
+   */
+  private async checkLegacySchema(
+    db: sqlite3.Database,
+    migration: DatabaseMigration,
+  ): Promise<void> {
+    const expectedDb = await new Promise<sqlite3.Database>(
+      (resolve, reject) => {
+        const expectedDb = new sqlite3.Database(":memory:", (err) =>
+          err ? reject(err) : resolve(expectedDb),
+        );
+      },
+    );
+
+    let expected: Map<string, string[]>;
+
+    try {
+      await SqliteDatabase.execOn(expectedDb, migration.sqlite);
+      expected = await SqliteDatabase.describeTables(expectedDb);
+    } finally {
+      expectedDb.close();
+    }
+
+    const actual = await SqliteDatabase.describeTables(db);
+    const differences: string[] = [];
+
+    expected.forEach((columns, table) => {
+      const actualColumns = actual.get(table);
+
+      if (actualColumns == null) {
+        differences.push(`missing table ${table}`);
+        return;
+      }
+
+      const missing = columns.filter(
+        (column) => !actualColumns.includes(column),
+      );
+      const unexpected = actualColumns.filter(
+        (column) => !columns.includes(column),
+      );
+
+      if (missing.length > 0 || unexpected.length > 0) {
+        differences.push(
+          `table ${table} has [${actualColumns.join(", ")}] instead of [${columns.join(", ")}]`,
+        );
+      }
+    });
+
+    if (differences.length > 0) {
+      throw `Database ${this.path} has no schema version and does not match the initial schema (${differences.join("; ")}): reset the database with 'tsx ./Common/script/resetDatabase.ts'`;
+    }
+  }
+
+  /**
+   * Retrieves the columns of each table of a database, the internal tables and 'schema_version' excepted
+   *
+   * @param db The connection
+   * @returns A promise that resolves to the names of the columns, indexed by table name
+   */
+  private static async describeTables(
+    db: sqlite3.Database,
+  ): Promise<Map<string, string[]>> {
+    const columns = await SqliteDatabase.allOn<{
+      tableName: string;
+      columnName: string;
+    }>(
+      db,
+      `
+        SELECT m.name AS tableName, c.name AS columnName
+        FROM sqlite_master m, pragma_table_info(m.name) c
+        WHERE m.type = 'table' AND m.name NOT LIKE 'sqlite_%' AND m.name != 'schema_version'
+        ORDER BY m.name, c.cid
+      `,
+    );
+    const tables = new Map<string, string[]>();
+
+    columns.forEach(({ tableName, columnName }) => {
+      tables.set(tableName, [...(tables.get(tableName) ?? []), columnName]);
+    });
+
+    return tables;
+  }
+
+  /**
+   * Runs statements separated by semicolons on a connection
+   *
+   * @param db The connection
+   * @param sql The SQL statements
+   * @returns A promise that resolves when the statements are executed
+   */
+  private static execOn(db: sqlite3.Database, sql: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      db.exec(sql, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Runs statements within a transaction on a connection
+   *
+   * @param db The connection
+   * @param work The function running the statements of the transaction
+   * @returns A promise that resolves to the result of the work once committed, or rejects with its error once rolled back
+   */
+  private static async transactionOn<T>(
+    db: sqlite3.Database,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    await SqliteDatabase.runOn(db, "BEGIN IMMEDIATE TRANSACTION");
+
+    let result: T;
+
+    try {
+      result = await work();
+      await SqliteDatabase.runOn(db, "COMMIT");
+    } catch (error) {
+      await SqliteDatabase.runOn(db, "ROLLBACK").catch(() => undefined);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs a statement which does not return rows on a connection
+   *
+   * @param db The connection
+   * @param sql The SQL statement
+   * @param params The values of the statement placeholders
+   * @returns A promise that resolves to the number of changed rows
+   */
+  private static runOn(
+    db: sqlite3.Database,
+    sql: string,
+    params: any[] = [],
+  ): Promise<{ changes: number }> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (this: sqlite3.RunResult, err) {
+        if (err) {
+          return reject(err);
+        }
+
+        resolve({ changes: this.changes });
+      });
+    });
+  }
+
+  /**
+   * Runs a query on a connection and retrieves its first row
+   *
+   * @param db The connection
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the first row, or undefined if the query returns no rows
+   */
+  private static getOn<T>(
+    db: sqlite3.Database,
+    sql: string,
+    params: any[] = [],
+  ): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      db.get(sql, params, (err, row) =>
+        err ? reject(err) : resolve(row as T | undefined),
+      );
+    });
+  }
+
+  /**
+   * Runs a query on a connection and retrieves all its rows
+   *
+   * @param db The connection
+   * @param sql The SQL query
+   * @param params The values of the query placeholders
+   * @returns A promise that resolves to the rows
+   */
+  private static allOn<T>(
+    db: sqlite3.Database,
+    sql: string,
+    params: any[] = [],
+  ): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (err, rows) =>
+        err ? reject(err) : resolve(rows as T[]),
+      );
+    });
+  }
+}
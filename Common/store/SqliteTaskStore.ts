@@ -0,0 +1,19 @@
+import { SqlTaskStore } from "./SqlTaskStore";
+import { SqliteDatabase } from "./SqliteDatabase";
+
+/**
+ * The `SqliteTaskStore` class stores the state of the Task Aggregator in a SQLite database file
+ *
+ * The file is only accessed by the processes of a single host, so it cannot be shared between
+ * Task Aggregator replicas
+ */
+export class SqliteTaskStore extends SqlTaskStore {
+  /**
+   * Creates a store on a SQLite database file, created on first use
+   *
+   * @param path The path to the database file
+   */
+  constructor(path: string) {
+    super(new SqliteDatabase(path, SqlTaskStore.MIGRATIONS));
+  }
+}
@@ -0,0 +1,563 @@
+import { type Task, type TaskOperatorSnapshot } from "../model/Task";
+import { type TaskResponse } from "../model/TaskResponse";
+import {
+  type TaskEvaluator,
+  type TaskFinalization,
+} from "../model/TaskFinalization";
+import { type TaskCertificate } from "../model/TaskCertificate";
+import { type TaskPublication } from "../model/TaskPublication";
+import { type TaskStatusTransition } from "../model/TaskStatusTransition";
+import { type ChainEvent } from "../model/ChainEvent";
+import { type EjectionProposal } from "../model/EjectionProposal";
+import { type OperatorLiveness } from "../model/OperatorLiveness";
+import { type OperatorStats } from "../model/OperatorStats";
+import { type RewardEpoch } from "../model/RewardEpoch";
+import { type RewardPayout } from "../model/RewardPayout";
+import { type SlashingEvidence } from "../model/SlashingEvidence";
+import { type QuorumPolicy } from "../model/QuorumPolicy";
+
+/**
+ * The storage of the Task Aggregator: the tasks, the responses of the operators, and the state derived from them
+ *
+ * The storage backend is selected by the 'DATABASE_BACKEND' configuration, see DatabaseManager. Every implementation
+ * must pass the conformance checks of Common/script/taskStoreConformance.ts
+ */
+export interface TaskStore {
+  /**
+   * Stores a proposal to remove an inactive operator from the DVN
+   *
+   * @param liveness The liveness of the inactive operator
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves to the stored proposal
+   */
+  addEjectionProposal(
+    liveness: OperatorLiveness,
+    now: number,
+  ): Promise<EjectionProposal>;
+
+  /**
+   * Adds a new task to the database, along with the snapshot of the operators who can answer it
+   *
+   * @param input The input string for the task
+   * @param type The type of the task
+   * @param snapshot The operators registered to the DVN when the task is created: only these operators
+   * can answer the task, and its quorum is computed against their number, or their stake
+   * @param options Optional settings of the task:
+   * - quorumPolicy: the quorum policy applied to the responses, defaults to the configured policy
+   * - expiresAt: the deadline of the task in milliseconds, defaults to the configured time to live from now
+   * - idempotencyKey: a key identifying the creation request, which cannot be used by two tasks
+   * @returns A promise that resolves to the created Task, or rejects with an error message if the task cannot be inserted
+   * @throws Will throw an error if the input is null or undefined
+   * @throws Will throw an error if the task type is unknown
+   * @throws Will throw an error if the quorum policy is stake-weighted and the snapshot has no stakes
+   */
+  addTask(
+    input: string,
+    type: string,
+    snapshot: TaskOperatorSnapshot,
+    options?: {
+      quorumPolicy?: QuorumPolicy;
+      expiresAt?: number;
+      idempotencyKey?: string;
+    },
+  ): Promise<Task>;
+
+  /**
+   * Cancels a task accepting responses
+   *
+   * The responses already received are kept, and no outcome is recorded for the operators
+   *
+   * @param task The task to cancel
+   * @returns A promise that resolves to true if the task was cancelled, false if it does not accept responses anymore
+   */
+  cancelTask(task: Task): Promise<boolean>;
+
+  /**
+   * Counts the tasks an operator could answer, created within a period, that it did not answer
+   *
+   * @param operatorId The ID of the operator
+   * @param from The start of the period in milliseconds, excluded
+   * @param to The end of the period in milliseconds, included
+   * @returns A promise that resolves to the number of unanswered tasks
+   */
+  countUnansweredOperatorTasks(
+    operatorId: number,
+    from: number,
+    to: number,
+  ): Promise<number>;
+
+  /**
+   * Fetches the indexed chain events, in the order they were emitted
+   *
+   * @returns A promise that resolves to the indexed chain events
+   */
+  fetchChainEvents(): Promise<ChainEvent[]>;
+
+  /**
+   * Fetches the proposals to remove inactive operators from the DVN
+   *
+   * @param status The status of the proposals to return, or undefined for all the proposals
+   * @returns A promise that resolves to the proposals, from the most recent
+   */
+  fetchEjectionProposals(status?: string): Promise<EjectionProposal[]>;
+
+  /**
+   * Fetches the tasks still waiting for responses whose deadline has passed
+   *
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves to the expired tasks, oldest deadline first
+   */
+  fetchExpiredTasks(now?: number): Promise<Task[]>;
+
+  /**
+   * Fetches the hashes of the last indexed blocks, used to detect chain reorganizations
+   *
+   * @returns A promise that resolves to the indexed blocks, from the most recent one
+   */
+  fetchIndexedBlocks(): Promise<{ number: number; hash: string }[]>;
+
+  /**
+   * Fetches the liveness of the tracked operators
+   *
+   * @returns A promise that resolves to the liveness of the operators, ordered by operator ID
+   */
+  fetchOperatorLiveness(): Promise<OperatorLiveness[]>;
+
+  /**
+   * Fetches the stats of the operators with the highest share of agreeing responses
+   *
+   * @param limit The maximum number of operators to return
+   * @returns A promise that resolves to the stats of the operators, ordered by agreement then by number of assigned tasks
+   */
+  fetchOperatorLeaderboard(limit: number): Promise<OperatorStats[]>;
+
+  /**
+   * Fetches the completed tasks whose result must be submitted on-chain
+   *
+   * These are the completed tasks never submitted, and the ones whose last submission attempt failed
+   * and can be submitted again
+   *
+   * @param now The current datetime in milliseconds
+   * @param limit The maximum number of tasks to return
+   * @returns A promise that resolves to the tasks, in creation order
+   */
+  fetchPublishableTasks(now: number, limit: number): Promise<Task[]>;
+
+  /**
+   * Fetches the ended reward epochs with credited rewards which were not closed yet
+   *
+   * @param currentEpoch The number of the current epoch
+   * @returns A promise that resolves to the numbers of the epochs, from the oldest
+   */
+  fetchRewardEpochsToClose(currentEpoch: number): Promise<number[]>;
+
+  /**
+   * Fetches the closed reward epochs
+   *
+   * @param limit The maximum number of epochs to return
+   * @returns A promise that resolves to the payout reports of the epochs, from the most recent
+   */
+  fetchRewardEpochs(limit: number): Promise<RewardEpoch[]>;
+
+  /**
+   * Fetches the payouts of a closed reward epoch
+   *
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the payouts of the epoch, ordered by operator ID
+   */
+  fetchRewardPayouts(epoch: number): Promise<RewardPayout[]>;
+
+  /**
+   * Fetches the slashing evidence of an operator
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the slashing evidence of the operator, from the most recent
+   */
+  fetchSlashingEvidence(operatorId: number): Promise<SlashingEvidence[]>;
+
+  /**
+   * Fetches the publications of task results submitted on-chain and waiting for confirmations
+   *
+   * @returns A promise that resolves to the submitted publications
+   */
+  fetchSubmittedTaskPublications(): Promise<TaskPublication[]>;
+
+  /**
+   * Fetches a page of tasks matching the given filters, ordered by creation datetime
+   *
+   * Pagination is based on a cursor: the creation datetime and ID of the last task of the previous page
+   *
+   * @param filters The filters to apply:
+   * - status: only return tasks with this status
+   * - createdFrom: only return tasks created at or after this datetime in milliseconds
+   * - createdTo: only return tasks created before this datetime in milliseconds
+   * - operatorId: only return tasks the operator sent a response to
+   * - after: only return tasks following this cursor
+   * - limit: the maximum number of tasks to return
+   * @returns A promise that resolves to the matching tasks
+   */
+  fetchTasks(filters: {
+    status?: string;
+    createdFrom?: number;
+    createdTo?: number;
+    operatorId?: number;
+    after?: { createdAt: number; id: number };
+    limit: number;
+  }): Promise<Task[]>;
+
+  /**
+   * Fetches the tasks waiting for responses created after a given task
+   *
+   * @param taskId The ID of the last known task
+   * @param limit The maximum number of tasks to return
+   * @returns A promise that resolves to the tasks, ordered by ID
+   */
+  fetchReadyTasksAfter(taskId: number, limit: number): Promise<Task[]>;
+
+  /**
+   * Fetches the next unresolved task for a given operator, among the tasks the operator can answer
+   *
+   * Tasks whose deadline has passed are not returned, even if they have not been finalized yet
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the next unresolved task or undefined if no task is found
+   */
+  fetchNextUnresolvedTask(operatorId: number): Promise<Task | undefined>;
+
+  /**
+   * Retrieves the address of the DVNCoordinator whose events are indexed
+   *
+   * @returns A promise that resolves to the address, or undefined if nothing was indexed yet
+   */
+  getChainIndexDVNCoordinator(): Promise<string | undefined>;
+
+  /**
+   * Retrieves the IDs of the operators marked as inactive by the liveness monitor
+   *
+   * @returns A promise that resolves to the IDs of the inactive operators
+   */
+  getInactiveOperators(): Promise<number[]>;
+
+  /**
+   * Retrieves the ID of the last created task
+   *
+   * @returns A promise that resolves to the ID of the last task, or 0 if there are no tasks
+   */
+  getLastTaskId(): Promise<number>;
+
+  /**
+   * Retrieves the stats of an operator, aggregated from the outcomes of the finalized tasks it could answer
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the stats of the operator
+   */
+  getOperatorStats(operatorId: number): Promise<OperatorStats>;
+
+  /**
+   * Retrieves the rewards credited during a reward epoch, summed by operator
+   *
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the rewards of each operator, indexed by operator ID
+   */
+  getRewardCredits(epoch: number): Promise<Map<number, bigint>>;
+
+  /**
+   * Retrieves a closed reward epoch
+   *
+   * @param epoch The number of the epoch
+   * @returns A promise that resolves to the payout report of the epoch, or undefined if the epoch is not closed
+   */
+  getRewardEpoch(epoch: number): Promise<RewardEpoch | undefined>;
+
+  /**
+   * Retrieves a task from the database by its ID
+   *
+   * @param taskId The ID of the task to retrieve
+   * @returns A promise that resolves to the task if found, or rejects with an error message if not found or if there is an error fetching the task
+   */
+  getTask(taskId: number): Promise<Task>;
+
+  /**
+   * Retrieves the certificate of a completed task
+   *
+   * @param task The task for which to fetch the certificate
+   * @returns A promise that resolves to the certificate of the task, or undefined if the task is not completed
+   */
+  getTaskCertificate(task: Task): Promise<TaskCertificate | undefined>;
+
+  /**
+   * Retrieves the IDs of the operators who can answer a task
+   *
+   * @param task The task
+   * @returns A promise that resolves to the IDs of the operators registered to the DVN when the task was created
+   */
+  getTaskOperators(task: Task): Promise<number[]>;
+
+  /**
+   * Retrieves the stakes of the active operators who can answer a task, as read at its snapshot block
+   *
+   * @param task The task
+   * @returns A promise that resolves to the stake of each operator, indexed by operator ID, inactive operators and operators without stake being omitted
+   */
+  getTaskOperatorStakes(task: Task): Promise<Map<number, bigint>>;
+
+  /**
+   * Retrieves the on-chain publication of the result of a task
+   *
+   * @param task The task for which to fetch the publication
+   * @returns A promise that resolves to the publication, or undefined if the result was never submitted
+   */
+  getTaskPublication(task: Task): Promise<TaskPublication | undefined>;
+
+  /**
+   * Retrieves a task from the database by the idempotency key used to create it
+   *
+   * @param idempotencyKey The idempotency key of the task
+   * @returns A promise that resolves to the task if found, or undefined otherwise
+   */
+  getTaskByIdempotencyKey(idempotencyKey: string): Promise<Task | undefined>;
+
+  /**
+   * Retrieves the responses for a given task from the database
+   *
+   * @param task The task for which to fetch responses
+   * @returns A promise that resolves to an array of TaskResponse objects, or rejects if there is an issue fetching them
+   */
+  getTaskResponses(task: Task): Promise<TaskResponse[]>;
+
+  /**
+   * Retrieves the count of responses for a given task from the database
+   *
+   * @param task The task for which to count responses
+   * @returns A promise that resolves to the number of responses for the specified task, or rejects if there is an issue counting them
+   */
+  getTaskResponsesCount(task: Task): Promise<number>;
+
+  /**
+   * Retrieves the status history of a task
+   *
+   * @param task The task
+   * @returns A promise that resolves to the transitions of the task, oldest first
+   */
+  getTaskStatusHistory(task: Task): Promise<TaskStatusTransition[]>;
+
+  /**
+   * Handles the scenario where consensus is not reached for a given task
+   *
+   * This method updates the status of the task in the database to indicate that consensus was not reached,
+   * and records the outcome of the task for each operator who could answer it
+   *
+   * @param task The task for which consensus was not reached
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore or could not be updated
+   */
+  handleConsensusNotReached(task: Task): Promise<Task>;
+
+  /**
+   * Handles the scenario where a task reached its deadline without reaching the quorum
+   *
+   * This method updates the status of the task in the database to indicate that the task expired,
+   * and records the outcome of the task for each operator who could answer it
+   *
+   * @param task The expired task
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore
+   */
+  handleTaskExpired(task: Task): Promise<Task>;
+
+  /**
+   * Finalizes a task past its deadline, evaluating the responses received so far
+   *
+   * The task is locked while its responses are evaluated, and marked as expired if the evaluation
+   * does not finalize it, so that a response registered meanwhile cannot finalize it twice
+   *
+   * @param task The expired task
+   * @param evaluate The evaluation of the responses of the task against its quorum policy
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task was already finalized
+   */
+  finalizeExpiredTask(
+    task: Task,
+    evaluate: TaskEvaluator,
+  ): Promise<TaskFinalization | undefined>;
+
+  /**
+   * Checks if an operator is part of the operators who can answer a task
+   *
+   * @param task The task
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to true if the operator was registered to the DVN when the task was created
+   */
+  operatorCanAnswerTask(task: Task, operatorId: number): Promise<boolean>;
+
+  /**
+   * Checks if an operator has sent a response to a specific task
+   *
+   * @param task The task for which the response is being checked
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to true if the operator has sent a response, otherwise false
+   */
+  operatorSentTaskResponse(task: Task, operatorId: number): Promise<boolean>;
+
+  /**
+   * Records that an operator polled for tasks
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the poll is recorded
+   */
+  recordOperatorPoll(operatorId: number): Promise<void>;
+
+  /**
+   * Records that an operator answered a task
+   *
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the response is recorded
+   */
+  recordOperatorResponse(operatorId: number): Promise<void>;
+
+  /**
+   * Registers the final response of a task, along with its certificate, and marks the task as completed
+   *
+   * The outcome of the task is recorded for each operator who could answer it, the agreeing operators are
+   * credited with the reward of the task type in the current reward epoch, and the slashing evidence of
+   * the disagreeing operators is stored
+   *
+   * @param task The task reaching consensus
+   * @param response The final response of the task
+   * @param certificate The certificate attesting the final response
+   * @param evidence The slashing evidence of the signed responses disagreeing with the final response
+   * @returns A promise that resolves to the updated task, or rejects if the task is not ready anymore, or if the task or its certificate could not be stored
+   */
+  registerFinalTaskResponse(
+    task: Task,
+    response: string,
+    certificate: TaskCertificate,
+    evidence?: SlashingEvidence[],
+  ): Promise<Task>;
+
+  /**
+   * Records that an operator sent its response once a task stopped accepting responses
+   *
+   * A late response replaces the missed outcome of a finalized task, or is recorded ahead of the finalization
+   * of a task past its deadline
+   *
+   * @param task The task the response was sent to
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves when the late response is recorded
+   */
+  registerLateTaskResponse(task: Task, operatorId: number): Promise<void>;
+
+  /**
+   * Registers a response from an operator for a given task
+   *
+   * The response is inserted, the responses of the task evaluated and the task finalized in a single transaction,
+   * while the task is locked: the responses sent together are evaluated one after the other, so that the task is
+   * finalized once, and no response is accepted once the task is finalized or past its deadline
+   *
+   * @param task The task for which the response is being registered
+   * @param operatorId The ID of the operator sending the response
+   * @param response The response content from the operator
+   * @param signature The signature of the operator for the response
+   * @param signatureVersion The signing scheme of the signature
+   * @param evaluate The evaluation of the responses of the task against its quorum policy, once the response is inserted
+   * @returns A promise that resolves to the finalization of the task, or undefined if the task keeps accepting responses,
+   * or rejects with TaskResponse.ERROR_* if the response is not accepted, or with an error message
+   */
+  registerOperatorTaskResponse(
+    task: Task,
+    operatorId: number,
+    response: string,
+    signature: string,
+    signatureVersion: number,
+    evaluate?: TaskEvaluator,
+  ): Promise<TaskFinalization | undefined>;
+
+  /**
+   * Closes a proposal to remove an operator from the DVN, if it is still proposed
+   *
+   * @param id The ID of the proposal
+   * @param status The closing status, see EjectionProposal.STATUS_*
+   * @param resolution How the proposal was closed
+   * @returns A promise that resolves to true if the proposal was closed, false if it was not found or already closed
+   */
+  resolveEjectionProposal(
+    id: number,
+    status: string,
+    resolution: string,
+  ): Promise<boolean>;
+
+  /**
+   * Stores the chain events of a range of indexed blocks, along with the hashes of these blocks
+   *
+   * @param events The events emitted in the range of blocks
+   * @param blocks The number and hash of the blocks to remember, at least the last block of the range
+   * @param pruneBefore The number of the oldest block whose hash is kept
+   * @returns A promise that resolves when the events and blocks are stored, or rejects if nothing was stored
+   */
+  saveIndexedBlocks(
+    events: ChainEvent[],
+    blocks: { number: number; hash: string }[],
+    pruneBefore: number,
+  ): Promise<void>;
+
+  /**
+   * Stores the liveness status of operators, tracking the operators not tracked yet
+   *
+   * The last poll and response of the tracked operators are left untouched, as they are recorded concurrently
+   *
+   * @param livenesses The liveness of the operators
+   * @returns A promise that resolves when all the statuses are stored
+   */
+  saveOperatorLivenessStatus(livenesses: OperatorLiveness[]): Promise<void>;
+
+  /**
+   * Stores the payout report of a closed reward epoch, along with its payouts
+   *
+   * @param epoch The payout report of the epoch
+   * @param payouts The payouts of the epoch
+   * @returns A promise that resolves when the epoch is stored, or rejects if nothing was stored
+   */
+  saveRewardEpoch(epoch: RewardEpoch, payouts: RewardPayout[]): Promise<void>;
+
+  /**
+   * Stores the on-chain publications of task results, creating or updating them
+   *
+   * @param publications The publications to store
+   * @returns A promise that resolves when all the publications are stored
+   */
+  saveTaskPublications(publications: TaskPublication[]): Promise<void>;
+
+  /**
+   * Clears the indexed chain events and blocks, and starts indexing the events of the given DVNCoordinator
+   *
+   * @param dvnCoordinator The address of the DVNCoordinator to index
+   * @returns A promise that resolves when the index is cleared
+   */
+  resetChainIndex(dvnCoordinator: string): Promise<void>;
+
+  /**
+   * Removes the indexed chain events and blocks following a block, after a chain reorganization
+   *
+   * @param blockNumber The number of the last block still part of the chain
+   * @returns A promise that resolves when the events and blocks are removed
+   */
+  revertChainIndexAfter(blockNumber: number): Promise<void>;
+
+  /**
+   * Applies the pending migrations of the database schema
+   *
+   * @returns A promise that resolves when the schema is up to date
+   */
+  migrate(): Promise<void>;
+
+  /**
+   * Deletes all the data of the store, then creates the schema again
+   *
+   * @returns A promise that resolves when the store is empty
+   */
+  reset(): Promise<void>;
+
+  /**
+   * Closes the connections to the database
+   *
+   * @returns A promise that resolves when the connections are closed
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { ethers } from "ethers";
+import { TaskType } from "./TaskType";
+
+// maximum length of the string to hash
+const MAX_DATA_LENGTH = 4096;
+
+// the input is the string to hash
+const inputSchema = z.object({
+  data: z.string().max(MAX_DATA_LENGTH),
+});
+
+// the response is a 32 bytes hash as hex string
+const responseSchema = z.string().regex(/^0x[0-9a-fA-F]{64}$/);
+
+/**
+ * Input of a hashing task: the string to hash
+ */
+export type HashInput = z.infer<typeof inputSchema>;
+
+/**
+ * Response of a hashing task: the keccak256 hash of the data, as hex string
+ */
+export type HashResponse = z.infer<typeof responseSchema>;
+
+/**
+ * The hashing task type
+ *
+ * The input is a string and the Operators must compute its keccak256 hash
+ */
+export class HashTaskType implements TaskType<HashInput, HashResponse> {
+  // Identifier of the task type
+  static readonly ID = "hash";
+
+  // Number of random bytes generated for a random input
+  static readonly RANDOM_INPUT_BYTES = 32;
+
+  readonly id = HashTaskType.ID;
+
+  readonly inputSchema = inputSchema;
+
+  readonly responseSchema = responseSchema;
+
+  /**
+   * Generates a random hex string
+   *
+   * @returns An object containing the data to hash
+   */
+  generateInput(): HashInput {
+    return {
+      data: ethers.hexlify(ethers.randomBytes(HashTaskType.RANDOM_INPUT_BYTES)),
+    };
+  }
+
+  /**
+   * Computes the keccak256 hash of the UTF-8 encoded data
+   *
+   * @param input The data to hash
+   * @returns The hash as hex string
+   */
+  solve(input: HashInput): HashResponse {
+    return ethers.keccak256(ethers.toUtf8Bytes(input.data));
+  }
+
+  /**
+   * Hex strings are compared lowercase
+   *
+   * @param input The data to hash
+   * @param response The hash to canonicalize
+   * @returns The lowercase hash
+   */
+  canonicalizeResponse(input: HashInput, response: HashResponse): string {
+    return response.toLowerCase();
+  }
+
+  /**
+   * Checks the response by hashing the data again
+   *
+   * @param input The data to hash
+   * @param response The hash to verify
+   * @returns True if the hash is correct
+   */
+  verifyResponse(input: HashInput, response: HashResponse): boolean {
+    return this.solve(input) === response.toLowerCase();
+  }
+}
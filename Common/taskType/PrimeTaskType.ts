@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { TaskType } from "./TaskType";
+
+// the input is the number to check
+const inputSchema = z.object({
+  number: z.number().int().positive().max(Number.MAX_SAFE_INTEGER),
+});
+
+// the response tells whether the number is prime
+const responseSchema = z.boolean();
+
+/**
+ * Input of a prime-checking task: the number to check
+ */
+export type PrimeInput = z.infer<typeof inputSchema>;
+
+/**
+ * Response of a prime-checking task: whether the number is prime
+ */
+export type PrimeResponse = z.infer<typeof responseSchema>;
+
+/**
+ * The prime-checking task type
+ *
+ * The input is a positive integer and the Operators must determine if it is a prime number
+ */
+export class PrimeTaskType implements TaskType<PrimeInput, PrimeResponse> {
+  // Identifier of the task type
+  static readonly ID = "prime";
+
+  // Upper bound (excluded) of the numbers generated for a random input
+  static readonly RANDOM_INPUT_MAX = 1_000_000;
+
+  readonly id = PrimeTaskType.ID;
+
+  readonly inputSchema = inputSchema;
+
+  readonly responseSchema = responseSchema;
+
+  /**
+   * Generates a random positive integer
+   *
+   * @returns An object containing the number to check
+   */
+  generateInput(): PrimeInput {
+    return {
+      number: Math.floor(Math.random() * PrimeTaskType.RANDOM_INPUT_MAX) + 1,
+    };
+  }
+
+  /**
+   * Determines if the number is prime by trial division
+   *
+   * @param input The number to check
+   * @returns True if the number is prime, false otherwise
+   */
+  solve(input: PrimeInput): PrimeResponse {
+    const n = input.number;
+
+    if (n < 2) {
+      return false;
+    }
+
+    for (let i = 2; i * i <= n; i++) {
+      if (n % i === 0) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Booleans are already canonical
+   *
+   * @param input The number to check
+   * @param response The response to canonicalize
+   * @returns The response
+   */
+  canonicalizeResponse(input: PrimeInput, response: PrimeResponse): boolean {
+    return response;
+  }
+
+  /**
+   * Checks the response by solving the task again, which is cheap for this task type
+   *
+   * @param input The number to check
+   * @param response The response to verify
+   * @returns True if the response is correct
+   */
+  verifyResponse(input: PrimeInput, response: PrimeResponse): boolean {
+    return this.solve(input) === response;
+  }
+}
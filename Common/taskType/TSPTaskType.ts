@@ -0,0 +1,154 @@
+import { z } from "zod";
+import salesman from "@wemap/salesman.js";
+import { TaskType } from "./TaskType";
+
+// a point is represented as a tuple [x, y]
+const pointSchema = z.array(z.number()).length(2);
+
+// maximum number of points to visit, bounding the work required from the Operators
+const MAX_POINTS_COUNT = 100;
+
+// the input is the array of points to visit
+const inputSchema = z.array(pointSchema).min(2).max(MAX_POINTS_COUNT);
+
+// the response is the array of input points ordered as a tour
+const responseSchema = z.array(pointSchema).min(2).max(MAX_POINTS_COUNT);
+
+/**
+ * Input of a TSP task: the points to visit
+ */
+export type TSPInput = z.infer<typeof inputSchema>;
+
+/**
+ * Response of a TSP task: the input points ordered as a tour
+ */
+export type TSPResponse = z.infer<typeof responseSchema>;
+
+/**
+ * The Traveling Salesman Problem task type
+ *
+ * The input is an array of points (x, y) and the Operators must determine the shortest possible
+ * route that visits each point exactly once and returns to the origin point
+ */
+export class TSPTaskType implements TaskType<TSPInput, TSPResponse> {
+  // Identifier of the task type
+  static readonly ID = "tsp";
+
+  // Number of points generated for a random input
+  static readonly RANDOM_INPUT_LENGTH = 10;
+
+  readonly id = TSPTaskType.ID;
+
+  readonly inputSchema = inputSchema;
+
+  readonly responseSchema = responseSchema;
+
+  /**
+   * Generates an array of random points representing salesmen locations
+   * Each point is represented as a tuple [x, y] where x and y are random integers between 0 and 99
+   *
+   * @returns An array of points, where each point is a tuple [x, y]
+   */
+  generateInput(): TSPInput {
+    const points: number[][] = [];
+
+    for (let i = 0; i < TSPTaskType.RANDOM_INPUT_LENGTH; i++) {
+      const x = Math.floor(Math.random() * 100);
+      const y = Math.floor(Math.random() * 100);
+      points.push([x, y]);
+    }
+
+    return points;
+  }
+
+  /**
+   * Solves the Traveling Salesman Problem (TSP) for a given set of points
+   *
+   * @param input A 2D array where each sub-array contains the x and y coordinates of a point
+   * @returns A 2D array of points ordered to minimize the travel distance
+   */
+  solve(input: TSPInput): TSPResponse {
+    const points = input.map(([x, y]) => new salesman.Point(x, y));
+    const solution = salesman.solve(points, 1);
+    const orderedPoints = solution.map((i) => points[i]);
+
+    return orderedPoints.map((point) => [point.x, point.y]);
+  }
+
+  /**
+   * Converts a tour into its canonical form, so that tours visiting the points in the same cyclic order match
+   *
+   * The tour is rotated to start from the smallest point (by x, then by y) and then, as a tour can be
+   * travelled in both directions, it is reversed if needed so that the second point is smaller than the last one
+   *
+   * @param input The points of the task
+   * @param response The tour to canonicalize
+   * @returns The canonical tour
+   */
+  canonicalizeResponse(input: TSPInput, response: TSPResponse): TSPResponse {
+    const compare = (a: number[], b: number[]) => a[0] - b[0] || a[1] - b[1];
+
+    const start = response.reduce(
+      (minIndex, point, index) =>
+        compare(point, response[minIndex]) < 0 ? index : minIndex,
+      0,
+    );
+
+    const rotated = [...response.slice(start), ...response.slice(0, start)];
+
+    if (
+      rotated.length > 2 &&
+      compare(rotated[1], rotated[rotated.length - 1]) > 0
+    ) {
+      return [rotated[0], ...rotated.slice(1).reverse()];
+    }
+
+    return rotated;
+  }
+
+  /**
+   * Checks that the tour visits every point of the input exactly once
+   *
+   * @param input The points of the task
+   * @param response The tour to verify
+   * @returns True if the tour is a permutation of the input points
+   */
+  verifyResponse(input: TSPInput, response: TSPResponse): boolean {
+    if (response.length !== input.length) {
+      return false;
+    }
+
+    const toKey = ([x, y]: number[]) => `${x},${y}`;
+
+    const remaining: { [key: string]: number } = {};
+    input.forEach((point) => {
+      remaining[toKey(point)] = (remaining[toKey(point)] || 0) + 1;
+    });
+
+    return response.every((point) => {
+      const key = toKey(point);
+
+      if (!remaining[key]) {
+        return false;
+      }
+
+      remaining[key]--;
+      return true;
+    });
+  }
+
+  /**
+   * Computes the length of the tour, including the way back to the origin point
+   *
+   * @param input The points of the task
+   * @param response The tour to score
+   * @returns The length of the tour
+   */
+  scoreResponse(input: TSPInput, response: TSPResponse): number {
+    return response.reduce((length, point, index) => {
+      const next = response[(index + 1) % response.length];
+
+      return length + Math.hypot(next[0] - point[0], next[1] - point[1]);
+    }, 0);
+  }
+}
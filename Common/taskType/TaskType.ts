@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+/**
+ * Describes a kind of problem the DVN can distribute to its Operators
+ *
+ * A task type bundles everything needed to handle a task end to end:
+ * - the task generator and the Task Aggregator use it to build and validate inputs
+ * - the Operator LRE uses it to compute the response
+ * - the TaskManager uses it to canonicalize and verify responses before looking for consensus
+ *
+ * By default responses reach consensus when enough of them are equal once canonicalized.
+ * Task types whose solvers are heuristics can instead implement `scoreResponse`: the consensus is
+ * then reached on the best valid response, agreed by the responses scoring within a tolerance of it
+ *
+ * Task types are resolved by their `id` through the `TaskTypeRegistry`
+ */
+export interface TaskType<TInput = any, TResponse = any> {
+  /**
+   * Unique name of the task type, stored in the `type` column of the `task` table
+   */
+  readonly id: string;
+
+  /**
+   * Schema used to validate the input of a task
+   */
+  readonly inputSchema: z.ZodType<TInput, z.ZodTypeDef, any>;
+
+  /**
+   * Schema used to validate the response sent by an Operator
+   */
+  readonly responseSchema: z.ZodType<TResponse, z.ZodTypeDef, any>;
+
+  /**
+   * Generates a random input, used by the task generator
+   *
+   * @returns A valid input for this task type
+   */
+  generateInput(): TInput;
+
+  /**
+   * Computes the response for the given input, used by the Operators
+   *
+   * @param input The input of the task
+   * @returns The response to the task
+   */
+  solve(input: TInput): TResponse;
+
+  /**
+   * Converts a response into its canonical form, so that equivalent responses compare as equal
+   *
+   * @param input The input of the task
+   * @param response The response to canonicalize
+   * @returns The canonical form of the response
+   */
+  canonicalizeResponse(input: TInput, response: TResponse): TResponse;
+
+  /**
+   * Checks whether a response is a valid answer for the given input
+   *
+   * @param input The input of the task
+   * @param response The response to verify
+   * @returns True if the response is valid, false otherwise
+   */
+  verifyResponse(input: TInput, response: TResponse): boolean;
+
+  /**
+   * Computes the cost of a valid response: the lower the score, the better the response
+   *
+   * @param input The input of the task
+   * @param response The canonical response to score
+   * @returns The score of the response
+   */
+  scoreResponse?(input: TInput, response: TResponse): number;
+}
@@ -6,16 +6,25 @@ import { logger } from "../Common/Logger";
 import { ConfigHelper } from "../Common/ConfigHelper";
 import { Wallet } from "ethers";
 import { ProcessHelper } from "../Common/ProcessHelper";
-import salesman from "@wemap/salesman.js";
+import { TaskTypeRegistry } from "../Common/TaskTypeRegistry";
 
 // populated after Operator registration to kernel
 let operatorId: number;
 let operatorOwner: Wallet;
 
+// IDs of the tasks already received, as a task can be both pushed and polled
+const receivedTaskIds: Set<number> = new Set<number>();
+
+// whether the task stream is connected, polling is only needed while it is not
+let streamConnected = false;
+let polling = false;
+
 /**
  * Registers an operator to the demo DVN
  *
- * This function generates a new wallet for the operator owner and registers the operator to the demo DVN
+ * This function loads the wallet of the operator owner from its keystore, creating it at first start,
+ * requests the registration of the operator to the demo DVN, reusing the registrations made by the previous runs,
+ * and waits for the request to be accepted by the admission policy of the Task Aggregator
  * It logs the registration process and resolves the promise when the registration is successful
  * If an error occurs during the registration, it logs the error and rejects the promise
  *
@@ -25,10 +34,21 @@ const registerOperator = async (): Promise<void> => {
   return new Promise<void>(async (resolve, reject) => {
     logger.info("Registering Operator to the demo DVN...");
 
-    operatorOwner = WalletHelper.generateWallet();
+    try {
+      operatorOwner = await WalletHelper.loadOrCreateOperatorOwnerWallet();
+    } catch (error) {
+      logger.error(error);
+      return reject(error);
+    }
 
     WalletHelper.registerOperatorToDemoDVN(operatorOwner)
-      .then((id) => {
+      .then(async (id) => {
+        logger.info(
+          `Operator #${id} waiting for the admission by the demo DVN...`,
+        );
+
+        await WalletHelper.waitForOperatorAdmission(id);
+
         logger.info(
           `Operator #${id} successfully registered to Kernel and to the demo DVN`,
         );
@@ -69,6 +89,7 @@ const executeTask = async (task: Task): Promise<void> => {
         operatorId: operatorId,
         response: jsonResponse,
         signature: signature,
+        signatureVersion: OperatorHelper.SIGNATURE_VERSION_TYPED_DATA,
       })
       .then((response) => {
         logger.info(`[task ${task.id}] response sent`);
@@ -77,72 +98,174 @@ const executeTask = async (task: Task): Promise<void> => {
       })
       .catch((error) => {
         logger.error(error);
+
+        resolve();
       });
   });
 };
 
 /**
- * Computes the response for a given task by solving the TSP (Traveling Salesman Problem) with the provided input
+ * Computes the response for a given task with the solver of its task type
  *
- * @param {Task} task The task object containing the input data for the TSP problem
- * @returns {number[][]} - A 2D array representing the solution to the TSP problem
+ * @param {Task} task The task object containing the type and the input data
+ * @returns {any} The response to the task
  */
-const computeRespose = (task: Task): number[][] => {
-  const input = JSON.parse(task.input);
-  const response = solveTSPProblem(input);
+const computeRespose = (task: Task): any => {
+  const input = TaskTypeRegistry.parseInput(task);
 
-  return response;
+  return TaskTypeRegistry.get(task.type).solve(input);
 };
 
 /**
- * Solves the Traveling Salesman Problem (TSP) for a given set of points
+ * Executes a task received from the Task Aggregator, unless it was already received
  *
- * @param input A 2D array where each sub-array contains the x and y coordinates of a point
- * @returns A 2D array of points ordered to minimize the travel distance, where each sub-array contains the x and y coordinates of a point
+ * @param {Task} task The received task
+ * @returns {Promise<boolean>} A promise that resolves with false if the task was already received
  */
-const solveTSPProblem = (input: number[][]): number[][] => {
-  const points = input.map(([x, y]) => new salesman.Point(x, y));
-  const solution = salesman.solve(points, 1);
-  const orderedPoints = solution.map((i) => points[i]);
+const handleTask = async (task: Task): Promise<boolean> => {
+  if (receivedTaskIds.has(task.id)) {
+    return false;
+  }
+
+  receivedTaskIds.add(task.id);
+  logger.info(`[task ${task.id}] received from Task Aggregator`);
 
-  return orderedPoints.map((point) => [point.x, point.y]);
+  await executeTask(task);
+
+  return true;
 };
 
 /**
- * Fetches the next task for the operator from the API and executes it
+ * Fetches the next tasks for the operator from the API and executes them
  *
- * This function makes an HTTP GET request to retrieve the next task for the operator
- * If a task is received, it is built from the API response and executed
- * If no tasks are left, the function will wait for 1 second before trying again
+ * This function makes HTTP GET requests to retrieve the next task for the operator until no tasks are left
+ * While the task stream is not connected, it then waits for 1 second before trying again
  *
- * @returns {Promise<void>} A promise that resolves when the task is executed or no tasks are left
+ * @returns {Promise<void>} A promise that resolves when no tasks are left
  */
 const getNewTask = async () => {
-  axios
-    .get(ConfigHelper.buildApiUrl(`/operator/${operatorId}/task/next`))
-    .then(async (response) => {
-      const data = response.data;
+  let received = true;
+
+  while (received) {
+    const path = `/operator/${operatorId}/task/next`;
+
+    received = await OperatorHelper.signRequest("GET", path, operatorOwner)
+      .then((headers) => axios.get(ConfigHelper.buildApiUrl(path), { headers }))
+      .then(async (response) => {
+        const data = response.data;
+
+        if (data === "") {
+          // no tasks left
+          return false;
+        }
+
+        return handleTask(Task.buildFromAPI(data));
+      })
+      .catch((error) => {
+        logger.error(error);
+
+        return false;
+      });
+  }
+
+  if (streamConnected) {
+    polling = false;
+    return;
+  }
+
+  setTimeout(() => {
+    getNewTask();
+  }, 1000);
+};
+
+/**
+ * Starts polling the API for new tasks, unless it is already polling
+ */
+const startPolling = () => {
+  if (polling) {
+    return;
+  }
 
-      if (data === "") {
-        // no tasks left
-        return;
-      }
+  polling = true;
+  getNewTask();
+};
+
+/**
+ * Subscribes to the task stream of the Task Aggregator and executes the pushed tasks
+ *
+ * Tasks created before the subscription are fetched by polling once the stream is connected
+ * When the stream drops, the operator falls back to polling and subscribes again after 1 second
+ */
+const subscribeToTasks = () => {
+  const path = `/operator/${operatorId}/task/stream`;
+
+  OperatorHelper.signRequest("GET", path, operatorOwner)
+    .then((headers) =>
+      axios.get(ConfigHelper.buildApiUrl(path), {
+        headers,
+        responseType: "stream",
+      }),
+    )
+    .then((response) => {
+      logger.info("Subscribed to the task stream");
+
+      streamConnected = true;
+
+      // fetch the tasks created before the subscription
+      startPolling();
+
+      let buffer = "";
+
+      response.data.on("data", (chunk: Buffer) => {
+        buffer += chunk.toString();
+
+        // events are separated by a blank line
+        const events = buffer.split("\n\n");
+        buffer = events.pop() ?? "";
+
+        events.forEach((event) => {
+          const lines = event.split("\n");
+
+          if (!lines.includes("event: task")) {
+            return; // comments and heartbeats
+          }
+
+          const data = lines
+            .filter((line) => line.startsWith("data: "))
+            .map((line) => line.substring("data: ".length))
+            .join("\n");
 
-      const task = Task.buildFromAPI(data);
-      logger.info(`[task ${task.id}] received from Task Aggregator`);
+          handleTask(Task.buildFromAPI(JSON.parse(data))).catch((error) => {
+            logger.error(error);
+          });
+        });
+      });
 
-      await executeTask(task);
+      response.data.on("close", () => {
+        logger.warn("Task stream dropped, falling back to polling");
+
+        onStreamDropped();
+      });
     })
     .catch((error) => {
       logger.error(error);
-    })
-    .then(() => {
-      setTimeout(() => {
-        getNewTask();
-      }, 1000);
+
+      onStreamDropped();
     });
 };
 
+/**
+ * Falls back to polling and subscribes to the task stream again after 1 second
+ */
+const onStreamDropped = () => {
+  streamConnected = false;
+  startPolling();
+
+  setTimeout(() => {
+    subscribeToTasks();
+  }, 1000);
+};
+
 /**
  * Waits until the TaskAggregator service is available by periodically checking its status endpoint.
  * The function will resolve once the service responds with a status code of 200
@@ -187,7 +310,7 @@ const main = async () => {
     waitUntilTaskAggregatorIsAvailable().then(() => {
       registerOperator().then(() => {
         logger.info("Ready to execute tasks");
-        getNewTask();
+        subscribeToTasks();
       });
     });
   });
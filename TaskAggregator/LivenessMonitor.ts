@@ -0,0 +1,228 @@
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { DatabaseManager } from "../Common/DatabaseManager";
+import { logger } from "../Common/Logger";
+import { OperatorHelper } from "../Common/OperatorHelper";
+import { EjectionProposal } from "../Common/model/EjectionProposal";
+import { OperatorLiveness } from "../Common/model/OperatorLiveness";
+
+/**
+ * The LivenessMonitor class periodically marks the operators registered to the DVN as active or inactive
+ *
+ * The last poll and the last response of each operator are recorded by the Task Aggregator server. An operator is inactive when:
+ * 1. it did not poll for tasks, nor keep a subscription to them open, within the poll threshold
+ * 2. it did not answer a task it could answer within the response threshold
+ * Inactive operators can still answer the tasks, but they do not count in the quorum of the tasks created while they are
+ * inactive, so that a dead operator cannot make the quorum unreachable. They are active again once they poll and answer.
+ *
+ * When enabled, the ejection of the operators inactive for longer than the ejection delay is proposed to the DVN owner,
+ * once per inactivity period. The proposals are kept as an audit trail, and closed once the operator is removed from
+ * the DVN, once it becomes active again, or when dismissed through the admin API
+ */
+export class LivenessMonitor {
+  // Timer of the scheduled runs
+  private static interval: NodeJS.Timeout | undefined;
+
+  // Whether a run is in progress, to avoid overlapping runs
+  private static running = false;
+
+  /**
+   * Starts checking the liveness of the operators at the configured interval
+   */
+  static start() {
+    if (LivenessMonitor.interval != null) {
+      return;
+    }
+
+    const period = ConfigHelper.getLivenessMonitorInterval();
+
+    LivenessMonitor.interval = setInterval(async () => {
+      if (LivenessMonitor.running) {
+        return;
+      }
+
+      LivenessMonitor.running = true;
+
+      try {
+        await LivenessMonitor.checkOperators();
+      } catch (error) {
+        logger.error(error);
+      } finally {
+        LivenessMonitor.running = false;
+      }
+    }, period);
+
+    logger.info(`Liveness monitor started, running every ${period / 1000}s`);
+  }
+
+  /**
+   * Stops checking the liveness of the operators
+   */
+  static stop() {
+    if (LivenessMonitor.interval == null) {
+      return;
+    }
+
+    clearInterval(LivenessMonitor.interval);
+    LivenessMonitor.interval = undefined;
+  }
+
+  /**
+   * Updates the liveness status of the registered operators, then updates the ejection proposals
+   *
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves when the run is over
+   */
+  static async checkOperators(now: number = Date.now()): Promise<void> {
+    const operatorIds = await OperatorHelper.getRegisteredOperators();
+    const livenesses = new Map(
+      (await DatabaseManager.fetchOperatorLiveness()).map((liveness) => [
+        liveness.operatorId,
+        liveness,
+      ]),
+    );
+
+    const updated: OperatorLiveness[] = [];
+
+    for (const operatorId of operatorIds) {
+      const liveness =
+        livenesses.get(operatorId) ?? OperatorLiveness.build(operatorId, now);
+      const reason = await LivenessMonitor.getInactivityReason(liveness, now);
+
+      if (reason == null && liveness.isInactive()) {
+        logger.info(`Operator #${operatorId} is active again`);
+      } else if (reason != null && !liveness.isInactive()) {
+        logger.warn(`Operator #${operatorId} is inactive: ${reason}`);
+      }
+
+      liveness.status =
+        reason == null
+          ? OperatorLiveness.STATUS_ACTIVE
+          : OperatorLiveness.STATUS_INACTIVE;
+      liveness.inactiveSince =
+        reason == null ? null : (liveness.inactiveSince ?? now);
+      liveness.reason = reason ?? null;
+      liveness.updatedAt = now;
+
+      livenesses.set(operatorId, liveness);
+      updated.push(liveness);
+    }
+
+    await DatabaseManager.saveOperatorLivenessStatus(updated);
+    await LivenessMonitor.updateEjectionProposals(operatorIds, livenesses, now);
+  }
+
+  /**
+   * Checks the last poll and the last response of an operator against the thresholds
+   *
+   * The activity of an operator is only checked from the time it was first tracked
+   *
+   * @param liveness The liveness of the operator
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves to the reason why the operator is inactive, or undefined if it is active
+   */
+  private static async getInactivityReason(
+    liveness: OperatorLiveness,
+    now: number,
+  ): Promise<string | undefined> {
+    const pollThreshold = ConfigHelper.getLivenessPollThreshold();
+    const lastPollAt = Math.max(liveness.lastPollAt ?? 0, liveness.firstSeenAt);
+
+    if (pollThreshold > 0 && now - lastPollAt > pollThreshold) {
+      return `No poll for ${Math.floor((now - lastPollAt) / 1000)}s`;
+    }
+
+    const responseThreshold = ConfigHelper.getLivenessResponseThreshold();
+
+    if (responseThreshold <= 0) {
+      return undefined;
+    }
+
+    // the tasks created since the last response and older than the threshold were not answered in time
+    const unansweredTasks = await DatabaseManager.countUnansweredOperatorTasks(
+      liveness.operatorId,
+      Math.max(liveness.lastResponseAt ?? 0, liveness.firstSeenAt),
+      now - responseThreshold,
+    );
+
+    return unansweredTasks > 0
+      ? `${unansweredTasks} task(s) not answered within ${responseThreshold / 1000}s`
+      : undefined;
+  }
+
+  /**
+   * Closes the ejection proposals of the operators removed from the DVN or active again, then proposes
+   * the ejection of the operators inactive for longer than the ejection delay, if enabled
+   *
+   * @param operatorIds The IDs of the operators registered to the DVN
+   * @param livenesses The liveness of the tracked operators, indexed by operator ID
+   * @param now The current datetime in milliseconds
+   * @returns A promise that resolves when the proposals are updated
+   */
+  private static async updateEjectionProposals(
+    operatorIds: number[],
+    livenesses: Map<number, OperatorLiveness>,
+    now: number,
+  ): Promise<void> {
+    const proposals = await DatabaseManager.fetchEjectionProposals();
+
+    for (const proposal of proposals) {
+      if (proposal.status !== EjectionProposal.STATUS_PROPOSED) {
+        continue;
+      }
+
+      if (!operatorIds.includes(proposal.operatorId)) {
+        await DatabaseManager.resolveEjectionProposal(
+          proposal.id,
+          EjectionProposal.STATUS_EJECTED,
+          "Operator no longer registered to the DVN",
+        );
+        logger.info(
+          `Operator #${proposal.operatorId} removed from the DVN, ejection proposal #${proposal.id} closed`,
+        );
+      } else if (!livenesses.get(proposal.operatorId)?.isInactive()) {
+        await DatabaseManager.resolveEjectionProposal(
+          proposal.id,
+          EjectionProposal.STATUS_WITHDRAWN,
+          "Operator active again",
+        );
+        logger.info(
+          `Operator #${proposal.operatorId} active again, ejection proposal #${proposal.id} withdrawn`,
+        );
+      }
+    }
+
+    if (!ConfigHelper.isLivenessEjectionProposed()) {
+      return;
+    }
+
+    const ejectionDelay = ConfigHelper.getLivenessEjectionDelay();
+
+    for (const operatorId of operatorIds) {
+      const liveness = livenesses.get(operatorId)!;
+
+      if (
+        !liveness.isInactive() ||
+        now - liveness.inactiveSince! < ejectionDelay
+      ) {
+        continue;
+      }
+
+      // a single proposal is made per inactivity period, even if dismissed
+      if (
+        proposals.some(
+          (proposal) =>
+            proposal.operatorId === operatorId &&
+            proposal.inactiveSince === liveness.inactiveSince,
+        )
+      ) {
+        continue;
+      }
+
+      const proposal = await DatabaseManager.addEjectionProposal(liveness, now);
+
+      logger.warn(
+        `Ejection of Operator #${operatorId} proposed to the DVN owner (proposal #${proposal.id}): ${liveness.reason}`,
+      );
+    }
+  }
+}
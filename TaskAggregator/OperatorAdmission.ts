@@ -0,0 +1,262 @@
+import { Contract } from "ethers";
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { logger } from "../Common/Logger";
+import { WalletHelper } from "../Common/WalletHelper";
+
+/**
+ * Represents the outcome of the admission policy for an operator registration request
+ */
+export interface AdmissionDecision {
+  /**
+   * The ID of the operator requesting its registration
+   */
+  operatorId: number;
+
+  /**
+   * The address of the owner of the operator
+   */
+  operatorOwner: string;
+
+  /**
+   * The decision of the policy, see OperatorAdmission.DECISION_*
+   */
+  decision: string;
+
+  /**
+   * The reason of the decision
+   */
+  reason: string;
+}
+
+/**
+ * The OperatorAdmission class accepts or rejects the operator registration requests made to the demo DVN
+ *
+ * The requests pending at startup are evaluated first, then each OperatorRegistrationRequested event
+ * triggers the evaluation of the new request. The configured policy is applied as follows:
+ * 1. requests are rejected once the maximum number of operators is reached
+ * 2. requests of operators without metadata URI are rejected if a metadata URI is required
+ * 3. with the 'allowlist' policy, requests of the allowlisted owners are accepted and the others rejected
+ * 4. with the 'manual' policy, requests are left pending until approved or rejected through the admin API
+ * 5. with the 'auto' policy, requests are accepted
+ */
+export class OperatorAdmission {
+  /**
+   * Admission policy accepting every request passing the checks
+   */
+  public static readonly POLICY_AUTO = "auto";
+
+  /**
+   * Admission policy accepting the requests of the allowlisted operator owners only
+   */
+  public static readonly POLICY_ALLOWLIST = "allowlist";
+
+  /**
+   * Admission policy leaving the requests passing the checks to the DVN owner
+   */
+  public static readonly POLICY_MANUAL = "manual";
+
+  /**
+   * The request is accepted
+   */
+  public static readonly DECISION_ACCEPT = "ACCEPT";
+
+  /**
+   * The request is rejected
+   */
+  public static readonly DECISION_REJECT = "REJECT";
+
+  /**
+   * The request waits for a manual approval
+   */
+  public static readonly DECISION_MANUAL = "MANUAL";
+
+  // DVNCoordinator contract whose events are listened to
+  private static contract: Contract | undefined;
+
+  // Requests are handled one at a time, so that accepted requests are counted against the maximum number of operators
+  private static queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Starts handling the pending and the upcoming operator registration requests
+   *
+   * @returns A promise that resolves once the requests pending at startup are queued
+   * @throws Will throw an error if the configured admission policy is not supported
+   */
+  static async start(): Promise<void> {
+    if (OperatorAdmission.contract != null) {
+      return;
+    }
+
+    const policy = ConfigHelper.getAdmissionPolicy();
+
+    if (
+      ![
+        OperatorAdmission.POLICY_AUTO,
+        OperatorAdmission.POLICY_ALLOWLIST,
+        OperatorAdmission.POLICY_MANUAL,
+      ].includes(policy)
+    ) {
+      throw new Error(`Unsupported admission policy "${policy}"`);
+    }
+
+    OperatorAdmission.contract = WalletHelper.getDemoDVNCoordinatorContract(
+      WalletHelper.getDVNOwnerWallet(),
+    );
+
+    // listen for OperatorRegistrationRequested event
+    await OperatorAdmission.contract.on(
+      "OperatorRegistrationRequested",
+      (operatorId) => {
+        OperatorAdmission.enqueue(Number(operatorId));
+      },
+    );
+
+    const operatorIds =
+      await WalletHelper.getOperatorsWithRegistrationRequest();
+
+    operatorIds.forEach((operatorId) => OperatorAdmission.enqueue(operatorId));
+
+    logger.info(
+      `Operator admission started with the "${policy}" policy, ${operatorIds.length} pending request(s)`,
+    );
+  }
+
+  /**
+   * Stops handling the operator registration requests
+   */
+  static stop() {
+    if (OperatorAdmission.contract == null) {
+      return;
+    }
+
+    OperatorAdmission.contract.removeAllListeners(
+      "OperatorRegistrationRequested",
+    );
+    OperatorAdmission.contract = undefined;
+  }
+
+  /**
+   * Checks that a transaction handling a registration request was not reverted
+   *
+   * @param transaction The hash and the receipt status of the mined transaction
+   * @throws if the transaction was reverted
+   */
+  private static checkTransaction(transaction: {
+    txHash: string;
+    status: number;
+  }) {
+    if (transaction.status !== 1) {
+      throw `Transaction ${transaction.txHash} reverted (status ${transaction.status})`;
+    }
+  }
+
+  /**
+   * Applies the admission policy to the registration request of an operator, without acting on it
+   *
+   * @param operatorId The ID of the operator requesting its registration
+   * @returns A promise that resolves to the decision of the policy
+   */
+  static async evaluate(operatorId: number): Promise<AdmissionDecision> {
+    const operatorOwner = await WalletHelper.getOperatorOwner(operatorId);
+    const decide = (decision: string, reason: string): AdmissionDecision => ({
+      operatorId,
+      operatorOwner,
+      decision,
+      reason,
+    });
+
+    const maxOperators = ConfigHelper.getAdmissionMaxOperators();
+
+    if (
+      maxOperators > 0 &&
+      (await WalletHelper.getDVNOperatorCount()) >= maxOperators
+    ) {
+      return decide(
+        OperatorAdmission.DECISION_REJECT,
+        `Maximum number of operators (${maxOperators}) reached`,
+      );
+    }
+
+    if (
+      ConfigHelper.isAdmissionMetadataRequired() &&
+      (await WalletHelper.getOperatorMetadataURI(operatorId)).trim() === ""
+    ) {
+      return decide(
+        OperatorAdmission.DECISION_REJECT,
+        "Operator has no metadata URI",
+      );
+    }
+
+    switch (ConfigHelper.getAdmissionPolicy()) {
+      case OperatorAdmission.POLICY_ALLOWLIST:
+        return ConfigHelper.getAdmissionAllowlist().includes(
+          operatorOwner.toLowerCase(),
+        )
+          ? decide(OperatorAdmission.DECISION_ACCEPT, "Owner is allowlisted")
+          : decide(
+              OperatorAdmission.DECISION_REJECT,
+              "Owner is not allowlisted",
+            );
+      case OperatorAdmission.POLICY_MANUAL:
+        return decide(
+          OperatorAdmission.DECISION_MANUAL,
+          "Waiting for a manual approval",
+        );
+      default:
+        return decide(
+          OperatorAdmission.DECISION_ACCEPT,
+          "Accepted automatically",
+        );
+    }
+  }
+
+  /**
+   * Queues the handling of the registration request of an operator
+   *
+   * @param operatorId The ID of the operator requesting its registration
+   */
+  private static enqueue(operatorId: number) {
+    OperatorAdmission.queue = OperatorAdmission.queue.then(() =>
+      OperatorAdmission.handleRequest(operatorId).catch((error) => {
+        logger.error(
+          `Error handling the registration request of Operator #${operatorId}: ${error}`,
+        );
+      }),
+    );
+  }
+
+  /**
+   * Applies the admission policy to the registration request of an operator and accepts or rejects it accordingly
+   *
+   * @param operatorId The ID of the operator requesting its registration
+   * @returns A promise that resolves once the request is handled
+   */
+  private static async handleRequest(operatorId: number): Promise<void> {
+    // the request may have been handled through the admin API in the meantime
+    if (!(await WalletHelper.hasOperatorRegistrationRequest(operatorId))) {
+      return;
+    }
+
+    const { decision, reason } = await OperatorAdmission.evaluate(operatorId);
+
+    if (decision === OperatorAdmission.DECISION_ACCEPT) {
+      OperatorAdmission.checkTransaction(
+        await WalletHelper.acceptOperatorRegistrationByDemoDVN(operatorId),
+      );
+      logger.info(
+        `Registration request of Operator #${operatorId} accepted: ${reason}`,
+      );
+    } else if (decision === OperatorAdmission.DECISION_REJECT) {
+      OperatorAdmission.checkTransaction(
+        await WalletHelper.rejectOperatorRegistrationByDemoDVN(operatorId),
+      );
+      logger.info(
+        `Registration request of Operator #${operatorId} rejected: ${reason}`,
+      );
+    } else {
+      logger.info(
+        `Registration request of Operator #${operatorId} pending: ${reason}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { ethers } from "ethers";
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { DatabaseManager } from "../Common/DatabaseManager";
+import { logger } from "../Common/Logger";
+import { WalletHelper } from "../Common/WalletHelper";
+import { Task } from "../Common/model/Task";
+import { TaskCertificate } from "../Common/model/TaskCertificate";
+import { TaskPublication } from "../Common/model/TaskPublication";
+import { TaskResult } from "../Common/model/TaskResult";
+
+/**
+ * The ResultPublisher class periodically submits the results of the completed tasks to the result verifier contract
+ *
+ * Each run first tracks the confirmations of the transactions already sent, then submits the next batch
+ * of completed tasks along with the signatures of their certificate. Failed submissions, reverted
+ * transactions and transactions never mined are retried until the maximum number of attempts is reached,
+ * so the verifier contract is expected to ignore the results it already received
+ */
+export class ResultPublisher {
+  // Timer of the scheduled runs
+  private static interval: NodeJS.Timeout | undefined;
+
+  // Whether a run is in progress, to avoid overlapping runs
+  private static running = false;
+
+  /**
+   * Tracks the submitted task results, then submits the next batch of completed tasks
+   *
+   * @returns A promise that resolves when the run is over
+   */
+  static async publishResults(): Promise<void> {
+    await ResultPublisher.confirmSubmittedResults();
+    await ResultPublisher.submitPendingResults();
+  }
+
+  /**
+   * Starts publishing task results at the configured interval, if a result verifier is configured
+   */
+  static start() {
+    if (ResultPublisher.interval != null) {
+      return;
+    }
+
+    if (ConfigHelper.getResultVerifierAddress() == null) {
+      logger.info("No result verifier configured, results stay off-chain");
+      return;
+    }
+
+    const period = ConfigHelper.getResultPublisherInterval();
+
+    ResultPublisher.interval = setInterval(async () => {
+      if (ResultPublisher.running) {
+        return;
+      }
+
+      ResultPublisher.running = true;
+
+      try {
+        await ResultPublisher.publishResults();
+      } catch (error) {
+        logger.error(error);
+      } finally {
+        ResultPublisher.running = false;
+      }
+    }, period);
+
+    logger.info(`Result publisher started, running every ${period / 1000}s`);
+  }
+
+  /**
+   * Stops publishing task results
+   */
+  static stop() {
+    if (ResultPublisher.interval == null) {
+      return;
+    }
+
+    clearInterval(ResultPublisher.interval);
+    ResultPublisher.interval = undefined;
+  }
+
+  /**
+   * Builds the result of a task as expected by the result verifier contract
+   *
+   * @param task The completed task
+   * @param certificate The certificate of the task
+   * @returns The task result
+   */
+  private static buildTaskResult(
+    task: Task,
+    certificate: TaskCertificate,
+  ): TaskResult {
+    return {
+      taskId: task.id,
+      taskType: task.type,
+      inputHash: ethers.keccak256(ethers.toUtf8Bytes(task.input)),
+      response: certificate.response,
+      operatorIds: certificate.signatures.map(({ operatorId }) => operatorId),
+      signatureVersions: certificate.signatures.map(
+        ({ signatureVersion }) => signatureVersion,
+      ),
+      signatures: certificate.signatures.map(({ signature }) => signature),
+    };
+  }
+
+  /**
+   * Updates the confirmations of the submitted task results
+   *
+   * Results whose transaction reverted, or was not mined within the retry delay, are scheduled for a new attempt
+   *
+   * @returns A promise that resolves when all the submitted results have been checked
+   */
+  private static async confirmSubmittedResults(): Promise<void> {
+    const publications = await DatabaseManager.fetchSubmittedTaskPublications();
+    const provider = WalletHelper.getRPCProvider();
+    const requiredConfirmations =
+      ConfigHelper.getResultPublisherConfirmations();
+
+    const publicationsByTx = new Map<string, TaskPublication[]>();
+
+    publications.forEach((publication) => {
+      publicationsByTx.set(publication.txHash!, [
+        ...(publicationsByTx.get(publication.txHash!) ?? []),
+        publication,
+      ]);
+    });
+
+    for (const [txHash, txPublications] of publicationsByTx) {
+      const receipt = await provider.getTransactionReceipt(txHash);
+
+      if (receipt == null) {
+        const submittedAt = txPublications[0].updatedAt;
+
+        if (
+          Date.now() - submittedAt >
+          ConfigHelper.getResultPublisherRetryDelay()
+        ) {
+          await ResultPublisher.handleFailedAttempt(
+            txPublications,
+            `Transaction ${txHash} not mined`,
+          );
+        }
+
+        continue;
+      }
+
+      if (receipt.status !== 1) {
+        await ResultPublisher.handleFailedAttempt(
+          txPublications,
+          `Transaction ${txHash} reverted`,
+        );
+
+        continue;
+      }
+
+      const confirmations = await receipt.confirmations();
+      const confirmed = confirmations >= requiredConfirmations;
+
+      txPublications.forEach((publication) => {
+        publication.blockNumber = receipt.blockNumber;
+        publication.confirmations = confirmations;
+        publication.updatedAt = Date.now();
+
+        if (confirmed) {
+          publication.status = TaskPublication.STATUS_CONFIRMED;
+        }
+      });
+
+      await DatabaseManager.saveTaskPublications(txPublications);
+
+      if (confirmed) {
+        logger.info(
+          `Results of tasks ${txPublications.map(({ taskId }) => taskId).join(", ")} confirmed in block ${receipt.blockNumber}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Schedules a new submission attempt of task results, or marks them as failed if they reached the maximum number of attempts
+   *
+   * @param publications The publications of the task results
+   * @param error The reason of the failure
+   * @returns A promise that resolves when the publications are stored
+   */
+  private static async handleFailedAttempt(
+    publications: TaskPublication[],
+    error: string,
+  ): Promise<void> {
+    const now = Date.now();
+    const maxAttempts = ConfigHelper.getResultPublisherMaxAttempts();
+    const retryDelay = ConfigHelper.getResultPublisherRetryDelay();
+
+    publications.forEach((publication) => {
+      publication.status =
+        publication.attempts >= maxAttempts
+          ? TaskPublication.STATUS_FAILED
+          : TaskPublication.STATUS_PENDING;
+      publication.lastError = error;
+      publication.nextAttemptAt = now + retryDelay * publication.attempts;
+      publication.updatedAt = now;
+    });
+
+    await DatabaseManager.saveTaskPublications(publications);
+
+    logger.warn(
+      `Submission of the results of tasks ${publications.map(({ taskId }) => taskId).join(", ")} failed: ${error}`,
+    );
+  }
+
+  /**
+   * Submits the next batch of completed task results to the result verifier contract
+   *
+   * @returns A promise that resolves when the batch has been submitted, or scheduled for a new attempt
+   */
+  private static async submitPendingResults(): Promise<void> {
+    const tasks: Task[] = await DatabaseManager.fetchPublishableTasks(
+      Date.now(),
+      ConfigHelper.getResultPublisherBatchSize(),
+    );
+
+    if (tasks.length === 0) {
+      return;
+    }
+
+    const results: TaskResult[] = [];
+    const publications: TaskPublication[] = [];
+
+    for (const task of tasks) {
+      // the publishable tasks are the completed tasks with a certificate
+      const certificate = (await DatabaseManager.getTaskCertificate(task))!;
+      const publication =
+        (await DatabaseManager.getTaskPublication(task)) ??
+        TaskPublication.build(task.id);
+
+      results.push(ResultPublisher.buildTaskResult(task, certificate));
+
+      publication.attempts++;
+      publications.push(publication);
+    }
+
+    let txHash: string;
+
+    try {
+      txHash = await WalletHelper.submitTaskResults(results);
+    } catch (error) {
+      return ResultPublisher.handleFailedAttempt(publications, `${error}`);
+    }
+
+    publications.forEach((publication) => {
+      publication.status = TaskPublication.STATUS_SUBMITTED;
+      publication.txHash = txHash;
+      publication.blockNumber = null;
+      publication.confirmations = 0;
+      publication.lastError = null;
+      publication.nextAttemptAt = null;
+      publication.updatedAt = Date.now();
+    });
+
+    await DatabaseManager.saveTaskPublications(publications);
+
+    logger.info(
+      `Results of tasks ${tasks.map(({ id }) => id).join(", ")} submitted in transaction ${txHash}`,
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { DatabaseManager } from "../Common/DatabaseManager";
+import { logger } from "../Common/Logger";
+import { MerkleHelper } from "../Common/MerkleHelper";
+import { OperatorHelper } from "../Common/OperatorHelper";
+import { RewardEpoch } from "../Common/model/RewardEpoch";
+import { RewardPayout } from "../Common/model/RewardPayout";
+
+/**
+ * The RewardLedger class periodically closes the ended reward epochs and builds their payout reports
+ *
+ * Operators are credited when a task they agreed on is completed, in the transaction finalizing the task (see
+ * TaskManager.registerTaskResponse). Once an epoch has ended, and after a grace period letting the finalizations
+ * in progress commit their credits into it, the credits of each operator are summed into a payout to its reward
+ * address in the Operator Registry, and the Merkle root of the payouts is stored with the report, so it can be set
+ * on an on-chain distributor from which each operator claims its payout with its Merkle proof
+ */
+export class RewardLedger {
+  // Timer of the scheduled runs
+  private static interval: NodeJS.Timeout | undefined;
+
+  // Whether a run is in progress, to avoid overlapping runs
+  private static running = false;
+
+  /**
+   * Starts closing the ended reward epochs at the configured interval
+   */
+  static start() {
+    if (RewardLedger.interval != null) {
+      return;
+    }
+
+    const period = ConfigHelper.getRewardLedgerInterval();
+
+    RewardLedger.interval = setInterval(async () => {
+      if (RewardLedger.running) {
+        return;
+      }
+
+      RewardLedger.running = true;
+
+      try {
+        await RewardLedger.closeEndedEpochs();
+      } catch (error) {
+        logger.error(error);
+      } finally {
+        RewardLedger.running = false;
+      }
+    }, period);
+
+    logger.info(`Reward ledger started, running every ${period / 1000}s`);
+  }
+
+  /**
+   * Stops closing the reward epochs
+   */
+  static stop() {
+    if (RewardLedger.interval == null) {
+      return;
+    }
+
+    clearInterval(RewardLedger.interval);
+    RewardLedger.interval = undefined;
+  }
+
+  /**
+   * Closes the reward epochs with credited rewards that ended before the grace period, from the oldest
+   *
+   * @returns A promise that resolves when all the ended epochs are closed
+   */
+  static async closeEndedEpochs(): Promise<void> {
+    // a finalization started before the end of an epoch may still credit it during the grace period
+    const currentEpoch = Math.floor(
+      (Date.now() - ConfigHelper.getRewardEpochGracePeriod()) /
+        ConfigHelper.getRewardEpochDuration(),
+    );
+
+    for (const epoch of await DatabaseManager.fetchRewardEpochsToClose(
+      currentEpoch,
+    )) {
+      await RewardLedger.closeEpoch(epoch);
+    }
+  }
+
+  /**
+   * Builds the Merkle proof of the payout of an operator for a closed reward epoch
+   *
+   * @param epoch The number of the epoch
+   * @param operatorId The ID of the operator
+   * @returns A promise that resolves to the payout, its leaf and its proof, or undefined if the operator was not paid in the epoch
+   */
+  static async getPayoutProof(
+    epoch: number,
+    operatorId: number,
+  ): Promise<
+    { payout: RewardPayout; leaf: string; proof: string[] } | undefined
+  > {
+    const payouts = await DatabaseManager.fetchRewardPayouts(epoch);
+    const payout = payouts.find((payout) => payout.operatorId === operatorId);
+
+    if (payout == null) {
+      return undefined;
+    }
+
+    const leaf = MerkleHelper.hashPayout(payout);
+
+    return {
+      payout,
+      leaf,
+      proof: MerkleHelper.getProof(payouts.map(MerkleHelper.hashPayout), leaf),
+    };
+  }
+
+  /**
+   * Sums the rewards credited during an epoch into a payout per operator, and stores the payout report of the epoch
+   *
+   * @param epoch The number of the ended epoch
+   * @returns A promise that resolves when the payout report is stored
+   */
+  private static async closeEpoch(epoch: number): Promise<void> {
+    const credits = await DatabaseManager.getRewardCredits(epoch);
+    const payouts: RewardPayout[] = [];
+
+    for (const [operatorId, amount] of credits) {
+      const payout = new RewardPayout();
+
+      payout.epoch = epoch;
+      payout.operatorId = operatorId;
+      payout.rewardAddress =
+        await OperatorHelper.getOperatorRewardAddress(operatorId);
+      payout.amount = amount.toString();
+
+      payouts.push(payout);
+    }
+
+    const duration = ConfigHelper.getRewardEpochDuration();
+    const report = new RewardEpoch();
+
+    report.epoch = epoch;
+    report.startsAt = epoch * duration;
+    report.endsAt = (epoch + 1) * duration;
+    report.merkleRoot = MerkleHelper.getRoot(
+      payouts.map(MerkleHelper.hashPayout),
+    );
+    report.totalAmount = [...credits.values()]
+      .reduce((sum, amount) => sum + amount, 0n)
+      .toString();
+    report.operatorsCount = payouts.length;
+    report.createdAt = Date.now();
+
+    await DatabaseManager.saveRewardEpoch(report, payouts);
+
+    logger.info(
+      `Reward epoch ${epoch} closed: ${report.totalAmount} paid to ${report.operatorsCount} operator(s), Merkle root ${report.merkleRoot}`,
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { DatabaseManager } from "../Common/DatabaseManager";
+import { logger } from "../Common/Logger";
+import { Task } from "../Common/model/Task";
+import { TaskManager } from "../Common/TaskManager";
+
+/**
+ * The TaskFinalizer class periodically finalizes the tasks whose deadline has passed
+ *
+ * Responses trigger the validation of a task, so a task that never reaches the count quorum
+ * would wait forever: the finalizer evaluates the responses received by its deadline instead
+ */
+export class TaskFinalizer {
+  // Timer of the scheduled runs
+  private static interval: NodeJS.Timeout | undefined;
+
+  // Whether a run is in progress, to avoid overlapping runs
+  private static running = false;
+
+  /**
+   * Finalizes all the tasks whose deadline has passed
+   *
+   * @returns A promise that resolves when all the expired tasks have been processed
+   */
+  static async finalizeExpiredTasks(): Promise<void> {
+    const tasks: Task[] = await DatabaseManager.fetchExpiredTasks();
+
+    for (const task of tasks) {
+      try {
+        await TaskManager.finalizeExpiredTask(task);
+      } catch (error) {
+        logger.error(error);
+      }
+    }
+  }
+
+  /**
+   * Starts finalizing expired tasks at the configured interval
+   */
+  static start() {
+    if (TaskFinalizer.interval != null) {
+      return;
+    }
+
+    const period = ConfigHelper.getTaskFinalizerInterval();
+
+    TaskFinalizer.interval = setInterval(async () => {
+      if (TaskFinalizer.running) {
+        return;
+      }
+
+      TaskFinalizer.running = true;
+
+      try {
+        await TaskFinalizer.finalizeExpiredTasks();
+      } catch (error) {
+        logger.error(error);
+      } finally {
+        TaskFinalizer.running = false;
+      }
+    }, period);
+
+    logger.info(`Task finalizer started, running every ${period / 1000}s`);
+  }
+
+  /**
+   * Stops finalizing expired tasks
+   */
+  static stop() {
+    if (TaskFinalizer.interval == null) {
+      return;
+    }
+
+    clearInterval(TaskFinalizer.interval);
+    TaskFinalizer.interval = undefined;
+  }
+}
@@ -0,0 +1,226 @@
+import { type Response } from "express";
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { DatabaseManager } from "../Common/DatabaseManager";
+import { logger } from "../Common/Logger";
+import { Task } from "../Common/model/Task";
+
+/**
+ * The TaskStream class pushes new tasks to the subscribed Operators through Server-Sent Events
+ *
+ * Tasks created by the Task Aggregator are pushed as soon as they are stored, while tasks created by
+ * other processes sharing the database (eg. the task generator) are detected by a single watcher,
+ * so Operators no longer need to poll the Task Aggregator
+ */
+export class TaskStream {
+  // Interval between two heartbeats sent to keep the connections alive, in milliseconds
+  static readonly HEARTBEAT_INTERVAL = 15000;
+
+  // Maximum number of tasks fetched by the watcher in a single query
+  static readonly WATCHER_BATCH_SIZE = 100;
+
+  // Number of task IDs below the last seen one scanned again by the watcher, as tasks created by
+  // concurrent transactions may be committed out of order
+  static readonly WATCHER_LOOKBACK = 1000;
+
+  // Open connections of the subscribed Operators, indexed by Operator ID
+  private static subscribers: Map<number, Set<Response>> = new Map<
+    number,
+    Set<Response>
+  >();
+
+  // ID of the last task created before the stream was started
+  private static startTaskId: number | undefined;
+
+  // ID of the last task seen by the watcher
+  private static lastSeenTaskId: number | undefined;
+
+  // IDs of the tasks pushed and still within the lookback window of the watcher
+  private static publishedTaskIds: Set<number> = new Set<number>();
+
+  // Timers of the watcher and of the heartbeat
+  private static intervals: NodeJS.Timeout[] = [];
+
+  /**
+   * Pushes a task to the subscribed Operators allowed to answer it, unless it was already pushed
+   *
+   * @param task The task to push
+   * @returns A promise that resolves when the task has been pushed
+   */
+  static async publish(task: Task): Promise<void> {
+    // tasks below the lookback window of the watcher have already been pushed
+    if (
+      TaskStream.publishedTaskIds.has(task.id) ||
+      (TaskStream.startTaskId != null &&
+        task.id <= TaskStream.getLookbackTaskId())
+    ) {
+      return;
+    }
+
+    TaskStream.publishedTaskIds.add(task.id);
+
+    const data = JSON.stringify({
+      id: task.id,
+      type: task.type,
+      createdAt: task.createdAt,
+      expiresAt: task.expiresAt,
+      input: task.input,
+    });
+
+    // only the operators registered when the task was created can answer it
+    const operatorIds = await DatabaseManager.getTaskOperators(task);
+
+    operatorIds.forEach((operatorId) => {
+      TaskStream.subscribers.get(operatorId)?.forEach((res) => {
+        res.write(`event: task\ndata: ${data}\n\n`);
+      });
+    });
+  }
+
+  /**
+   * Starts the watcher of the tasks created by other processes, and the heartbeat of the connections, which also
+   * records a poll of each subscribed Operator
+   *
+   * @returns A promise that resolves when the stream is started
+   */
+  static async start(): Promise<void> {
+    if (TaskStream.intervals.length > 0) {
+      return;
+    }
+
+    // only tasks created from now on are pushed
+    TaskStream.startTaskId = await DatabaseManager.getLastTaskId();
+    TaskStream.lastSeenTaskId = TaskStream.startTaskId;
+
+    let watching = false;
+
+    TaskStream.intervals.push(
+      setInterval(async () => {
+        if (watching) {
+          return;
+        }
+
+        watching = true;
+
+        try {
+          await TaskStream.watchNewTasks();
+        } catch (error) {
+          logger.error(error);
+        } finally {
+          watching = false;
+        }
+      }, ConfigHelper.getTaskStreamWatcherInterval()),
+    );
+
+    TaskStream.intervals.push(
+      setInterval(() => {
+        TaskStream.subscribers.forEach((connections, operatorId) => {
+          connections.forEach((res) => res.write(": heartbeat\n\n"));
+
+          // an open stream counts as polling for the liveness monitor
+          DatabaseManager.recordOperatorPoll(operatorId).catch((error) =>
+            logger.error(error),
+          );
+        });
+      }, TaskStream.HEARTBEAT_INTERVAL),
+    );
+  }
+
+  /**
+   * Stops the watcher and the heartbeat, and closes all the connections
+   */
+  static stop() {
+    TaskStream.intervals.forEach((interval) => clearInterval(interval));
+    TaskStream.intervals = [];
+
+    TaskStream.subscribers.forEach((connections) => {
+      connections.forEach((res) => res.end());
+    });
+    TaskStream.subscribers.clear();
+  }
+
+  /**
+   * Subscribes an Operator to the stream of new tasks
+   *
+   * The connection is kept open until the Operator disconnects or the stream is stopped
+   *
+   * @param operatorId The ID of the subscribing Operator
+   * @param res The response of the subscription request
+   */
+  static subscribe(operatorId: number, res: Response) {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    res.write(": subscribed\n\n");
+
+    const connections = TaskStream.subscribers.get(operatorId) ?? new Set();
+    connections.add(res);
+    TaskStream.subscribers.set(operatorId, connections);
+
+    logger.info(`Operator #${operatorId} subscribed to the task stream`);
+
+    res.on("close", () => {
+      connections.delete(res);
+
+      if (connections.size === 0) {
+        TaskStream.subscribers.delete(operatorId);
+      }
+
+      logger.info(`Operator #${operatorId} unsubscribed from the task stream`);
+    });
+  }
+
+  /**
+   * Returns the ID below which the watcher no longer looks for tasks
+   *
+   * @returns The ID of the last task before the lookback window of the watcher
+   */
+  private static getLookbackTaskId(): number {
+    return Math.max(
+      TaskStream.startTaskId ?? 0,
+      (TaskStream.lastSeenTaskId ?? 0) - TaskStream.WATCHER_LOOKBACK,
+    );
+  }
+
+  /**
+   * Pushes the ready tasks created since the last run, including those created by other processes
+   *
+   * The tasks within the lookback window are fetched again, so a task committed after a task with a
+   * greater ID is still pushed, while the tasks already pushed are skipped
+   *
+   * @returns A promise that resolves when the new tasks have been pushed
+   */
+  private static async watchNewTasks(): Promise<void> {
+    let afterTaskId = TaskStream.getLookbackTaskId();
+    let tasks: Task[];
+
+    do {
+      tasks = await DatabaseManager.fetchReadyTasksAfter(
+        afterTaskId,
+        TaskStream.WATCHER_BATCH_SIZE,
+      );
+
+      for (const task of tasks) {
+        await TaskStream.publish(task);
+        afterTaskId = task.id;
+      }
+    } while (tasks.length === TaskStream.WATCHER_BATCH_SIZE);
+
+    // the window only moves once the whole run is pushed
+    TaskStream.lastSeenTaskId = Math.max(
+      TaskStream.lastSeenTaskId ?? 0,
+      afterTaskId,
+    );
+
+    // forget the pushed tasks the watcher will not see again
+    const lookbackTaskId = TaskStream.getLookbackTaskId();
+
+    TaskStream.publishedTaskIds.forEach((taskId) => {
+      if (taskId <= lookbackTaskId) {
+        TaskStream.publishedTaskIds.delete(taskId);
+      }
+    });
+  }
+}
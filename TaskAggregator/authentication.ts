@@ -0,0 +1,134 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { type NextFunction, type Request, type Response } from "express";
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { logger } from "../Common/Logger";
+import { OperatorHelper } from "../Common/OperatorHelper";
+
+// Header carrying the API key of the admin endpoints
+export const ADMIN_API_KEY_HEADER = "X-Admin-Api-Key";
+
+// Nonces of the accepted requests, indexed by "operatorId:nonce", with the time they can be forgotten at
+const usedNonces: Map<string, number> = new Map<string, number>();
+
+/**
+ * Forgets the nonces of the requests that would be rejected anyway because of their timestamp
+ *
+ * @param now The current datetime in milliseconds
+ */
+const pruneUsedNonces = (now: number) => {
+  usedNonces.forEach((forgetAt, key) => {
+    if (forgetAt <= now) {
+      usedNonces.delete(key);
+    }
+  });
+};
+
+/**
+ * Express middleware authenticating the operator identified by the 'operatorId' path parameter
+ *
+ * The request must carry the authentication headers built by OperatorHelper.signRequest:
+ * - the timestamp must be within the configured maximum age, in the past or in the future
+ * - the nonce must not have been used by the operator within that window
+ * - the signature must be made by the owner of the operator
+ * The operator must also be registered to the demo DVN
+ *
+ * @param req The request
+ * @param res The response
+ * @param next The next handler
+ */
+export const authenticateOperator = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const operatorId = parseInt(req.params.operatorId);
+  const timestamp = req.header(OperatorHelper.HEADER_TIMESTAMP);
+  const nonce = req.header(OperatorHelper.HEADER_NONCE);
+  const signature = req.header(OperatorHelper.HEADER_SIGNATURE);
+
+  if (isNaN(operatorId) || !timestamp || !nonce || !signature) {
+    return res.status(401).send({ error: "Missing authentication headers" });
+  }
+
+  const now = Date.now();
+  const maxAge = ConfigHelper.getOperatorRequestMaxAge();
+
+  if (
+    !/^\d+$/.test(timestamp) ||
+    Math.abs(now - parseInt(timestamp)) > maxAge
+  ) {
+    return res.status(401).send({ error: "Request timestamp is not valid" });
+  }
+
+  pruneUsedNonces(now);
+
+  const nonceKey = `${operatorId}:${nonce}`;
+
+  if (usedNonces.has(nonceKey)) {
+    return res.status(401).send({ error: "Request nonce already used" });
+  }
+
+  try {
+    await OperatorHelper.verifyRequestSignature(
+      operatorId,
+      req.method,
+      req.baseUrl + req.path,
+      timestamp,
+      nonce,
+      signature,
+    );
+  } catch (error) {
+    logger.warn(`Operator #${operatorId} authentication failed: ${error}`);
+
+    return res.status(401).send({ error: "Invalid request signature" });
+  }
+
+  // the nonce may have been used by a concurrent request while verifying the signature
+  if (usedNonces.has(nonceKey)) {
+    return res.status(401).send({ error: "Request nonce already used" });
+  }
+
+  usedNonces.set(nonceKey, parseInt(timestamp) + maxAge);
+
+  try {
+    await OperatorHelper.verifyOperator(operatorId);
+  } catch (error) {
+    return res.status(403).send({ error: "Operator is not registered" });
+  }
+
+  next();
+};
+
+/**
+ * Express middleware authenticating the DVN owner on the admin endpoints
+ *
+ * The request must carry the configured admin API key in the 'X-Admin-Api-Key' header
+ * The admin endpoints are disabled when no admin API key is configured
+ *
+ * @param req The request
+ * @param res The response
+ * @param next The next handler
+ */
+export const authenticateAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const apiKey = ConfigHelper.getAdminApiKey();
+
+  if (apiKey == null) {
+    return res.status(403).send({ error: "Admin API is disabled" });
+  }
+
+  const expected = createHash("sha256").update(apiKey).digest();
+  const provided = createHash("sha256")
+    .update(req.header(ADMIN_API_KEY_HEADER) ?? "")
+    .digest();
+
+  // compare digests of equal length in constant time
+  if (!timingSafeEqual(expected, provided)) {
+    return res.status(401).send({ error: "Invalid admin API key" });
+  }
+
+  next();
+};
@@ -4,23 +4,39 @@ import { logger } from "../Common/Logger";
 import { app } from "./server";
 import { ProcessHelper } from "../Common/ProcessHelper";
 import { Contract } from "ethers";
+import { TaskFinalizer } from "./TaskFinalizer";
+import { TaskStream } from "./TaskStream";
+import { LivenessMonitor } from "./LivenessMonitor";
+import { ResultPublisher } from "./ResultPublisher";
+import { RewardLedger } from "./RewardLedger";
+import { OperatorAdmission } from "./OperatorAdmission";
+import { ChainIndexer } from "../Common/ChainIndexer";
+import { DatabaseManager } from "../Common/DatabaseManager";
 
 /**
+ * Reuses the demo DVN owned by the DVN owner, or registers a new one if none is found
+ * or if the Task Aggregator is started with the '--force-new-dvn' flag
  *
- * @returns
+ * @returns A promise that resolves to the address of the DVNCoordinator
  */
 const registerDVN = async (): Promise<string> => {
   return new Promise<string>(async (resolve, reject) => {
-    logger.info("Registering demo DVN...");
+    const forceNewDVN = process.argv.includes("--force-new-dvn");
 
-    WalletHelper.registerDemoDVN()
-      .then(({ dvnCoordinator, dvnOwner }) => {
+    logger.info(
+      forceNewDVN ? "Registering new demo DVN..." : "Bootstrapping demo DVN...",
+    );
+
+    WalletHelper.bootstrapDemoDVN(forceNewDVN)
+      .then(({ dvnCoordinator, dvnOwner, created }) => {
         logger.info(
           {
             DVNCoordinator: dvnCoordinator,
             owner: WalletHelper.derivePublicKeyFromWallet(dvnOwner),
           },
-          "DVN successfully registered to Kernel",
+          created
+            ? "DVN successfully registered to Kernel"
+            : "Existing DVN reused",
         );
 
         //
@@ -75,6 +91,14 @@ const startTaskAggregatorServer = async (): Promise<void> => {
 
     const onCloseSignal = () => {
       // logger.info("sigint received, shutting down");
+      TaskFinalizer.stop();
+      TaskStream.stop();
+      ResultPublisher.stop();
+      RewardLedger.stop();
+      LivenessMonitor.stop();
+      OperatorAdmission.stop();
+      ChainIndexer.stop();
+
       server.close(() => {
         // logger.info("server closed");
         process.exit();
@@ -94,12 +118,39 @@ const startTaskAggregatorServer = async (): Promise<void> => {
  * Main function
  */
 const main = async () => {
+  // fail at startup rather than when the first scored task is evaluated
+  ConfigHelper.getResponseScoreToleranceBps();
+
   ProcessHelper.waitUntilAnvilIsAvailable().then(async () => {
+    // upgrade the schema of the database kept from a previous run
+    await DatabaseManager.migrate();
+
     // register DVN
     await registerDVN();
 
+    // serve the DVN membership and the operator owners from the indexed chain events
+    await ChainIndexer.start();
+
+    // accept or reject the operator registration requests
+    await OperatorAdmission.start();
+
     // start TaskAggregation server
     startTaskAggregatorServer();
+
+    // finalize tasks reaching their deadline
+    TaskFinalizer.start();
+
+    // submit the results of the completed tasks on-chain
+    ResultPublisher.start();
+
+    // close the ended reward epochs and build their payout reports
+    RewardLedger.start();
+
+    // mark the operators as inactive once they stop polling or answering
+    LivenessMonitor.start();
+
+    // push new tasks to the subscribed Operators
+    await TaskStream.start();
   });
 };
 
@@ -108,4 +159,5 @@ const main = async () => {
  */
 main().catch((error) => {
   logger.error("Error in main function:", error);
+  process.exitCode = 1;
 });
@@ -0,0 +1,184 @@
+import { ethers } from "ethers";
+import { z } from "zod";
+import { TaskTypeRegistry } from "../Common/TaskTypeRegistry";
+import { EjectionProposal } from "../Common/model/EjectionProposal";
+import { QuorumPolicy } from "../Common/model/QuorumPolicy";
+import { Task } from "../Common/model/Task";
+
+/**
+ * Encodes the pagination cursor pointing after the given task
+ *
+ * @param task The last task of a page
+ * @returns The opaque cursor
+ */
+export const encodeTaskCursor = (task: Task): string => {
+  return Buffer.from(`${task.createdAt}:${task.id}`).toString("base64url");
+};
+
+/**
+ * Decodes a pagination cursor
+ *
+ * @param cursor The opaque cursor
+ * @returns The creation datetime and ID of the task the cursor points after, or undefined if the cursor is not valid
+ */
+const decodeTaskCursor = (
+  cursor: string,
+): { createdAt: number; id: number } | undefined => {
+  const match = /^(\d+):(\d+)$/.exec(
+    Buffer.from(cursor, "base64url").toString(),
+  );
+
+  if (match == null) {
+    return undefined;
+  }
+
+  return { createdAt: parseInt(match[1]), id: parseInt(match[2]) };
+};
+
+/**
+ * Schema of the quorum policy overriding the default one for a task
+ */
+export const quorumPolicySchema = z
+  .object({
+    type: z.string(),
+    countThreshold: z.number().int().positive(),
+    contentThreshold: z.number().int().positive(),
+  })
+  .superRefine((quorum, ctx) => {
+    try {
+      QuorumPolicy.build(
+        quorum.type,
+        quorum.countThreshold,
+        quorum.contentThreshold,
+      );
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+    }
+  });
+
+/**
+ * Schema of the body of a task creation request
+ *
+ * The input is validated against the input schema of the requested task type
+ */
+export const createTaskSchema = z
+  .object({
+    type: z.string().default(TaskTypeRegistry.DEFAULT_TASK_TYPE),
+    input: z.any(),
+    deadline: z
+      .number()
+      .int()
+      .refine((deadline) => deadline > Date.now(), {
+        message: "deadline must be in the future",
+      })
+      .optional(),
+    quorum: quorumPolicySchema.optional(),
+    idempotencyKey: z.string().min(1).max(255).optional(),
+  })
+  .superRefine((request, ctx) => {
+    if (!TaskTypeRegistry.has(request.type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["type"],
+        message: `Unknown task type, expected one of: ${TaskTypeRegistry.getIds().join(", ")}`,
+      });
+
+      return;
+    }
+
+    const result = TaskTypeRegistry.get(request.type).inputSchema.safeParse(
+      request.input,
+    );
+
+    if (!result.success) {
+      result.error.issues.forEach((issue) =>
+        ctx.addIssue({ ...issue, path: ["input", ...issue.path] }),
+      );
+    }
+  });
+
+/**
+ * Schema of the query of a tasks listing request
+ */
+export const listTasksSchema = z.object({
+  status: z
+    .enum([
+      Task.STATUS_PENDING,
+      Task.STATUS_READY,
+      Task.STATUS_IN_PROGRESS,
+      Task.STATUS_AGGREGATING,
+      Task.STATUS_COMPLETED,
+      Task.STATUS_CONSENSUS_NOT_REACHED,
+      Task.STATUS_EXPIRED,
+      Task.STATUS_CANCELLED,
+      Task.STATUS_PUBLISHED,
+    ])
+    .optional(),
+  createdFrom: z.coerce.number().int().nonnegative().optional(),
+  createdTo: z.coerce.number().int().nonnegative().optional(),
+  operatorId: z.coerce.number().int().nonnegative().optional(),
+  cursor: z
+    .string()
+    .transform((cursor, ctx) => {
+      const decoded = decodeTaskCursor(cursor);
+
+      if (decoded == null) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Invalid cursor",
+        });
+        return z.NEVER;
+      }
+
+      return decoded;
+    })
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Schema of the query of an operator leaderboard request
+ */
+export const operatorLeaderboardSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+/**
+ * Schema of the query of a reward epochs listing request
+ */
+export const listRewardEpochsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Schema of the query of an ejection proposals listing request
+ */
+export const listEjectionProposalsSchema = z.object({
+  status: z
+    .enum([
+      EjectionProposal.STATUS_PROPOSED,
+      EjectionProposal.STATUS_EJECTED,
+      EjectionProposal.STATUS_WITHDRAWN,
+      EjectionProposal.STATUS_DISMISSED,
+    ])
+    .optional(),
+});
+
+/**
+ * Schema of the body of a DVN metadata URI update request
+ */
+export const updateDVNMetadataURISchema = z.object({
+  metadataURI: z.string().url(),
+});
+
+/**
+ * Schema of the body of a DVN ownership transfer request
+ */
+export const transferDVNOwnershipSchema = z.object({
+  newOwner: z
+    .string()
+    .refine(
+      (address) => ethers.isAddress(address) && address !== ethers.ZeroAddress,
+      { message: "newOwner must be a non-zero address" },
+    ),
+});
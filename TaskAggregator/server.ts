@@ -1,4 +1,4 @@
-import express, { type Express } from "express";
+import express, { type Express, type Response } from "express";
 import helmet from "helmet";
 import { fileURLToPath } from "url";
 import swaggerJsdoc from "swagger-jsdoc";
@@ -7,7 +7,34 @@ import { DatabaseManager } from "../Common/DatabaseManager";
 import { Task } from "../Common/model/Task";
 import { OperatorHelper } from "../Common/OperatorHelper";
 import { TaskManager } from "../Common/TaskManager";
+import { TaskStateMachine } from "../Common/TaskStateMachine";
 import { logger } from "../Common/Logger";
+import { ConfigHelper } from "../Common/ConfigHelper";
+import { WalletHelper } from "../Common/WalletHelper";
+import { TaskResponse } from "../Common/model/TaskResponse";
+import { TaskCertificate } from "../Common/model/TaskCertificate";
+import { TaskPublication } from "../Common/model/TaskPublication";
+import { TaskStatusTransition } from "../Common/model/TaskStatusTransition";
+import { QuorumPolicy } from "../Common/model/QuorumPolicy";
+import { OperatorStats } from "../Common/model/OperatorStats";
+import { SlashingEvidence } from "../Common/model/SlashingEvidence";
+import { RewardEpoch } from "../Common/model/RewardEpoch";
+import { OperatorLiveness } from "../Common/model/OperatorLiveness";
+import { EjectionProposal } from "../Common/model/EjectionProposal";
+import {
+  createTaskSchema,
+  encodeTaskCursor,
+  listEjectionProposalsSchema,
+  listRewardEpochsSchema,
+  listTasksSchema,
+  operatorLeaderboardSchema,
+  transferDVNOwnershipSchema,
+  updateDVNMetadataURISchema,
+} from "./schemas";
+import { TaskStream } from "./TaskStream";
+import { authenticateAdmin, authenticateOperator } from "./authentication";
+import { OperatorAdmission } from "./OperatorAdmission";
+import { RewardLedger } from "./RewardLedger";
 
 const app: Express = express();
 
@@ -16,6 +43,63 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(helmet());
 
+/**
+ * Serializes a task for the API responses
+ *
+ * @param task The task to serialize
+ * @returns The serialized task
+ */
+const serializeTask = (task: Task) => {
+  return {
+    id: task.id,
+    type: task.type,
+    status: task.status,
+    createdAt: task.createdAt,
+    expiresAt: task.expiresAt,
+    input: task.input,
+    response: task.response ?? null,
+    quorum: {
+      type: task.quorumPolicy.type,
+      countThreshold: task.quorumPolicy.countThreshold,
+      contentThreshold: task.quorumPolicy.contentThreshold,
+    },
+    operatorsCount: task.operatorsCount,
+    snapshotBlock: task.snapshotBlock,
+  };
+};
+
+/**
+ * Serializes a task response for the API responses
+ *
+ * @param taskResponse The task response to serialize
+ * @returns The serialized task response
+ */
+const serializeTaskResponse = (taskResponse: TaskResponse) => {
+  return {
+    operatorId: taskResponse.operatorId,
+    response: taskResponse.response,
+    signature: taskResponse.signature,
+    signatureVersion: taskResponse.signatureVersion,
+    createdAt: taskResponse.createdAt,
+  };
+};
+
+/**
+ * Serializes a task status transition for the API responses
+ *
+ * @param transition The transition to serialize
+ * @returns The serialized transition
+ */
+const serializeTaskStatusTransition = (transition: TaskStatusTransition) => {
+  return {
+    fromStatus: transition.fromStatus,
+    toStatus: transition.toStatus,
+    triggeredBy: transition.triggeredBy,
+    operatorId: transition.operatorId,
+    createdAt: transition.createdAt,
+  };
+};
+
 /**
  * @swagger
  * /status:
@@ -41,6 +125,24 @@ app.get("/status", (req, res) => {
  *         schema:
  *           type: number
  *         description: The ID of the operator
+ *       - in: header
+ *         name: X-Operator-Timestamp
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The datetime of the request in milliseconds
+ *       - in: header
+ *         name: X-Operator-Nonce
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: A random value, never reused by the operator
+ *       - in: header
+ *         name: X-Operator-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: EIP-191 signature by the operator owner of the method, path, timestamp and nonce separated by new lines
  *     responses:
  *       200:
  *         description: Successful response
@@ -52,23 +154,42 @@ app.get("/status", (req, res) => {
  *                 id:
  *                   type: string
  *                   description: The task ID
- *                 description:
+ *                 type:
+ *                   type: string
+ *                   description: The task type
+ *                 createdAt:
+ *                   type: number
+ *                   description: The creation datetime in milliseconds
+ *                 expiresAt:
+ *                   type: number
+ *                   description: The deadline in milliseconds
+ *                 input:
  *                   type: string
- *                   description: The task description
+ *                   description: The serialized task input
  *       400:
  *         description: Invalid input
+ *       401:
+ *         description: Missing, invalid or replayed authentication headers
+ *       403:
+ *         description: Operator not registered to the DVN
  *       500:
  *         description: An error occurred while fetching the next task
  */
-app.get("/operator/:operatorId/task/next", (req, res) => {
+app.get("/operator/:operatorId/task/next", authenticateOperator, (req, res) => {
   const operatorId = req.params.operatorId;
 
+  DatabaseManager.recordOperatorPoll(parseInt(operatorId)).catch((error) =>
+    logger.error(error),
+  );
+
   DatabaseManager.fetchNextUnresolvedTask(operatorId)
     .then((task: Task | undefined) => {
       if (task != null) {
         res.send({
           id: task.id,
+          type: task.type,
           createdAt: task.createdAt,
+          expiresAt: task.expiresAt,
           input: task.input,
         });
       } else {
@@ -84,99 +205,1895 @@ app.get("/operator/:operatorId/task/next", (req, res) => {
 
 /**
  * @swagger
- * /task/{id}/response:
- *   post:
- *     summary: Submit a response for a task
+ * /operator/{operatorId}/task/stream:
+ *   get:
+ *     summary: Subscribe to the new tasks through Server-Sent Events
+ *     description: Each new task is pushed as a "task" event whose data is the JSON serialized task, as returned by /operator/{operatorId}/task/next. Tasks created before the subscription must be fetched with /operator/{operatorId}/task/next
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: operatorId
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The ID of the operator
+ *       - in: header
+ *         name: X-Operator-Timestamp
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The datetime of the request in milliseconds
+ *       - in: header
+ *         name: X-Operator-Nonce
  *         required: true
  *         schema:
  *           type: string
- *         description: The task ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               response:
- *                 type: string
- *                 description: The response to the task
- *               operatorId:
- *                 type: string
- *                 description: The ID of the operator submitting the response
- *               signature:
- *                 type: string
- *                 description: The signature of the operator
+ *         description: A random value, never reused by the operator
+ *       - in: header
+ *         name: X-Operator-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: EIP-191 signature by the operator owner of the method, path, timestamp and nonce separated by new lines
+ *     responses:
+ *       200:
+ *         description: Stream of events
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing, invalid or replayed authentication headers
+ *       403:
+ *         description: Operator not registered to the DVN
+ */
+app.get(
+  "/operator/:operatorId/task/stream",
+  authenticateOperator,
+  (req, res) => {
+    const operatorId = parseInt(req.params.operatorId);
+
+    DatabaseManager.recordOperatorPoll(operatorId).catch((error) =>
+      logger.error(error),
+    );
+
+    TaskStream.subscribe(operatorId, res);
+  },
+);
+
+/**
+ * @swagger
+ * /operator/{operatorId}/stats:
+ *   get:
+ *     summary: Get the reputation stats of an operator
+ *     description: The stats are aggregated from the finalized tasks the operator could answer
+ *     parameters:
+ *       - in: path
+ *         name: operatorId
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The ID of the operator
  *     responses:
  *       200:
  *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 operatorId:
+ *                   type: number
+ *                 assigned:
+ *                   type: number
+ *                   description: The number of finalized tasks the operator could answer
+ *                 answered:
+ *                   type: number
+ *                   description: The number of tasks answered in time
+ *                 agreed:
+ *                   type: number
+ *                   description: The number of tasks whose final response the operator agreed with
+ *                 disagreed:
+ *                   type: number
+ *                   description: The number of tasks whose final response the operator disagreed with
+ *                 late:
+ *                   type: number
+ *                   description: The number of tasks answered once they stopped accepting responses
+ *                 missed:
+ *                   type: number
+ *                   description: The number of tasks never answered
+ *                 agreementBps:
+ *                   type: number
+ *                   description: The share of the assigned tasks the operator agreed with, in bps
  *       400:
- *         description: Invalid input
- *       404:
- *         description: Task not found
+ *         description: Invalid operator ID
  */
-app.post("/task/:id/response", async (req, res) => {
-  const taskId = req.params.id;
-  const { response, operatorId, signature } = req.body;
+app.get("/operator/:operatorId/stats", (req, res) => {
+  const operatorId = parseInt(req.params.operatorId);
 
-  if (!response) {
-    return res.status(400).send({ error: "request.response is required" });
+  if (isNaN(operatorId)) {
+    return res.status(400).send({ error: "Invalid operator ID" });
   }
 
-  if (!operatorId) {
-    return res.status(400).send({ error: "request.operatorId is required" });
+  DatabaseManager.getOperatorStats(operatorId)
+    .then((stats: OperatorStats) => {
+      res.send(stats);
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the operator stats" });
+    });
+});
+
+/**
+ * @swagger
+ * /operator/{operatorId}/evidence:
+ *   get:
+ *     summary: Get the slashing evidence of an operator
+ *     description: Each evidence is a signed response of the operator disagreeing with the final response of a completed task
+ *     parameters:
+ *       - in: path
+ *         name: operatorId
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The ID of the operator
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         description: Invalid operator ID
+ */
+app.get("/operator/:operatorId/evidence", (req, res) => {
+  const operatorId = parseInt(req.params.operatorId);
+
+  if (isNaN(operatorId)) {
+    return res.status(400).send({ error: "Invalid operator ID" });
   }
 
-  if (!signature) {
-    return res.status(400).send({ error: "request.signature is required" });
+  DatabaseManager.fetchSlashingEvidence(operatorId)
+    .then((evidence: SlashingEvidence[]) => {
+      res.send(evidence);
+    })
+    .catch((error) => {
+      res.status(500).send({
+        error: "An error occurred while fetching the slashing evidence",
+      });
+    });
+});
+
+/**
+ * @swagger
+ * /operators/leaderboard:
+ *   get:
+ *     summary: Get the operators with the highest share of agreeing responses
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *         description: The maximum number of operators to return
+ *     responses:
+ *       200:
+ *         description: Successful response, ordered by agreement then by number of assigned tasks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   operatorId:
+ *                     type: number
+ *                   assigned:
+ *                     type: number
+ *                     description: The number of finalized tasks the operator could answer
+ *                   answered:
+ *                     type: number
+ *                     description: The number of tasks answered in time
+ *                   agreed:
+ *                     type: number
+ *                     description: The number of tasks whose final response the operator agreed with
+ *                   disagreed:
+ *                     type: number
+ *                     description: The number of tasks whose final response the operator disagreed with
+ *                   late:
+ *                     type: number
+ *                     description: The number of tasks answered once they stopped accepting responses
+ *                   missed:
+ *                     type: number
+ *                     description: The number of tasks never answered
+ *                   agreementBps:
+ *                     type: number
+ *                     description: The share of the assigned tasks the operator agreed with, in bps
+ *       400:
+ *         description: Invalid query
+ */
+app.get("/operators/leaderboard", (req, res) => {
+  const result = operatorLeaderboardSchema.safeParse(req.query);
+
+  if (!result.success) {
+    return res
+      .status(400)
+      .send({ error: "Invalid query", issues: result.error.issues });
   }
 
-  logger.info(
-    `[Task ${taskId}] Received response from Operator #${operatorId}`,
-  );
+  DatabaseManager.fetchOperatorLeaderboard(result.data.limit)
+    .then((leaderboard: OperatorStats[]) => {
+      res.send(leaderboard);
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the leaderboard" });
+    });
+});
 
-  try {
-    // get Task
-    const task: Task = await DatabaseManager.getTask(taskId);
+/**
+ * @swagger
+ * /operators/liveness:
+ *   get:
+ *     summary: Get the liveness of the operators tracked by the liveness monitor
+ *     description: Inactive operators can still answer the tasks, but they do not count in the quorum of the tasks created while they are inactive
+ *     responses:
+ *       200:
+ *         description: Successful response, ordered by operator ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   operatorId:
+ *                     type: number
+ *                   status:
+ *                     type: string
+ *                     enum: [ACTIVE, INACTIVE]
+ *                   firstSeenAt:
+ *                     type: number
+ *                     description: The datetime at which the operator was first tracked, in milliseconds
+ *                   lastPollAt:
+ *                     type: number
+ *                     nullable: true
+ *                     description: The datetime of the last poll for tasks, in milliseconds
+ *                   lastResponseAt:
+ *                     type: number
+ *                     nullable: true
+ *                     description: The datetime of the last response, in milliseconds
+ *                   inactiveSince:
+ *                     type: number
+ *                     nullable: true
+ *                     description: The datetime at which the operator became inactive, in milliseconds
+ *                   reason:
+ *                     type: string
+ *                     nullable: true
+ *                     description: The reason why the operator is inactive
+ *                   updatedAt:
+ *                     type: number
+ *       500:
+ *         description: An error occurred while fetching the operator liveness
+ */
+app.get("/operators/liveness", (req, res) => {
+  DatabaseManager.fetchOperatorLiveness()
+    .then((livenesses: OperatorLiveness[]) => {
+      res.send(livenesses);
+    })
+    .catch((error) => {
+      res.status(500).send({
+        error: "An error occurred while fetching the operator liveness",
+      });
+    });
+});
 
-    // verify Operator
-    await OperatorHelper.verifyOperator(operatorId);
-    logger.info(`[Task ${taskId}] Operator #${operatorId} is verified`);
+/**
+ * @swagger
+ * /rewards/epochs:
+ *   get:
+ *     summary: List the payout reports of the closed reward epochs
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: The maximum number of epochs to return
+ *     responses:
+ *       200:
+ *         description: Successful response, from the most recent epoch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   epoch:
+ *                     type: number
+ *                   startsAt:
+ *                     type: number
+ *                   endsAt:
+ *                     type: number
+ *                   merkleRoot:
+ *                     type: string
+ *                   totalAmount:
+ *                     type: string
+ *                   operatorsCount:
+ *                     type: number
+ *                   createdAt:
+ *                     type: number
+ *       400:
+ *         description: Invalid query
+ */
+app.get("/rewards/epochs", (req, res) => {
+  const result = listRewardEpochsSchema.safeParse(req.query);
 
-    // verify signature
-    await OperatorHelper.verifySignature(task, operatorId, response, signature);
-    logger.info(`[Task ${taskId}] Signature is verified`);
+  if (!result.success) {
+    return res
+      .status(400)
+      .send({ error: "Invalid query", issues: result.error.issues });
+  }
 
-    // register response
-    await DatabaseManager.registerOperatorTaskResponse(
-      task,
-      operatorId,
-      response,
-      signature,
-    );
-    logger.info(
-      `[Task ${taskId}] Response from Operator #${operatorId} stored in database`,
+  DatabaseManager.fetchRewardEpochs(result.data.limit)
+    .then((epochs: RewardEpoch[]) => {
+      res.send(epochs);
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the reward epochs" });
+    });
+});
+
+/**
+ * @swagger
+ * /rewards/epochs/{epoch}:
+ *   get:
+ *     summary: Get the payout report of a closed reward epoch, with the payout of each operator
+ *     parameters:
+ *       - in: path
+ *         name: epoch
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The number of the epoch
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *       404:
+ *         description: Reward epoch not found or not closed yet
+ */
+app.get("/rewards/epochs/:epoch", async (req, res) => {
+  try {
+    const epoch = await DatabaseManager.getRewardEpoch(
+      parseInt(req.params.epoch),
     );
 
-    // validate received responses
-    try {
-      await TaskManager.validateTaskResponses(task);
-      logger.info(
-        `[Task ${taskId}] Task Aggregator reached consensus: output is ${task.response}`,
-      );
-    } catch (error) {
-      // logger.error(`Error validating task responses: ${err}`);
+    if (epoch == null) {
+      return res.status(404).send({ error: "Reward epoch not found" });
     }
 
-    res.status(200).send();
+    res.send({
+      ...epoch,
+      payouts: await DatabaseManager.fetchRewardPayouts(epoch.epoch),
+    });
   } catch (error) {
-    res.status(400).send(error);
+    res
+      .status(500)
+      .send({ error: "An error occurred while fetching the reward epoch" });
   }
 });
 
+/**
+ * @swagger
+ * /rewards/epochs/{epoch}/operators/{operatorId}/proof:
+ *   get:
+ *     summary: Get the Merkle proof of the payout of an operator for a closed reward epoch
+ *     description: The leaf is the double keccak256 hash of abi.encode(epoch, operatorId, rewardAddress, amount), and the pairs of nodes are hashed in ascending order, as expected by the OpenZeppelin MerkleProof library
+ *     parameters:
+ *       - in: path
+ *         name: epoch
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The number of the epoch
+ *       - in: path
+ *         name: operatorId
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The ID of the operator
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 epoch:
+ *                   type: number
+ *                 merkleRoot:
+ *                   type: string
+ *                 operatorId:
+ *                   type: number
+ *                 rewardAddress:
+ *                   type: string
+ *                 amount:
+ *                   type: string
+ *                 leaf:
+ *                   type: string
+ *                 proof:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       404:
+ *         description: Reward epoch not closed, or operator not paid in the epoch
+ */
+app.get(
+  "/rewards/epochs/:epoch/operators/:operatorId/proof",
+  async (req, res) => {
+    try {
+      const epoch = await DatabaseManager.getRewardEpoch(
+        parseInt(req.params.epoch),
+      );
+
+      if (epoch == null) {
+        return res.status(404).send({ error: "Reward epoch not found" });
+      }
+
+      const payoutProof = await RewardLedger.getPayoutProof(
+        epoch.epoch,
+        parseInt(req.params.operatorId),
+      );
+
+      if (payoutProof == null) {
+        return res.status(404).send({ error: "Payout not found" });
+      }
+
+      const { payout, leaf, proof } = payoutProof;
+
+      res.send({
+        epoch: epoch.epoch,
+        merkleRoot: epoch.merkleRoot,
+        operatorId: payout.operatorId,
+        rewardAddress: payout.rewardAddress,
+        amount: payout.amount,
+        leaf,
+        proof,
+      });
+    } catch (error) {
+      res
+        .status(500)
+        .send({ error: "An error occurred while building the payout proof" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /task:
+ *   post:
+ *     summary: Create a task
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Key identifying the request, a retried request returns the task created by the first one
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - input
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 description: The task type (tsp, prime, hash), defaults to tsp
+ *               input:
+ *                 description: The task input, validated against the schema of the task type
+ *               deadline:
+ *                 type: number
+ *                 description: The deadline of the task in milliseconds, defaults to the configured time to live
+ *               quorum:
+ *                 type: object
+ *                 description: Quorum policy overriding the default one
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [FIXED_COUNT, OPERATORS_BPS, RESPONDERS_BPS, STAKE_WEIGHTED]
+ *                   countThreshold:
+ *                     type: number
+ *                   contentThreshold:
+ *                     type: number
+ *               idempotencyKey:
+ *                 type: string
+ *                 description: Alternative to the Idempotency-Key header
+ *     responses:
+ *       201:
+ *         description: Task created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: number
+ *                   description: The task ID
+ *       200:
+ *         description: Task already created with the same idempotency key
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ */
+app.post("/task", authenticateAdmin, async (req, res) => {
+  const result = createTaskSchema.safeParse({
+    ...req.body,
+    idempotencyKey: req.get("Idempotency-Key") ?? req.body?.idempotencyKey,
+  });
+
+  if (!result.success) {
+    return res
+      .status(400)
+      .send({ error: "Invalid task", issues: result.error.issues });
+  }
+
+  const { type, input, deadline, quorum, idempotencyKey } = result.data;
+
+  try {
+    if (idempotencyKey != null) {
+      const existingTask =
+        await DatabaseManager.getTaskByIdempotencyKey(idempotencyKey);
+
+      if (existingTask != null) {
+        return res.status(200).send({ id: existingTask.id });
+      }
+    }
+
+    const quorumPolicy =
+      quorum != null
+        ? QuorumPolicy.build(
+            quorum.type,
+            quorum.countThreshold,
+            quorum.contentThreshold,
+          )
+        : QuorumPolicy.buildDefault();
+
+    // only the operators registered when the task is created can answer it
+    const snapshot = await OperatorHelper.snapshotRegisteredOperators(
+      quorumPolicy.isStakeWeighted(),
+    );
+
+    const task = await DatabaseManager.addTask(
+      JSON.stringify(input),
+      type,
+      snapshot,
+      {
+        quorumPolicy,
+        expiresAt: deadline,
+        idempotencyKey,
+      },
+    );
+
+    logger.info(`[Task ${task.id}] Created through the API`);
+
+    // push the new task to the subscribed Operators
+    TaskStream.publish(task).catch((error) => logger.error(error));
+
+    res.status(201).send({ id: task.id });
+  } catch (error) {
+    // a concurrent request with the same idempotency key may have created the task
+    const existingTask =
+      idempotencyKey != null
+        ? await DatabaseManager.getTaskByIdempotencyKey(idempotencyKey).catch(
+            () => undefined,
+          )
+        : undefined;
+
+    if (existingTask != null) {
+      return res.status(200).send({ id: existingTask.id });
+    }
+
+    res
+      .status(500)
+      .send({ error: "An error occurred while creating the task" });
+  }
+});
+
+/**
+ * @swagger
+ * /tasks:
+ *   get:
+ *     summary: List tasks, ordered by creation datetime
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, READY, IN_PROGRESS, AGGREGATING, COMPLETED, CONSENSUS_NOT_REACHED, EXPIRED, CANCELLED, PUBLISHED]
+ *         description: Only return tasks with this status
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: number
+ *         description: Only return tasks created at or after this datetime in milliseconds
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: number
+ *         description: Only return tasks created before this datetime in milliseconds
+ *       - in: query
+ *         name: operatorId
+ *         schema:
+ *           type: number
+ *         description: Only return tasks the operator sent a response to
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: The nextCursor returned with the previous page
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: The maximum number of tasks to return
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 tasks:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: The cursor of the next page, null if there are no more tasks
+ *       400:
+ *         description: Invalid query
+ */
+app.get("/tasks", (req, res) => {
+  const result = listTasksSchema.safeParse(req.query);
+
+  if (!result.success) {
+    return res
+      .status(400)
+      .send({ error: "Invalid query", issues: result.error.issues });
+  }
+
+  const { cursor, limit, ...filters } = result.data;
+
+  // fetch one more task to know if there is a next page
+  DatabaseManager.fetchTasks({ ...filters, after: cursor, limit: limit + 1 })
+    .then((tasks: Task[]) => {
+      const page = tasks.slice(0, limit);
+
+      res.send({
+        tasks: page.map(serializeTask),
+        nextCursor:
+          tasks.length > limit ? encodeTaskCursor(page[page.length - 1]) : null,
+      });
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the tasks" });
+    });
+});
+
+/**
+ * @swagger
+ * /task/{id}:
+ *   get:
+ *     summary: Get a task, with its status and final response
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The task ID
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: number
+ *                 type:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                 createdAt:
+ *                   type: number
+ *                 expiresAt:
+ *                   type: number
+ *                 input:
+ *                   type: string
+ *                 response:
+ *                   type: string
+ *                   nullable: true
+ *                 quorum:
+ *                   type: object
+ *                 operatorsCount:
+ *                   type: number
+ *                   description: The number of operators registered when the task was created, the quorum is computed against
+ *                 snapshotBlock:
+ *                   type: number
+ *                   description: The block at which the operators and, for a stake-weighted quorum, their stakes were read
+ *       404:
+ *         description: Task not found
+ */
+app.get("/task/:id", (req, res) => {
+  DatabaseManager.getTask(parseInt(req.params.id))
+    .then((task: Task) => {
+      res.send(serializeTask(task));
+    })
+    .catch((error) => {
+      res.status(404).send({ error: "Task not found" });
+    });
+});
+
+/**
+ * @swagger
+ * /task/{id}/responses:
+ *   get:
+ *     summary: Get the responses submitted by the operators for a task
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The task ID
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   operatorId:
+ *                     type: number
+ *                   response:
+ *                     type: string
+ *                   signature:
+ *                     type: string
+ *                   signatureVersion:
+ *                     type: number
+ *                   createdAt:
+ *                     type: number
+ *       404:
+ *         description: Task not found
+ */
+app.get("/task/:id/responses", async (req, res) => {
+  let task: Task;
+
+  try {
+    task = await DatabaseManager.getTask(parseInt(req.params.id));
+  } catch (error) {
+    return res.status(404).send({ error: "Task not found" });
+  }
+
+  DatabaseManager.getTaskResponses(task)
+    .then((taskResponses: TaskResponse[]) => {
+      res.send(taskResponses.map(serializeTaskResponse));
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the responses" });
+    });
+});
+
+/**
+ * @swagger
+ * /task/{id}/history:
+ *   get:
+ *     summary: Get the status history of a task
+ *     description: Each transition records what triggered it, see TaskStateMachine for the allowed transitions
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The task ID
+ *     responses:
+ *       200:
+ *         description: Successful response, oldest transition first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   fromStatus:
+ *                     type: string
+ *                     nullable: true
+ *                     description: The status before the transition, null for the creation of the task
+ *                   toStatus:
+ *                     type: string
+ *                   triggeredBy:
+ *                     type: string
+ *                     enum: [TASK_CREATION, OPERATOR_RESPONSE, TASK_FINALIZER, TASK_AGGREGATOR, RESULT_PUBLISHER, ADMIN, MIGRATION]
+ *                   operatorId:
+ *                     type: number
+ *                     nullable: true
+ *                     description: The ID of the operator whose response triggered the transition
+ *                   createdAt:
+ *                     type: number
+ *       404:
+ *         description: Task not found
+ */
+app.get("/task/:id/history", async (req, res) => {
+  let task: Task;
+
+  try {
+    task = await DatabaseManager.getTask(parseInt(req.params.id));
+  } catch (error) {
+    return res.status(404).send({ error: "Task not found" });
+  }
+
+  DatabaseManager.getTaskStatusHistory(task)
+    .then((transitions: TaskStatusTransition[]) => {
+      res.send(transitions.map(serializeTaskStatusTransition));
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the task history" });
+    });
+});
+
+/**
+ * @swagger
+ * /task/{id}/certificate:
+ *   get:
+ *     summary: Get the attestation certificate of a completed task
+ *     description: The certificate contains the final response and the signatures of the agreeing operators, and can be verified offline with the verify-certificate script
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The task ID
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 version:
+ *                   type: number
+ *                 scheme:
+ *                   type: string
+ *                 chainId:
+ *                   type: number
+ *                 dvnCoordinator:
+ *                   type: string
+ *                 taskId:
+ *                   type: number
+ *                 taskType:
+ *                   type: string
+ *                 input:
+ *                   type: string
+ *                 response:
+ *                   type: string
+ *                 scoreToleranceBps:
+ *                   type: number
+ *                   nullable: true
+ *                 requiredSignaturesCount:
+ *                   type: number
+ *                 signatures:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       operatorId:
+ *                         type: number
+ *                       operatorOwner:
+ *                         type: string
+ *                       response:
+ *                         type: string
+ *                       signature:
+ *                         type: string
+ *                       signatureVersion:
+ *                         type: number
+ *                 createdAt:
+ *                   type: number
+ *       404:
+ *         description: Task not found, or not completed
+ */
+app.get("/task/:id/certificate", async (req, res) => {
+  let task: Task;
+
+  try {
+    task = await DatabaseManager.getTask(parseInt(req.params.id));
+  } catch (error) {
+    return res.status(404).send({ error: "Task not found" });
+  }
+
+  DatabaseManager.getTaskCertificate(task)
+    .then((certificate: TaskCertificate | undefined) => {
+      if (certificate == null) {
+        return res.status(404).send({ error: "Task not completed" });
+      }
+
+      res.send(certificate);
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the certificate" });
+    });
+});
+
+/**
+ * @swagger
+ * /task/{id}/publication:
+ *   get:
+ *     summary: Get the on-chain submission status of the result of a completed task
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The task ID
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   enum: [PENDING, SUBMITTED, CONFIRMED, FAILED]
+ *                 txHash:
+ *                   type: string
+ *                   nullable: true
+ *                 blockNumber:
+ *                   type: number
+ *                   nullable: true
+ *                 confirmations:
+ *                   type: number
+ *                 attempts:
+ *                   type: number
+ *                 lastError:
+ *                   type: string
+ *                   nullable: true
+ *                 updatedAt:
+ *                   type: number
+ *       404:
+ *         description: Task not found, or result not submitted yet
+ */
+app.get("/task/:id/publication", async (req, res) => {
+  let task: Task;
+
+  try {
+    task = await DatabaseManager.getTask(parseInt(req.params.id));
+  } catch (error) {
+    return res.status(404).send({ error: "Task not found" });
+  }
+
+  DatabaseManager.getTaskPublication(task)
+    .then((publication: TaskPublication | undefined) => {
+      if (publication == null) {
+        return res.status(404).send({ error: "Task result not submitted" });
+      }
+
+      res.send({
+        status: publication.status,
+        txHash: publication.txHash,
+        blockNumber: publication.blockNumber,
+        confirmations: publication.confirmations,
+        attempts: publication.attempts,
+        lastError: publication.lastError,
+        updatedAt: publication.updatedAt,
+      });
+    })
+    .catch((error) => {
+      res
+        .status(500)
+        .send({ error: "An error occurred while fetching the publication" });
+    });
+});
+
+/**
+ * Records a response sent once its task stopped accepting responses, if it was signed by an operator
+ * who could answer the task and did not answer it in time
+ *
+ * @param task The task the response was sent to
+ * @param operatorId The ID of the operator
+ * @param response The response
+ * @param signature The signature of the response
+ * @param signatureVersion The signing scheme of the signature
+ * @returns A promise that resolves once the response is recorded or ignored
+ */
+const recordLateResponse = async (
+  task: Task,
+  operatorId: number,
+  response: string,
+  signature: string,
+  signatureVersion: number,
+) => {
+  try {
+    // the operators are not accountable for the cancelled tasks
+    if (
+      task.status === Task.STATUS_CANCELLED ||
+      !(await DatabaseManager.operatorCanAnswerTask(task, operatorId)) ||
+      (await DatabaseManager.operatorSentTaskResponse(task, operatorId))
+    ) {
+      return;
+    }
+
+    await OperatorHelper.verifySignature(
+      task,
+      operatorId,
+      response,
+      signature,
+      signatureVersion,
+    );
+    await DatabaseManager.registerLateTaskResponse(task, operatorId);
+
+    logger.info(`[Task ${task.id}] Late response from Operator #${operatorId}`);
+  } catch (error) {
+    // unsigned late responses are not attributed to the operator
+  }
+};
+
+/**
+ * @swagger
+ * /task/{id}/response:
+ *   post:
+ *     summary: Submit a response for a task
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               response:
+ *                 type: string
+ *                 description: The response to the task
+ *               operatorId:
+ *                 type: string
+ *                 description: The ID of the operator submitting the response
+ *               signature:
+ *                 type: string
+ *                 description: The signature of the operator
+ *               signatureVersion:
+ *                 type: number
+ *                 description: The signing scheme of the signature, 1 (EIP-191, default) or 2 (EIP-712)
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Operator was not registered to the DVN when the task was created
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Task is finalized or past its deadline
+ */
+app.post("/task/:id/response", async (req, res) => {
+  const taskId = req.params.id;
+  const { response, operatorId, signature } = req.body;
+  const signatureVersion = parseInt(
+    req.body.signatureVersion ?? OperatorHelper.SIGNATURE_VERSION_PERSONAL,
+  );
+
+  if (!response) {
+    return res.status(400).send({ error: "request.response is required" });
+  }
+
+  if (!operatorId) {
+    return res.status(400).send({ error: "request.operatorId is required" });
+  }
+
+  if (!signature) {
+    return res.status(400).send({ error: "request.signature is required" });
+  }
+
+  if (!ConfigHelper.getAcceptedSignatureVersions().includes(signatureVersion)) {
+    return res
+      .status(400)
+      .send({ error: "request.signatureVersion is not accepted" });
+  }
+
+  logger.info(
+    `[Task ${taskId}] Received response from Operator #${operatorId}`,
+  );
+
+  try {
+    // get Task
+    const task: Task = await DatabaseManager.getTask(taskId);
+
+    // check the Task is still accepting responses
+    if (
+      !TaskStateMachine.isAcceptingResponses(task.status) ||
+      task.isExpired()
+    ) {
+      await recordLateResponse(
+        task,
+        operatorId,
+        response,
+        signature,
+        signatureVersion,
+      );
+
+      return res
+        .status(409)
+        .send({ error: TaskResponse.ERROR_TASK_NOT_ACCEPTING });
+    }
+
+    // verify Operator
+    await OperatorHelper.verifyOperator(operatorId);
+    logger.info(`[Task ${taskId}] Operator #${operatorId} is verified`);
+
+    // check the Operator was registered when the Task was created
+    if (!(await DatabaseManager.operatorCanAnswerTask(task, operatorId))) {
+      return res
+        .status(403)
+        .send({ error: "Operator cannot answer this task" });
+    }
+
+    // verify signature
+    await OperatorHelper.verifySignature(
+      task,
+      operatorId,
+      response,
+      signature,
+      signatureVersion,
+    );
+    logger.info(`[Task ${taskId}] Signature is verified`);
+
+    // register response, finalizing the Task once its responses reach the quorum
+    await TaskManager.registerTaskResponse(
+      task,
+      operatorId,
+      response,
+      signature,
+      signatureVersion,
+    );
+    logger.info(
+      `[Task ${taskId}] Response from Operator #${operatorId} stored in database`,
+    );
+
+    DatabaseManager.recordOperatorResponse(operatorId).catch((error) =>
+      logger.error(error),
+    );
+
+    res.status(200).send();
+  } catch (error) {
+    // the Task may have been finalized while the response was verified
+    if (error === TaskResponse.ERROR_TASK_NOT_ACCEPTING) {
+      return res.status(409).send({ error });
+    }
+
+    res.status(400).send(error);
+  }
+});
+
+/**
+ * Admin endpoints, authenticated by the admin API key
+ */
+const adminRouter = express.Router();
+
+adminRouter.use(authenticateAdmin);
+
+/**
+ * Sends a transaction signed by the DVN owner on behalf of an admin request, and responds with its outcome
+ *
+ * @param res The response
+ * @param action The description of the action, for the logs
+ * @param send The function sending the transaction
+ */
+const sendAdminTransaction = async (
+  res: Response,
+  action: string,
+  send: () => Promise<{ txHash: string; status: number }>,
+) => {
+  try {
+    const { txHash, status } = await send();
+
+    logger.info(
+      `${action} by the DVN owner in transaction ${txHash} (status ${status})`,
+    );
+
+    res.send({ txHash, status });
+  } catch (error) {
+    logger.error(error);
+    res
+      .status(500)
+      .send({ error: "An error occurred while sending the transaction" });
+  }
+};
+
+/**
+ * Handles the registration request of an operator through the admin API
+ *
+ * @param operatorId The ID of the operator, as given in the path
+ * @param accept True to accept the request, false to reject it
+ * @param res The response
+ */
+const handleOperatorRegistrationRequest = async (
+  operatorId: string,
+  accept: boolean,
+  res: Response,
+) => {
+  const id = parseInt(operatorId);
+
+  if (isNaN(id)) {
+    return res.status(400).send({ error: "Invalid operator ID" });
+  }
+
+  try {
+    if (!(await WalletHelper.hasOperatorRegistrationRequest(id))) {
+      return res.status(404).send({ error: "Registration request not found" });
+    }
+  } catch (error) {
+    logger.error(error);
+    return res.status(500).send({
+      error: "An error occurred while fetching the registration request",
+    });
+  }
+
+  sendAdminTransaction(
+    res,
+    `Registration request of Operator #${id} ${accept ? "accepted" : "rejected"}`,
+    () =>
+      accept
+        ? WalletHelper.acceptOperatorRegistrationByDemoDVN(id)
+        : WalletHelper.rejectOperatorRegistrationByDemoDVN(id),
+  );
+};
+
+/**
+ * @swagger
+ * /admin/dvn:
+ *   get:
+ *     summary: Get the demo DVN, with its owner, metadata URI and number of registered operators
+ *     parameters:
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dvnCoordinator:
+ *                   type: string
+ *                 owner:
+ *                   type: string
+ *                 metadataURI:
+ *                   type: string
+ *                 operatorCount:
+ *                   type: number
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       500:
+ *         description: An error occurred while fetching the DVN
+ */
+adminRouter.get("/dvn", async (req, res) => {
+  try {
+    const { owner, metadataURI } = await WalletHelper.getDemoDVNInfo();
+
+    res.send({
+      dvnCoordinator: WalletHelper.getDemoDVNCoordinatorContractAddress(),
+      owner,
+      metadataURI,
+      operatorCount: await WalletHelper.getDVNOperatorCount(),
+    });
+  } catch (error) {
+    logger.error(error);
+    res.status(500).send({ error: "An error occurred while fetching the DVN" });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/dvn/metadata-uri:
+ *   put:
+ *     summary: Update the metadata URI of the demo DVN
+ *     parameters:
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - metadataURI
+ *             properties:
+ *               metadataURI:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transaction mined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 txHash:
+ *                   type: string
+ *                 status:
+ *                   type: number
+ *                   description: The receipt status, 1 on success and 0 if reverted
+ *       400:
+ *         description: Invalid metadata URI
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       500:
+ *         description: An error occurred while sending the transaction
+ */
+adminRouter.put("/dvn/metadata-uri", (req, res) => {
+  const result = updateDVNMetadataURISchema.safeParse(req.body);
+
+  if (!result.success) {
+    return res
+      .status(400)
+      .send({ error: "Invalid metadata URI", issues: result.error.issues });
+  }
+
+  sendAdminTransaction(res, "DVN metadata URI updated", () =>
+    WalletHelper.updateDemoDVNMetadataURI(result.data.metadataURI),
+  );
+});
+
+/**
+ * @swagger
+ * /admin/dvn/ownership:
+ *   post:
+ *     summary: Transfer the ownership of the demo DVN
+ *     description: Once transferred, the Task Aggregator can no longer manage the DVN, and registers a new one at next startup
+ *     parameters:
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newOwner
+ *             properties:
+ *               newOwner:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transaction mined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 txHash:
+ *                   type: string
+ *                 status:
+ *                   type: number
+ *                   description: The receipt status, 1 on success and 0 if reverted
+ *       400:
+ *         description: Invalid new owner
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       500:
+ *         description: An error occurred while sending the transaction
+ */
+adminRouter.post("/dvn/ownership", (req, res) => {
+  const result = transferDVNOwnershipSchema.safeParse(req.body);
+
+  if (!result.success) {
+    return res
+      .status(400)
+      .send({ error: "Invalid new owner", issues: result.error.issues });
+  }
+
+  sendAdminTransaction(
+    res,
+    `DVN ownership transferred to ${result.data.newOwner}`,
+    () => WalletHelper.transferDemoDVNOwnership(result.data.newOwner),
+  );
+});
+
+/**
+ * @swagger
+ * /admin/operators:
+ *   get:
+ *     summary: List the operators registered to the demo DVN
+ *     parameters:
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 operators:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       operatorId:
+ *                         type: number
+ *                       operatorOwner:
+ *                         type: string
+ *                       metadataURI:
+ *                         type: string
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       500:
+ *         description: An error occurred while fetching the operators
+ */
+adminRouter.get("/operators", async (req, res) => {
+  try {
+    const operators = [];
+
+    for (const operatorId of await WalletHelper.getDVNOperators()) {
+      operators.push({
+        operatorId,
+        operatorOwner: await WalletHelper.getOperatorOwner(operatorId),
+        metadataURI: await WalletHelper.getOperatorMetadataURI(operatorId),
+      });
+    }
+
+    res.send({ operators });
+  } catch (error) {
+    logger.error(error);
+    res
+      .status(500)
+      .send({ error: "An error occurred while fetching the operators" });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/operators/requests:
+ *   get:
+ *     summary: List the pending operator registration requests, with the decision of the admission policy
+ *     parameters:
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Successful response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 policy:
+ *                   type: string
+ *                 requests:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       operatorId:
+ *                         type: number
+ *                       operatorOwner:
+ *                         type: string
+ *                       decision:
+ *                         type: string
+ *                         enum: [ACCEPT, REJECT, MANUAL]
+ *                       reason:
+ *                         type: string
+ *                       requestedAt:
+ *                         type: number
+ *                         description: The datetime of the request in milliseconds
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       500:
+ *         description: An error occurred while fetching the registration requests
+ */
+adminRouter.get("/operators/requests", async (req, res) => {
+  try {
+    const operatorIds =
+      await WalletHelper.getOperatorsWithRegistrationRequest();
+    const requests = [];
+
+    for (const operatorId of operatorIds) {
+      requests.push({
+        ...(await OperatorAdmission.evaluate(operatorId)),
+        requestedAt:
+          await WalletHelper.getOperatorRegistrationRequestedAt(operatorId),
+      });
+    }
+
+    res.send({ policy: ConfigHelper.getAdmissionPolicy(), requests });
+  } catch (error) {
+    logger.error(error);
+    res.status(500).send({
+      error: "An error occurred while fetching the registration requests",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/operators/requests/{operatorId}/approve:
+ *   post:
+ *     summary: Accept the registration request of an operator
+ *     parameters:
+ *       - in: path
+ *         name: operatorId
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The ID of the operator
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Transaction mined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 txHash:
+ *                   type: string
+ *                 status:
+ *                   type: number
+ *                   description: The receipt status, 1 on success and 0 if reverted
+ *       400:
+ *         description: Invalid operator ID
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       404:
+ *         description: Registration request not found
+ *       500:
+ *         description: An error occurred while fetching the registration request or sending the transaction
+ */
+adminRouter.post("/operators/requests/:operatorId/approve", (req, res) =>
+  handleOperatorRegistrationRequest(req.params.operatorId, true, res),
+);
+
+/**
+ * @swagger
+ * /admin/operators/requests/{operatorId}/reject:
+ *   post:
+ *     summary: Reject the registration request of an operator
+ *     parameters:
+ *       - in: path
+ *         name: operatorId
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The ID of the operator
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Transaction mined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 txHash:
+ *                   type: string
+ *                 status:
+ *                   type: number
+ *                   description: The receipt status, 1 on success and 0 if reverted
+ *       400:
+ *         description: Invalid operator ID
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       404:
+ *         description: Registration request not found
+ *       500:
+ *         description: An error occurred while fetching the registration request or sending the transaction
+ */
+adminRouter.post("/operators/requests/:operatorId/reject", (req, res) =>
+  handleOperatorRegistrationRequest(req.params.operatorId, false, res),
+);
+
+/**
+ * @swagger
+ * /admin/operators/ejections:
+ *   get:
+ *     summary: List the proposals to remove inactive operators from the DVN
+ *     description: The proposals are made by the liveness monitor when LIVENESS_PROPOSE_EJECTION is enabled, and kept once closed as an audit trail
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PROPOSED, EJECTED, WITHDRAWN, DISMISSED]
+ *         description: The status of the proposals to return
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Successful response, from the most recent proposal
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: number
+ *                   operatorId:
+ *                     type: number
+ *                   status:
+ *                     type: string
+ *                     enum: [PROPOSED, EJECTED, WITHDRAWN, DISMISSED]
+ *                   reason:
+ *                     type: string
+ *                     description: The reason why the operator is inactive
+ *                   inactiveSince:
+ *                     type: number
+ *                     description: The datetime at which the operator became inactive, in milliseconds
+ *                   createdAt:
+ *                     type: number
+ *                   resolvedAt:
+ *                     type: number
+ *                     nullable: true
+ *                   resolution:
+ *                     type: string
+ *                     nullable: true
+ *       400:
+ *         description: Invalid query
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ */
+adminRouter.get("/operators/ejections", (req, res) => {
+  const result = listEjectionProposalsSchema.safeParse(req.query);
+
+  if (!result.success) {
+    return res
+      .status(400)
+      .send({ error: "Invalid query", issues: result.error.issues });
+  }
+
+  DatabaseManager.fetchEjectionProposals(result.data.status)
+    .then((proposals: EjectionProposal[]) => {
+      res.send(proposals);
+    })
+    .catch((error) => {
+      logger.error(error);
+      res.status(500).send({
+        error: "An error occurred while fetching the ejection proposals",
+      });
+    });
+});
+
+/**
+ * @swagger
+ * /admin/operators/ejections/{id}/dismiss:
+ *   post:
+ *     summary: Dismiss a proposal to remove an inactive operator from the DVN
+ *     description: No new proposal is made for the operator until it becomes active and inactive again
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The ID of the proposal
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Proposal dismissed
+ *       400:
+ *         description: Invalid proposal ID
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       404:
+ *         description: Proposal not found or already closed
+ */
+adminRouter.post("/operators/ejections/:id/dismiss", async (req, res) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    return res.status(400).send({ error: "Invalid proposal ID" });
+  }
+
+  try {
+    if (
+      !(await DatabaseManager.resolveEjectionProposal(
+        id,
+        EjectionProposal.STATUS_DISMISSED,
+        "Dismissed by an admin",
+      ))
+    ) {
+      return res
+        .status(404)
+        .send({ error: "Ejection proposal not found or already closed" });
+    }
+
+    logger.info(`Ejection proposal #${id} dismissed by an admin`);
+
+    res.status(200).send();
+  } catch (error) {
+    logger.error(error);
+    res.status(500).send({
+      error: "An error occurred while dismissing the ejection proposal",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/task/{id}/cancel:
+ *   post:
+ *     summary: Cancel a task accepting responses
+ *     description: The responses already received are kept, and the operators are not accountable for the task
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: The task ID
+ *       - in: header
+ *         name: X-Admin-Api-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The admin API key
+ *     responses:
+ *       200:
+ *         description: Task cancelled
+ *       401:
+ *         description: Invalid admin API key
+ *       403:
+ *         description: Admin API disabled
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Task is not accepting responses anymore
+ */
+adminRouter.post("/task/:id/cancel", async (req, res) => {
+  let task: Task;
+
+  try {
+    task = await DatabaseManager.getTask(parseInt(req.params.id));
+  } catch (error) {
+    return res.status(404).send({ error: "Task not found" });
+  }
+
+  try {
+    if (!(await DatabaseManager.cancelTask(task))) {
+      return res
+        .status(409)
+        .send({ error: TaskResponse.ERROR_TASK_NOT_ACCEPTING });
+    }
+
+    logger.info(`[Task ${task.id}] Cancelled by an admin`);
+
+    res.status(200).send();
+  } catch (error) {
+    logger.error(error);
+    res
+      .status(500)
+      .send({ error: "An error occurred while cancelling the task" });
+  }
+});
+
+app.use("/admin", adminRouter);
+
 /**
  * api docs
  */